@@ -0,0 +1,172 @@
+import type { AgentProvider, ChatMessage } from "./agentProviders";
+
+export type AgentToolName = "run_command" | "read_file" | "write_file" | "list_dir" | "search";
+
+export interface AgentToolCall {
+  tool: AgentToolName;
+  args: Record<string, string>;
+}
+
+export type AgentStepKind = "thinking" | "tool-call" | "tool-result" | "rejected" | "final";
+
+export interface AgentStepEvent {
+  step: number;
+  kind: AgentStepKind;
+  tool?: AgentToolName;
+  summary: string;
+  details?: string;
+  error?: boolean;
+}
+
+export interface AgentLoopHost {
+  provider: AgentProvider;
+  stepBudget: number;
+  signal: AbortSignal;
+  requestApproval: (call: AgentToolCall, step: number) => Promise<boolean>;
+  executeTool: (call: AgentToolCall) => Promise<string>;
+  onStep: (event: AgentStepEvent) => void;
+}
+
+const TOOL_NAMES: AgentToolName[] = ["run_command", "read_file", "write_file", "list_dir", "search"];
+const MAX_TOOL_RESULT_CHARS = 8000;
+
+export const AGENT_LOOP_SYSTEM_PROMPT = `You are an autonomous coding agent working inside a single project workspace.
+Work towards the user's goal one step at a time. Each reply must contain exactly one JSON object, optionally in a \`\`\`json fence:
+{"tool": "<name>", "args": { ... }}
+
+Available tools (all paths are relative to the workspace root; nothing outside it is reachable):
+- run_command {"command": string}: run a shell command in the pane's terminal and return its output.
+- read_file {"path": string}: return the contents of a text file.
+- write_file {"path": string, "content": string}: propose the full new content of a file; the user reviews the diff and may accept only part of it.
+- list_dir {"path": string}: list a directory ("." is the root).
+- search {"query": string, "path"?: string}: case-insensitive text search across files.
+- finish {"summary": string}: stop and report the outcome to the user.
+
+Keep any explanation short and before the JSON object. Call finish as soon as the goal is met.`;
+
+// Pulls the first JSON object out of a reply, preferring a fenced block. Returns null for plain prose.
+export function parseToolCall(reply: string): { call: AgentToolCall | null; finish: string | null; note: string } {
+  const fenced = reply.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+  const raw = fenced?.[1] ?? extractFirstObject(reply);
+  if (!raw) {
+    return { call: null, finish: null, note: reply.trim() };
+  }
+  const note = reply.slice(0, reply.indexOf(fenced?.[0] ?? raw)).trim();
+  let parsed: { tool?: unknown; args?: unknown };
+  try {
+    parsed = JSON.parse(raw) as { tool?: unknown; args?: unknown };
+  } catch {
+    return { call: null, finish: null, note: reply.trim() };
+  }
+  const args: Record<string, string> = {};
+  if (parsed.args && typeof parsed.args === "object") {
+    for (const [key, value] of Object.entries(parsed.args as Record<string, unknown>)) {
+      args[key] = typeof value === "string" ? value : JSON.stringify(value);
+    }
+  }
+  if (parsed.tool === "finish") {
+    return { call: null, finish: args.summary ?? note, note };
+  }
+  if (typeof parsed.tool === "string" && TOOL_NAMES.includes(parsed.tool as AgentToolName)) {
+    return { call: { tool: parsed.tool as AgentToolName, args }, finish: null, note };
+  }
+  return { call: null, finish: null, note: reply.trim() };
+}
+
+function extractFirstObject(text: string): string | null {
+  const start = text.indexOf("{");
+  if (start < 0) return null;
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i += 1) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i += 1;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === "{") depth += 1;
+    else if (char === "}") {
+      depth -= 1;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
+
+export function describeToolCall(call: AgentToolCall): string {
+  switch (call.tool) {
+    case "run_command":
+      return call.args.command ?? "";
+    case "write_file":
+      return `${call.args.path ?? ""} (${(call.args.content ?? "").length} chars)`;
+    case "search":
+      return `"${call.args.query ?? ""}" in ${call.args.path ?? "."}`;
+    default:
+      return call.args.path ?? ".";
+  }
+}
+
+function clip(text: string): string {
+  return text.length > MAX_TOOL_RESULT_CHARS ? `${text.slice(0, MAX_TOOL_RESULT_CHARS)}\n[truncated]` : text;
+}
+
+function throwIfCancelled(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new Error("Agent request was cancelled.");
+  }
+}
+
+export async function runAgentLoop(goal: string, host: AgentLoopHost): Promise<string> {
+  const messages: ChatMessage[] = [
+    { role: "system", content: AGENT_LOOP_SYSTEM_PROMPT },
+    { role: "user", content: `Goal: ${goal}` }
+  ];
+
+  for (let step = 1; step <= host.stepBudget; step += 1) {
+    throwIfCancelled(host.signal);
+    const reply = await host.provider.run({ messages, signal: host.signal });
+    messages.push({ role: "assistant", content: reply });
+
+    const { call, finish, note } = parseToolCall(reply);
+    if (finish !== null) {
+      host.onStep({ step, kind: "final", summary: "Goal finished.", details: finish });
+      return finish;
+    }
+    if (!call) {
+      // A reply without a tool call is the model's final answer.
+      host.onStep({ step, kind: "final", summary: "Agent answered without further tool calls.", details: note });
+      return note;
+    }
+    if (note) {
+      host.onStep({ step, kind: "thinking", summary: note.slice(0, 200), details: note });
+    }
+
+    host.onStep({ step, kind: "tool-call", tool: call.tool, summary: describeToolCall(call), details: JSON.stringify(call.args, null, 2) });
+    const approved = await host.requestApproval(call, step);
+    throwIfCancelled(host.signal);
+    if (!approved) {
+      host.onStep({ step, kind: "rejected", tool: call.tool, summary: `User rejected ${call.tool}.` });
+      messages.push({ role: "user", content: `The user rejected the ${call.tool} call. Choose a different approach or finish.` });
+      continue;
+    }
+
+    let result: string;
+    let failed = false;
+    try {
+      result = await host.executeTool(call);
+    } catch (error) {
+      throwIfCancelled(host.signal);
+      failed = true;
+      result = `Error: ${error instanceof Error ? error.message : "Tool failed"}`;
+    }
+    const clipped = clip(result);
+    host.onStep({ step, kind: "tool-result", tool: call.tool, summary: clipped.split("\n")[0].slice(0, 200), details: clipped, error: failed });
+    messages.push({ role: "user", content: `Result of ${call.tool}:\n${clipped}` });
+  }
+
+  const summary = `Stopped after reaching the step budget of ${host.stepBudget}.`;
+  host.onStep({ step: host.stepBudget, kind: "final", summary, error: true });
+  return summary;
+}
@@ -0,0 +1,99 @@
+export type AgentProfileOptionValue = number | string | string[];
+
+export interface AgentProfile {
+  name: string;
+  route: string;
+  model: string;
+  systemPrompt: string;
+  options: Record<string, AgentProfileOptionValue>;
+}
+
+const PROFILE_NAME = /^[a-z][a-z0-9-]*$/;
+
+// Ollama `options` keys that take numbers; `stop` is the only list-valued option.
+const NUMERIC_OPTIONS = new Set([
+  "temperature",
+  "top_p",
+  "top_k",
+  "min_p",
+  "num_ctx",
+  "num_predict",
+  "repeat_penalty",
+  "repeat_last_n",
+  "presence_penalty",
+  "frequency_penalty",
+  "seed",
+  "mirostat",
+  "mirostat_eta",
+  "mirostat_tau"
+]);
+
+export const DEFAULT_AGENT_PROFILES: AgentProfile[] = [
+  {
+    name: "reviewer",
+    route: "",
+    model: "",
+    systemPrompt:
+      "You are a meticulous code reviewer. Point out bugs, risky changes and missing tests first, then style issues. Quote the exact lines you refer to and keep suggestions concrete.",
+    options: { temperature: 0.2, num_ctx: 8192 }
+  },
+  {
+    name: "shell-helper",
+    route: "",
+    model: "",
+    systemPrompt:
+      "You help with terminal work. Answer with the shortest correct command for the user's shell in a fenced code block, followed by one sentence explaining it. Warn before anything destructive.",
+    options: { temperature: 0.1, num_predict: 512 }
+  },
+  {
+    name: "architect",
+    route: "",
+    model: "",
+    systemPrompt:
+      "You are a pragmatic software architect. Weigh trade-offs explicitly, prefer the simplest design that meets the requirements, and outline changes as a short ordered plan before any code.",
+    options: { temperature: 0.6, num_ctx: 16384 }
+  }
+];
+
+// Drops blank stop sequences left over from line-per-entry editing.
+export function normalizeAgentProfiles(profiles: AgentProfile[]): AgentProfile[] {
+  return profiles.map((profile) => {
+    const options: Record<string, AgentProfileOptionValue> = { ...(profile.options ?? {}) };
+    if (Array.isArray(options.stop)) {
+      const stops = options.stop.filter((item) => item.length > 0);
+      if (stops.length) options.stop = stops;
+      else delete options.stop;
+    }
+    return {
+      ...profile,
+      name: profile.name.trim(),
+      model: profile.route ? profile.model.trim() : "",
+      options
+    };
+  });
+}
+
+export function validateAgentProfiles(profiles: AgentProfile[], routes: string[]): void {
+  const seen = new Set<string>();
+  for (const profile of profiles) {
+    if (!PROFILE_NAME.test(profile.name)) {
+      throw new Error(`Profile name "${profile.name}" must start with a letter and use lowercase letters, digits or dashes.`);
+    }
+    if (seen.has(profile.name)) {
+      throw new Error(`Profile "${profile.name}" is defined twice.`);
+    }
+    seen.add(profile.name);
+    if (profile.route && !routes.includes(profile.route)) {
+      throw new Error(`Profile "${profile.name}" uses /${profile.route}, which is not a registered provider.`);
+    }
+    for (const [key, value] of Object.entries(profile.options ?? {})) {
+      if (key === "stop") {
+        if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+          throw new Error(`Profile "${profile.name}": stop must be a list of strings.`);
+        }
+      } else if (NUMERIC_OPTIONS.has(key) && (typeof value !== "number" || !Number.isFinite(value))) {
+        throw new Error(`Profile "${profile.name}": ${key} must be a number.`);
+      }
+    }
+  }
+}
@@ -0,0 +1,429 @@
+export type AgentProviderKind = "ollama" | "openai-compatible" | "mock";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface AgentProviderConfig {
+  id: string;
+  kind: AgentProviderKind;
+  label: string;
+  endpoint: string;
+  model: string;
+  apiKey: string;
+  timeoutMs: number;
+  retries: number;
+  // Requests beyond this many in flight wait in the agent scheduler's queue.
+  maxConcurrent: number;
+}
+
+export interface AgentRunMetrics {
+  route: string;
+  model: string;
+  ok: boolean;
+  startedAt: number;
+  firstTokenMs: number | null;
+  totalMs: number;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  tokensPerSecond: number | null;
+  retries: number;
+}
+
+export interface AgentRunRequest {
+  messages: ChatMessage[];
+  signal?: AbortSignal;
+  onToken?: (token: string) => void;
+  onMetrics?: (metrics: AgentRunMetrics) => void;
+  // Sampling options in Ollama's naming (temperature, num_ctx, stop, ...); other backends map what they support.
+  options?: Record<string, unknown>;
+}
+
+export interface AgentProvider {
+  readonly config: AgentProviderConfig;
+  run: (request: AgentRunRequest) => Promise<string>;
+}
+
+export const AGENT_PROVIDER_KINDS: AgentProviderKind[] = ["ollama", "openai-compatible", "mock"];
+
+export function defaultProviderConfigs(localModel: string): AgentProviderConfig[] {
+  return [
+    {
+      id: "local",
+      kind: "ollama",
+      label: "Local",
+      endpoint: "http://127.0.0.1:11434",
+      model: localModel,
+      apiKey: "",
+      timeoutMs: 20000,
+      retries: 1,
+      maxConcurrent: 1
+    },
+    {
+      id: "mock",
+      kind: "mock",
+      label: "Mock",
+      endpoint: "",
+      model: "mock-echo",
+      apiKey: "",
+      timeoutMs: 20000,
+      retries: 0,
+      maxConcurrent: 4
+    }
+  ];
+}
+
+export function validateProviderConfigs(configs: AgentProviderConfig[], reservedIds: string[]): void {
+  const seen = new Set<string>();
+  for (const config of configs) {
+    if (!/^[a-z][a-z0-9-]*$/.test(config.id)) {
+      throw new Error(`Provider route "${config.id}" must be lowercase letters, digits or dashes.`);
+    }
+    if (reservedIds.includes(config.id)) {
+      throw new Error(`Provider route "/${config.id}" is reserved.`);
+    }
+    if (seen.has(config.id)) {
+      throw new Error(`Provider route "/${config.id}" is defined twice.`);
+    }
+    seen.add(config.id);
+    if (!AGENT_PROVIDER_KINDS.includes(config.kind)) {
+      throw new Error(`Provider "/${config.id}" has an unknown kind.`);
+    }
+    if (config.kind !== "mock" && !config.endpoint.trim()) {
+      throw new Error(`Provider "/${config.id}" needs an endpoint.`);
+    }
+    if (!config.model.trim()) {
+      throw new Error(`Provider "/${config.id}" needs a model.`);
+    }
+    if (!Number.isFinite(config.timeoutMs) || config.timeoutMs < 1000) {
+      throw new Error(`Provider "/${config.id}" timeout must be at least 1000 ms.`);
+    }
+    if (!Number.isInteger(config.retries) || config.retries < 0 || config.retries > 5) {
+      throw new Error(`Provider "/${config.id}" retries must be between 0 and 5.`);
+    }
+    if (!Number.isInteger(config.maxConcurrent) || config.maxConcurrent < 1 || config.maxConcurrent > 16) {
+      throw new Error(`Provider "/${config.id}" parallel requests must be between 1 and 16.`);
+    }
+  }
+}
+
+export function createAgentProvider(config: AgentProviderConfig): AgentProvider {
+  switch (config.kind) {
+    case "ollama":
+      return { config, run: (request) => runOllama(config, request) };
+    case "openai-compatible":
+      return { config, run: (request) => runOpenAiCompatible(config, request) };
+    case "mock":
+      return { config, run: (request) => runMock(config, request) };
+    default:
+      throw new Error(`Unsupported agent provider kind: ${String(config.kind)}`);
+  }
+}
+
+function combineSignals(external?: AbortSignal): AbortController {
+  const controller = new AbortController();
+  if (!external) {
+    return controller;
+  }
+  if (external.aborted) {
+    controller.abort();
+    return controller;
+  }
+  external.addEventListener("abort", () => controller.abort(), { once: true });
+  return controller;
+}
+
+function shouldRetryStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Raised when a provider produced nothing for longer than its idle timeout.
+export class AgentTimeoutError extends Error {}
+
+// Raised for failures that a second attempt cannot fix, such as a 404 for an unknown model.
+class NonRetryableError extends Error {}
+
+interface IdleTimer {
+  touch: () => void;
+  clear: () => void;
+  expired: () => boolean;
+}
+
+function startIdleTimer(controller: AbortController, timeoutMs: number): IdleTimer {
+  let fired = false;
+  let timer: NodeJS.Timeout | null = null;
+  const touch = (): void => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      fired = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  touch();
+  return {
+    touch,
+    clear: () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+    expired: () => fired
+  };
+}
+
+// Reads a line-oriented body (NDJSON or SSE), handing over the complete lines of each network read as one batch.
+export async function readLines(res: Response, onBatch: (lines: string[]) => void): Promise<void> {
+  if (!res.body) {
+    throw new Error("Response has no body to stream.");
+  }
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    onBatch(lines.filter((line) => line.trim()));
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) onBatch([buffer]);
+}
+
+// Token counts as reported by the backend; `generationMs` is the backend's own decode time when it reports one.
+interface StreamUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  generationMs?: number;
+}
+
+interface StreamAttempt {
+  signal: AbortSignal;
+  touch: () => void;
+  emit: (token: string) => void;
+  usage: (usage: StreamUsage) => void;
+}
+
+function tokensPerSecond(usage: StreamUsage, firstTokenAt: number | null, finishedAt: number): number | null {
+  if (!usage.completionTokens) return null;
+  const ms = usage.generationMs ?? (firstTokenAt !== null ? finishedAt - firstTokenAt : 0);
+  return ms > 0 ? Math.round((usage.completionTokens / ms) * 10000) / 10 : null;
+}
+
+// Shared retry loop: the timeout is an idle/first-token timeout that resets on every received chunk,
+// and an attempt that already produced tokens is never retried because the pane would show duplicate output.
+async function runStreamingWithRetries(
+  config: AgentProviderConfig,
+  request: AgentRunRequest,
+  attemptFn: (attempt: StreamAttempt) => Promise<void>
+): Promise<string> {
+  const startedAt = Date.now();
+  let lastError: Error | null = null;
+  let attempts = 0;
+  let firstTokenAt: number | null = null;
+  let usage: StreamUsage = {};
+
+  const report = (ok: boolean): void => {
+    const finishedAt = Date.now();
+    request.onMetrics?.({
+      route: config.id,
+      model: config.model,
+      ok,
+      startedAt,
+      firstTokenMs: firstTokenAt !== null ? firstTokenAt - startedAt : null,
+      totalMs: finishedAt - startedAt,
+      promptTokens: usage.promptTokens ?? null,
+      completionTokens: usage.completionTokens ?? null,
+      tokensPerSecond: tokensPerSecond(usage, firstTokenAt, finishedAt),
+      retries: Math.max(0, attempts - 1)
+    });
+  };
+
+  for (let attempt = 0; attempt <= config.retries; attempt += 1) {
+    const controller = combineSignals(request.signal);
+    const idle = startIdleTimer(controller, config.timeoutMs);
+    let text = "";
+    attempts += 1;
+    usage = {};
+    try {
+      await attemptFn({
+        signal: controller.signal,
+        touch: idle.touch,
+        emit: (token) => {
+          if (!token) return;
+          firstTokenAt ??= Date.now();
+          text += token;
+          request.onToken?.(token);
+        },
+        usage: (next) => {
+          usage = { ...usage, ...next };
+        }
+      });
+      report(true);
+      return text;
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw new Error("Agent request was cancelled.");
+      }
+      lastError = idle.expired()
+        ? new AgentTimeoutError(`${config.label} stopped responding for ${Math.round(config.timeoutMs / 1000)}s.`)
+        : error instanceof Error
+          ? error
+          : new Error(`Unknown ${config.label} agent error`);
+      if (text || error instanceof NonRetryableError) break;
+    } finally {
+      idle.clear();
+    }
+  }
+  report(false);
+  throw lastError ?? new Error(`Unknown ${config.label} agent error`);
+}
+
+export function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+function runOllama(config: AgentProviderConfig, request: AgentRunRequest): Promise<string> {
+  return runStreamingWithRetries(config, request, async ({ signal, touch, emit, usage }) => {
+    const res = await fetch(`${trimTrailingSlash(config.endpoint)}/api/chat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: config.model,
+        messages: request.messages,
+        stream: true,
+        ...(request.options && Object.keys(request.options).length ? { options: request.options } : {})
+      }),
+      signal
+    });
+    if (!res.ok) {
+      const message =
+        res.status === 404 ? `Ollama model "${config.model}" is not installed. Pull it from the Settings Vault.` : `Ollama error: ${res.status}`;
+      throw shouldRetryStatus(res.status) ? new Error(message) : new NonRetryableError(message);
+    }
+    await readLines(res, (lines) => {
+      touch();
+      let batch = "";
+      for (const line of lines) {
+        const body = JSON.parse(line) as {
+          message?: { content?: string };
+          error?: string;
+          done?: boolean;
+          prompt_eval_count?: number;
+          eval_count?: number;
+          eval_duration?: number;
+        };
+        if (body.error) {
+          throw new NonRetryableError(`Ollama error: ${body.error}`);
+        }
+        batch += body.message?.content ?? "";
+        if (body.done) {
+          // Durations are reported in nanoseconds.
+          usage({
+            promptTokens: body.prompt_eval_count,
+            completionTokens: body.eval_count,
+            generationMs: body.eval_duration ? body.eval_duration / 1e6 : undefined
+          });
+        }
+      }
+      emit(batch);
+    });
+  });
+}
+
+const OPENAI_OPTION_NAMES: Record<string, string> = {
+  temperature: "temperature",
+  top_p: "top_p",
+  stop: "stop",
+  seed: "seed",
+  presence_penalty: "presence_penalty",
+  frequency_penalty: "frequency_penalty",
+  num_predict: "max_tokens"
+};
+
+function openAiSamplingOptions(options: Record<string, unknown> | undefined): Record<string, unknown> {
+  const mapped: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(options ?? {})) {
+    if (OPENAI_OPTION_NAMES[key]) mapped[OPENAI_OPTION_NAMES[key]] = value;
+  }
+  return mapped;
+}
+
+function runOpenAiCompatible(config: AgentProviderConfig, request: AgentRunRequest): Promise<string> {
+  return runStreamingWithRetries(config, request, async ({ signal, touch, emit, usage }) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+    const res = await fetch(config.endpoint, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        messages: request.messages,
+        stream: true,
+        stream_options: { include_usage: true },
+        ...openAiSamplingOptions(request.options)
+      }),
+      signal
+    });
+    if (!res.ok) {
+      const message = `${config.label} error: ${res.status}`;
+      throw shouldRetryStatus(res.status) ? new Error(message) : new NonRetryableError(message);
+    }
+    await readLines(res, (lines) => {
+      touch();
+      let batch = "";
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, "").trim();
+        if (!data || data === "[DONE]" || line.startsWith(":")) continue;
+        const body = JSON.parse(data) as {
+          choices?: Array<{ delta?: { content?: string }; message?: { content?: string } }>;
+          usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+          error?: { message?: string };
+        };
+        if (body.error) {
+          throw new NonRetryableError(`${config.label} error: ${body.error.message ?? "unknown"}`);
+        }
+        if (body.usage) {
+          usage({ promptTokens: body.usage.prompt_tokens, completionTokens: body.usage.completion_tokens });
+        }
+        const choice = body.choices?.[0];
+        batch += choice?.delta?.content ?? choice?.message?.content ?? "";
+      }
+      emit(batch);
+    });
+  });
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(new Error("aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Deterministic offline provider: the reply depends only on the conversation, so agent UI flows can be exercised without a model.
+function runMock(config: AgentProviderConfig, request: AgentRunRequest): Promise<string> {
+  return runStreamingWithRetries(config, request, async ({ signal, touch, emit, usage }) => {
+    const lastUser = [...request.messages].reverse().find((message) => message.role === "user");
+    const turn = request.messages.filter((message) => message.role === "user").length;
+    const prompt = lastUser?.content.trim() ?? "";
+    const reply = `Mock reply #${turn} from ${config.model}.\n\nYou asked: "${prompt}"\n\n\`\`\`\necho "${prompt.replace(/"/g, "'").slice(0, 60)}"\n\`\`\`\n`;
+    const tokens = reply.match(/\S+\s*|\s+/g) ?? [];
+    for (const token of tokens) {
+      await delay(15, signal);
+      touch();
+      emit(token);
+    }
+    usage({ promptTokens: request.messages.reduce((sum, message) => sum + message.content.split(/\s+/).length, 0), completionTokens: tokens.length });
+  });
+}
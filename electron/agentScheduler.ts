@@ -0,0 +1,130 @@
+export type AgentQueueOrder = "fifo" | "active-first";
+
+export interface AgentQueueStatus {
+  paneId: string;
+  route: string;
+  // 1-based place in the provider's queue; 0 once the request holds a slot.
+  position: number;
+  waitedMs: number;
+}
+
+export interface ScheduledRequest {
+  paneId: string;
+  route: string;
+  limit: number;
+  signal?: AbortSignal;
+}
+
+interface QueueEntry extends ScheduledRequest {
+  seq: number;
+  queuedAt: number;
+  position: number;
+  start: () => void;
+  cancel: () => void;
+}
+
+// Caps concurrent agent requests per provider route. Requests over the limit wait in a per-route queue, either
+// strictly first-in-first-out or with the active pane's requests moved to the front; an aborted signal drops a
+// queued request without it ever reaching the provider.
+export class AgentScheduler {
+  private readonly running = new Map<string, number>();
+  private readonly queues = new Map<string, QueueEntry[]>();
+  private order: AgentQueueOrder = "fifo";
+  private activePaneId = "";
+  private seq = 0;
+
+  constructor(private readonly onStatus: (status: AgentQueueStatus) => void) {}
+
+  setOrder(order: AgentQueueOrder): void {
+    if (order === this.order) return;
+    this.order = order;
+    this.refresh();
+  }
+
+  setActivePane(paneId: string): void {
+    if (paneId === this.activePaneId) return;
+    this.activePaneId = paneId;
+    if (this.order === "active-first") this.refresh();
+  }
+
+  async run<T>(request: ScheduledRequest, task: () => Promise<T>): Promise<T> {
+    await this.acquire(request);
+    try {
+      return await task();
+    } finally {
+      this.running.set(request.route, Math.max(0, (this.running.get(request.route) ?? 0) - 1));
+      this.refresh();
+    }
+  }
+
+  private acquire(request: ScheduledRequest): Promise<void> {
+    if (request.signal?.aborted) {
+      return Promise.reject(new Error("Agent request was cancelled."));
+    }
+    const queue = this.queues.get(request.route) ?? [];
+    if (!queue.length && (this.running.get(request.route) ?? 0) < Math.max(1, request.limit)) {
+      this.running.set(request.route, (this.running.get(request.route) ?? 0) + 1);
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = (): void => entry.cancel();
+      const entry: QueueEntry = {
+        ...request,
+        seq: (this.seq += 1),
+        queuedAt: Date.now(),
+        position: 0,
+        start: () => {
+          request.signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+        cancel: () => {
+          request.signal?.removeEventListener("abort", onAbort);
+          this.remove(entry);
+          reject(new Error("Agent request was cancelled while queued."));
+        }
+      };
+      request.signal?.addEventListener("abort", onAbort, { once: true });
+      this.queues.set(request.route, [...queue, entry]);
+      this.refresh();
+    });
+  }
+
+  private remove(entry: QueueEntry): void {
+    const queue = this.queues.get(entry.route) ?? [];
+    this.queues.set(entry.route, queue.filter((candidate) => candidate !== entry));
+    this.refresh();
+  }
+
+  private sorted(queue: QueueEntry[]): QueueEntry[] {
+    return [...queue].sort((a, b) => {
+      if (this.order === "active-first") {
+        const activeA = a.paneId === this.activePaneId ? 0 : 1;
+        const activeB = b.paneId === this.activePaneId ? 0 : 1;
+        if (activeA !== activeB) return activeA - activeB;
+      }
+      return a.seq - b.seq;
+    });
+  }
+
+  // Starts whatever fits under each route's limit, then reports every changed queue position.
+  private refresh(): void {
+    for (const [route, queue] of this.queues) {
+      let waiting = this.sorted(queue);
+      while (waiting.length && (this.running.get(route) ?? 0) < Math.max(1, waiting[0].limit)) {
+        const next = waiting[0];
+        waiting = waiting.slice(1);
+        this.running.set(route, (this.running.get(route) ?? 0) + 1);
+        this.onStatus({ paneId: next.paneId, route, position: 0, waitedMs: Date.now() - next.queuedAt });
+        next.start();
+      }
+      waiting.forEach((entry, index) => {
+        if (entry.position === index + 1) return;
+        entry.position = index + 1;
+        this.onStatus({ paneId: entry.paneId, route, position: entry.position, waitedMs: Date.now() - entry.queuedAt });
+      });
+      if (waiting.length) this.queues.set(route, waiting);
+      else this.queues.delete(route);
+    }
+  }
+}
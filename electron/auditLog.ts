@@ -0,0 +1,124 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { workspaceStorageKey } from "./workspaceTools";
+
+export type AuditOrigin = "user" | "agent" | "palette";
+// How the text reached the shell: a checked line, raw input to a running program, an agent tool call or a pane pipe.
+export type AuditInputMode = "shell-line" | "interactive-passthrough" | "tool-call" | "pipe";
+// allow and deny come straight from a rule; confirmed and declined are the user's answer to a confirm rule.
+export type AuditPolicyOutcome = "allow" | "deny" | "confirmed" | "declined";
+export type AuditExportFormat = "jsonl" | "csv";
+
+export interface AuditRecord {
+  id: string;
+  ts: string;
+  paneId: string;
+  inputMode: AuditInputMode;
+  origin: AuditOrigin;
+  command: string;
+  executionMode: string;
+  // Null when the command was not checked, which is every mode but Sandboxed and raw program input.
+  policy: AuditPolicyOutcome | null;
+  policyReason: string | null;
+  // Known only for typed commands in shells that report exit codes.
+  exitCode: number | null;
+}
+
+export interface AuditFilter {
+  paneId?: string;
+  origin?: AuditOrigin;
+  policy?: AuditPolicyOutcome;
+  text?: string;
+}
+
+export interface AuditExportResult {
+  path: string;
+  records: number;
+}
+
+// Exit codes arrive after the command was logged, so they are appended as their own line and joined on read.
+type AuditLine = ({ kind: "command" } & Omit<AuditRecord, "exitCode">) | { kind: "exit"; id: string; ts: string; exitCode: number };
+
+const EXPORTS_DIR = path.join(".vibe", "audit-exports");
+const CSV_COLUMNS: Array<keyof AuditRecord> = ["ts", "paneId", "inputMode", "origin", "command", "executionMode", "policy", "policyReason", "exitCode"];
+
+// The workspace's log inside `dir`, which is meant to be outside every workspace so the shells and agents being
+// audited cannot rewrite their own history.
+export function auditLogPath(dir: string, root: string): string {
+  return path.join(dir, `${workspaceStorageKey(root)}.jsonl`);
+}
+
+function appendLine(file: string, line: AuditLine): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, `${JSON.stringify(line)}\n`, "utf8");
+}
+
+// Returns the record id, which `appendAuditExit` uses to attach the exit code later.
+export function appendAuditRecord(file: string, record: Omit<AuditRecord, "id" | "ts" | "exitCode">): string {
+  const id = crypto.randomUUID();
+  appendLine(file, { kind: "command", id, ts: new Date().toISOString(), ...record });
+  return id;
+}
+
+export function appendAuditExit(file: string, id: string, exitCode: number): void {
+  appendLine(file, { kind: "exit", id, ts: new Date().toISOString(), exitCode });
+}
+
+// Newest first.
+export function readAuditLog(file: string): AuditRecord[] {
+  if (!fs.existsSync(file)) return [];
+  const records = new Map<string, AuditRecord>();
+  for (const raw of fs.readFileSync(file, "utf8").split("\n")) {
+    if (!raw.trim()) continue;
+    let line: AuditLine;
+    try {
+      line = JSON.parse(raw) as AuditLine;
+    } catch {
+      // A torn last line from a crash should not hide the rest of the log.
+      continue;
+    }
+    if (line.kind === "command") {
+      const { kind: _kind, ...record } = line;
+      records.set(record.id, { ...record, exitCode: null });
+    } else if (line.kind === "exit") {
+      const record = records.get(line.id);
+      if (record) record.exitCode = line.exitCode;
+    }
+  }
+  return [...records.values()].reverse();
+}
+
+export function filterAuditLog(records: AuditRecord[], filter: AuditFilter): AuditRecord[] {
+  const text = filter.text?.trim().toLowerCase() ?? "";
+  return records.filter(
+    (record) =>
+      (!filter.paneId || record.paneId === filter.paneId) &&
+      (!filter.origin || record.origin === filter.origin) &&
+      (!filter.policy || record.policy === filter.policy) &&
+      (!text || record.command.toLowerCase().includes(text) || (record.policyReason ?? "").toLowerCase().includes(text))
+  );
+}
+
+function csvCell(value: string | number | null): string {
+  // A leading quote keeps spreadsheets from reading a command such as `=cmd|...` as a formula.
+  const text = value === null ? "" : typeof value === "string" && /^[=+\-@\t]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+export function renderAuditCsv(records: AuditRecord[]): string {
+  const rows = records.map((record) => CSV_COLUMNS.map((column) => csvCell(record[column])).join(","));
+  return `${[CSV_COLUMNS.join(","), ...rows].join("\r\n")}\r\n`;
+}
+
+// Writes the records oldest first, so an export reads in the order the commands ran.
+export function writeAuditExport(root: string, records: AuditRecord[], format: AuditExportFormat): AuditExportResult {
+  const dir = path.join(root, EXPORTS_DIR);
+  fs.mkdirSync(dir, { recursive: true });
+  const stamp = new Date().toISOString().replace(/\.\d+Z$/, "Z").replace(/:/g, "-");
+  const name = `audit-${stamp}.${format}`;
+  const ordered = [...records].reverse();
+  const content = format === "csv" ? renderAuditCsv(ordered) : ordered.map((record) => `${JSON.stringify(record)}\n`).join("");
+  fs.writeFileSync(path.join(dir, name), content, "utf8");
+  return { path: `${EXPORTS_DIR.split(path.sep).join("/")}/${name}`, records: records.length };
+}
@@ -0,0 +1,197 @@
+import path from "node:path";
+
+export type ShellKind = "pwsh" | "powershell" | "cmd" | "bash" | "zsh" | "fish" | "other";
+
+export interface CommandFailure {
+  command: string;
+  exitCode: number | null;
+  reason: string;
+  output: string;
+  cwd: string;
+  shell: ShellKind;
+  failedAt: number;
+}
+
+export interface ShellIntegration {
+  args: string[];
+  env: Record<string, string>;
+}
+
+interface CommandWatcherOptions {
+  shell: ShellKind;
+  cwd: string;
+  quietMs: number;
+  readOutput: () => string[];
+  onFailure: (failure: CommandFailure) => void;
+  // Called for every finished command; the exit code is null when the shell does not report one.
+  onComplete?: (exitCode: number | null) => void;
+}
+
+const MAX_FAILURE_LINES = 80;
+const MAX_FAILURE_CHARS = 6000;
+// VS Code's shell integration sequences: `633;D;<exit code>` after a command, `633;P;Cwd=<path>` with each prompt.
+const MARKER = /\u001b\]633;([DP]);?([^\u0007\u001b]*)(?:\u0007|\u001b\\)/g;
+const MARKER_START = "\u001b]633;";
+
+const FAILURE_PATTERNS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /^\s*\+\s*(?:CategoryInfo|FullyQualifiedErrorId)\s*:/m, reason: "PowerShell error record" },
+  { pattern: /^npm (?:ERR!|error) /m, reason: "npm error" },
+  { pattern: /\berror TS\d+:/, reason: "TypeScript compiler error" },
+  { pattern: /is not recognized as (?:an internal or external command|the name of a cmdlet)/, reason: "command not found" },
+  { pattern: /(?:^|: )command not found\b/m, reason: "command not found" },
+  { pattern: /^Traceback \(most recent call last\):/m, reason: "Python traceback" },
+  { pattern: /^fatal: /m, reason: "git error" }
+];
+
+const SHELL_LABELS: Record<ShellKind, string> = {
+  pwsh: "PowerShell 7 (pwsh)",
+  powershell: "Windows PowerShell",
+  cmd: "cmd.exe",
+  bash: "bash",
+  zsh: "zsh",
+  fish: "fish",
+  other: "shell"
+};
+
+export function shellKind(exe: string): ShellKind {
+  const name = path.basename(exe.replace(/\\/g, "/")).toLowerCase().replace(/\.exe$/, "");
+  const known: ShellKind[] = ["pwsh", "powershell", "cmd", "bash", "zsh", "fish"];
+  return known.find((kind) => kind === name) ?? "other";
+}
+
+// Extra spawn arguments and environment that make the shell report exit codes and the cwd at each prompt.
+// cmd.exe can only report its cwd, and zsh and fish have no hook that can be set from outside their rc files, so their
+// failures are recognised from output patterns alone.
+export function shellIntegration(shell: ShellKind, env: NodeJS.ProcessEnv): ShellIntegration {
+  if (shell === "pwsh" || shell === "powershell") {
+    const script = [
+      "$global:__VibeAdePrompt = $function:prompt",
+      "function global:prompt {",
+      "  $code = if ($global:?) { 0 } elseif ($global:LASTEXITCODE) { $global:LASTEXITCODE } else { 1 }",
+      "  $e = [char]27; $b = [char]7",
+      '  "$e]633;D;$code$b$e]633;P;Cwd=$($PWD.ProviderPath)$b" + (& $global:__VibeAdePrompt)',
+      "}"
+    ].join("\n");
+    return { args: ["-NoExit", "-EncodedCommand", Buffer.from(script, "utf16le").toString("base64")], env: {} };
+  }
+  if (shell === "bash") {
+    return { args: [], env: { PROMPT_COMMAND: "printf '\\033]633;D;%s\\007\\033]633;P;Cwd=%s\\007' \"$?\" \"$PWD\"" } };
+  }
+  if (shell === "cmd") {
+    return { args: [], env: { PROMPT: `$E]633;P;Cwd=$P$E\\${env.PROMPT ?? "$P$G"}` } };
+  }
+  return { args: [], env: {} };
+}
+
+export function matchFailurePattern(output: string): string | null {
+  return FAILURE_PATTERNS.find(({ pattern }) => pattern.test(output))?.reason ?? null;
+}
+
+function clipOutput(lines: string[]): string {
+  const text = lines.slice(-MAX_FAILURE_LINES).join("\n").trim();
+  return text.length > MAX_FAILURE_CHARS ? text.slice(text.length - MAX_FAILURE_CHARS) : text;
+}
+
+// Follows one pane's PTY output and reports a command as failed on a non-zero exit code or a known error pattern.
+// Until the shell has sent an exit-code marker, a command is judged once its output has been quiet for `quietMs`.
+export class CommandFailureWatcher {
+  private command = "";
+  private cwd: string;
+  private carry = "";
+  private reportsExitCodes = false;
+  // Null until the shell sends its first prompt marker; then true while it waits at a prompt with no command running.
+  private idle: boolean | null = null;
+  private quietTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: CommandWatcherOptions) {
+    this.cwd = options.cwd;
+  }
+
+  begin(command: string): void {
+    this.clearTimer();
+    this.command = command.trim();
+    if (this.idle !== null) this.idle = false;
+  }
+
+  // The directory from the shell's latest prompt marker, or the spawn directory until one arrives.
+  currentCwd(): string {
+    return this.cwd;
+  }
+
+  // Whether text typed now reaches the shell's prompt rather than a running program; null for shells that do not
+  // report their prompts.
+  atPrompt(): boolean | null {
+    return this.idle;
+  }
+
+  push(chunk: string): void {
+    const text = this.carry + chunk;
+    const open = text.lastIndexOf(MARKER_START);
+    // Keep an unterminated marker for the next chunk.
+    this.carry = open >= 0 && !/\u0007|\u001b\\/.test(text.slice(open)) ? text.slice(open, open + 4096) : "";
+    for (const match of text.matchAll(MARKER)) {
+      if (match[1] === "P") {
+        const cwd = match[2].replace(/^Cwd=/, "");
+        if (cwd) this.cwd = cwd;
+        this.idle = true;
+        continue;
+      }
+      this.reportsExitCodes = true;
+      const code = Number.parseInt(match[2], 10);
+      this.finish(Number.isFinite(code) ? code : null);
+    }
+    if (this.command && !this.reportsExitCodes) {
+      this.clearTimer();
+      this.quietTimer = setTimeout(() => this.finish(null), this.options.quietMs);
+    }
+  }
+
+  dispose(): void {
+    this.clearTimer();
+    this.command = "";
+  }
+
+  private finish(exitCode: number | null): void {
+    this.clearTimer();
+    if (!this.command) return;
+    const output = clipOutput(this.options.readOutput());
+    const pattern = matchFailurePattern(output);
+    if ((exitCode !== null && exitCode !== 0) || pattern) {
+      this.options.onFailure({
+        command: this.command,
+        exitCode,
+        reason: pattern ?? `exit code ${exitCode}`,
+        output,
+        cwd: this.cwd,
+        shell: this.options.shell,
+        failedAt: Date.now()
+      });
+    }
+    this.options.onComplete?.(exitCode);
+    this.command = "";
+  }
+
+  private clearTimer(): void {
+    if (this.quietTimer) clearTimeout(this.quietTimer);
+    this.quietTimer = null;
+  }
+}
+
+export function buildFixPrompt(failure: CommandFailure, notes: string): string {
+  const shell = SHELL_LABELS[failure.shell];
+  return [
+    `A command failed in a ${shell} terminal.`,
+    `Command: ${failure.command}`,
+    `Working directory: ${failure.cwd}`,
+    `Exit code: ${failure.exitCode ?? "unknown"} (detected: ${failure.reason})`,
+    "Output:",
+    "```",
+    failure.output || "(no output)",
+    "```",
+    notes ? `Notes from the user: ${notes}` : "",
+    `Explain the cause in one or two sentences, then give the corrected command for ${shell} in a single fenced code block. ` +
+      "If no command can fix it, say what has to change instead."
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,441 @@
+import fs from "node:fs";
+import path from "node:path";
+
+export type PolicyAction = "allow" | "deny" | "confirm";
+export type PolicyPreset = "strict" | "standard" | "permissive";
+
+export interface PolicyRule {
+  action: PolicyAction;
+  // Command names without a Windows extension, case-insensitive (`rm`, `git`, `remove-item`). A trailing `*` matches
+  // any suffix (`mkfs*`). Omitted matches every command.
+  commands?: string[];
+  // Regular expression tested case-insensitively against the command's arguments joined by single spaces.
+  args?: string;
+  // Matches when any argument that looks like a path resolves outside the project root. `protected` is built in and
+  // matches commands that write to or remove the policy file or the audit logs.
+  paths?: "outside-project" | "protected";
+  reason?: string;
+}
+
+export interface CommandPolicy {
+  // Built-in machine and protected-file rules come first, then the workspace's, then the preset's; the first rule that
+  // matches a command decides it.
+  rules: PolicyRule[];
+  // Used when no rule matches.
+  fallback: PolicyAction;
+  source: string;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  // The simple command inside a pipeline or list that decided the outcome.
+  segment: string;
+  reason: string;
+}
+
+export interface PolicyContext {
+  root: string;
+  home: string;
+  platform: NodeJS.Platform;
+  // Folder holding the audit logs, protected like the policy file.
+  auditDir: string;
+}
+
+interface PolicyFile {
+  preset?: PolicyPreset;
+  default?: PolicyAction;
+  rules?: PolicyRule[];
+}
+
+const POLICY_FILE = path.join(".vibe", "policy.json");
+const ACTIONS: PolicyAction[] = ["allow", "deny", "confirm"];
+export const POLICY_PRESETS: PolicyPreset[] = ["strict", "standard", "permissive"];
+const ACTION_RANK: PolicyAction[] = ["allow", "confirm", "deny"];
+// Nested `bash -c "..."` and `$(...)` scripts are followed this deep before the command is refused outright.
+const MAX_NESTING = 4;
+
+const MACHINE_RULES: PolicyRule[] = [
+  {
+    action: "deny",
+    commands: ["format", "diskpart", "mkfs*", "fdisk", "dd", "shutdown", "reboot", "halt", "poweroff", "stop-computer", "restart-computer", "bcdedit", "takeown", "icacls"],
+    reason: "changes the machine rather than the project"
+  },
+  { action: "deny", commands: ["reg"], args: "^(delete|add|import)\\b", reason: "edits the Windows registry" },
+  { action: "deny", commands: ["sudo", "su", "doas", "runas"], reason: "runs with elevated rights" },
+  { action: "deny", commands: ["start-process", "saps"], args: "-verb\\s+runas", reason: "runs with elevated rights" },
+  { action: "deny", commands: ["powershell", "pwsh"], args: "(^|\\s)-(e|ec|enc|encodedcommand)(\\s|$)", reason: "hides its script from the policy" }
+];
+
+const PROTECTED_RULES: PolicyRule[] = [{ action: "deny", paths: "protected", reason: "rewrites the sandbox policy or the audit log" }];
+
+// Checked ahead of `.vibe/policy.json`, so a workspace file can neither lift them nor unlock itself.
+const BUILT_IN_RULES = [...MACHINE_RULES, ...PROTECTED_RULES];
+
+const PROJECT_RULES: PolicyRule[] = [
+  { action: "deny", paths: "outside-project", reason: "reaches outside the project" },
+  { action: "deny", commands: ["npm", "pnpm", "yarn"], args: "(^|\\s)(-g|--global|global)(\\s|$)", reason: "installs outside the project" }
+];
+
+const DESTRUCTIVE_RULES: PolicyRule[] = [
+  { action: "confirm", commands: ["rm", "rmdir", "del", "erase", "rd", "remove-item", "ri", "shred", "unlink"], reason: "deletes files" },
+  { action: "confirm", commands: ["git"], args: "^(push\\b.*\\s(-f|--force|--force-with-lease)\\b|reset\\b.*--hard|clean\\b)", reason: "discards work or rewrites history" },
+  { action: "confirm", commands: ["chmod", "chown", "attrib"], reason: "changes file permissions" },
+  { action: "confirm", commands: ["invoke-expression", "iex"], reason: "runs a string as code" }
+];
+
+const READ_ONLY_RULES: PolicyRule[] = [
+  {
+    action: "allow",
+    commands: ["ls", "dir", "pwd", "cd", "cat", "type", "head", "tail", "less", "more", "wc", "grep", "rg", "findstr", "echo", "tree", "which", "where"],
+    reason: "only reads"
+  },
+  {
+    action: "allow",
+    commands: ["get-childitem", "gci", "get-content", "gc", "get-location", "set-location", "select-string", "write-output"],
+    reason: "only reads"
+  },
+  { action: "allow", commands: ["git"], args: "^(status|diff|log|show|blame)\\b", reason: "only reads" }
+];
+
+const PRESETS: Record<PolicyPreset, CommandPolicy> = {
+  // Reads run freely; anything else needs a click.
+  strict: {
+    rules: [...PROJECT_RULES, ...READ_ONLY_RULES],
+    fallback: "confirm",
+    source: "strict preset"
+  },
+  standard: {
+    rules: [...PROJECT_RULES, ...DESTRUCTIVE_RULES],
+    fallback: "allow",
+    source: "standard preset"
+  },
+  permissive: {
+    rules: [],
+    fallback: "allow",
+    source: "permissive preset"
+  }
+};
+
+const WRAPPERS = ["env", "command", "builtin", "exec", "nohup", "time", "nice", "xargs", "timeout"];
+const SHELLS = ["sh", "bash", "zsh", "fish", "dash", "ksh", "pwsh", "powershell", "cmd"];
+const SCRIPT_FLAGS = ["-c", "-command", "/c", "/k"];
+// Commands that only read their path arguments; anything else naming a protected file is taken as writing it.
+const READERS = READ_ONLY_RULES.filter((rule) => rule.args === undefined).flatMap((rule) => rule.commands ?? []);
+const EXTENSIONS = /\.(exe|cmd|bat|com|ps1)$/;
+const NULL_DEVICES = ["/dev/null", "/dev/stdout", "/dev/stderr", "nul", "$null"];
+const HOME_VARIABLE = /^(\$HOME|\$\{HOME\}|\$env:USERPROFILE|%USERPROFILE%)/i;
+
+function validateRules(rules: unknown, label: string): PolicyRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error(`${label}: "rules" must be a list.`);
+  }
+  return rules.map((rule: PolicyRule, index) => {
+    const where = `${label}: rule ${index + 1}`;
+    if (!rule || typeof rule !== "object" || !ACTIONS.includes(rule.action)) {
+      throw new Error(`${where} needs an action of allow, deny or confirm.`);
+    }
+    if (rule.commands !== undefined && (!Array.isArray(rule.commands) || rule.commands.some((name) => typeof name !== "string" || !name.trim()))) {
+      throw new Error(`${where}: "commands" must be a list of command names.`);
+    }
+    if (rule.args !== undefined) {
+      try {
+        new RegExp(String(rule.args), "i");
+      } catch {
+        throw new Error(`${where}: "args" is not a valid regular expression.`);
+      }
+    }
+    if (rule.paths !== undefined && rule.paths !== "outside-project") {
+      throw new Error(`${where}: "paths" can only be "outside-project".`);
+    }
+    return {
+      action: rule.action,
+      commands: rule.commands?.map((name) => name.trim().toLowerCase()),
+      args: rule.args,
+      paths: rule.paths,
+      reason: typeof rule.reason === "string" ? rule.reason : undefined
+    };
+  });
+}
+
+function stricterAction(a: PolicyAction, b: PolicyAction): PolicyAction {
+  return ACTION_RANK.indexOf(b) > ACTION_RANK.indexOf(a) ? b : a;
+}
+
+// Presets in order of strictness, so a workspace file can tighten the vault's choice but never loosen it.
+function stricterPreset(a: PolicyPreset, b: PolicyPreset): PolicyPreset {
+  const order: PolicyPreset[] = ["permissive", "standard", "strict"];
+  return order.indexOf(b) > order.indexOf(a) ? b : a;
+}
+
+// The vault's preset, extended by the workspace's `.vibe/policy.json`. The file's rules go after the built-in ones, and
+// its `preset` and `default` only count when they are stricter than the vault's. A broken file throws so the caller
+// can refuse commands rather than run them unchecked.
+export function loadCommandPolicy(root: string, preset: PolicyPreset): CommandPolicy {
+  const file = path.join(root, POLICY_FILE);
+  const vaultPreset = PRESETS[preset] ? preset : "standard";
+  if (!fs.existsSync(file)) {
+    const base = PRESETS[vaultPreset];
+    return { ...base, rules: [...BUILT_IN_RULES, ...base.rules] };
+  }
+  const label = POLICY_FILE.split(path.sep).join("/");
+  let parsed: PolicyFile;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf8")) as PolicyFile;
+  } catch (error) {
+    throw new Error(`${label} is not valid JSON: ${error instanceof Error ? error.message : "parse error"}`);
+  }
+  if (parsed.preset !== undefined && !POLICY_PRESETS.includes(parsed.preset)) {
+    throw new Error(`${label}: "preset" must be one of ${POLICY_PRESETS.join(", ")}.`);
+  }
+  if (parsed.default !== undefined && !ACTIONS.includes(parsed.default)) {
+    throw new Error(`${label}: "default" must be allow, deny or confirm.`);
+  }
+  const base = PRESETS[stricterPreset(vaultPreset, parsed.preset ?? vaultPreset)];
+  return {
+    rules: [...BUILT_IN_RULES, ...validateRules(parsed.rules ?? [], label), ...base.rules],
+    fallback: stricterAction(base.fallback, parsed.default ?? base.fallback),
+    source: `${label} + ${base.source}`
+  };
+}
+
+interface Segment {
+  words: string[];
+  text: string;
+  // Files named after `>`, `>>` or `&>`, which stay in `words` as well.
+  outputs: string[];
+}
+
+// Splits a command line into simple commands at `;`, `&&`, `||`, `|`, `&`, parentheses and newlines, honouring
+// quotes. The bodies of `$(...)` and backtick substitutions are returned as separate scripts.
+function splitCommandLine(line: string): { segments: Segment[]; nested: string[] } {
+  const segments: Segment[] = [];
+  const nested: string[] = [];
+  let words: string[] = [];
+  let outputs: string[] = [];
+  let word = "";
+  let inWord = false;
+  let isOutput = false;
+  let start = 0;
+  let quote = "";
+  const endWord = (): void => {
+    if (inWord) {
+      words.push(word);
+      if (isOutput) outputs.push(word);
+      isOutput = false;
+    }
+    word = "";
+    inWord = false;
+  };
+  const endSegment = (end: number): void => {
+    endWord();
+    if (words.length) segments.push({ words, text: line.slice(start, end).trim(), outputs });
+    words = [];
+    outputs = [];
+    isOutput = false;
+  };
+
+  let i = 0;
+  while (i < line.length) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) {
+        quote = "";
+      } else if (quote === "\"" && char === "\\" && "\"\\$`".includes(line[i + 1] ?? "")) {
+        word += line[i + 1];
+        i += 1;
+      } else if (quote === "\"" && char === "$" && line[i + 1] === "(") {
+        const close = matchingParen(line, i + 1);
+        nested.push(line.slice(i + 2, close));
+        word += line.slice(i, close + 1);
+        i = close + 1;
+        continue;
+      } else {
+        word += char;
+      }
+      i += 1;
+      continue;
+    }
+    if (char === "'" || char === "\"") {
+      quote = char;
+      inWord = true;
+    } else if (char === "$" && line[i + 1] === "(") {
+      const close = matchingParen(line, i + 1);
+      nested.push(line.slice(i + 2, close));
+      word += line.slice(i, close + 1);
+      inWord = true;
+      i = close + 1;
+      continue;
+    } else if (char === "`") {
+      const close = line.indexOf("`", i + 1);
+      const end = close === -1 ? line.length : close;
+      nested.push(line.slice(i + 1, end));
+      i = end + 1;
+      continue;
+    } else if (char === ">" || char === "<" || (char === "&" && line[i + 1] === ">")) {
+      // A file descriptor such as the `2` in `2>` belongs to the redirection, and the target becomes the next word.
+      if (/^\d$/.test(word)) {
+        word = "";
+        inWord = false;
+      }
+      endWord();
+      const operator = i;
+      while (i < line.length && /[<>&]/.test(line[i]) && !(line[i] === "&" && /[<>]/.test(line[i - 1]))) i += 1;
+      if (line[i] === "&") {
+        while (i + 1 < line.length && /\d/.test(line[i + 1])) i += 1;
+        i += 1;
+      } else {
+        isOutput = line.slice(operator, i).includes(">");
+      }
+      continue;
+    } else if (";|&()\r\n".includes(char)) {
+      endSegment(i);
+      while (i < line.length && ";|&()\r\n".includes(line[i])) i += 1;
+      start = i;
+      continue;
+    } else if (/\s/.test(char)) {
+      endWord();
+    } else {
+      word += char;
+      inWord = true;
+    }
+    i += 1;
+  }
+  if (quote) {
+    throw new Error("The command has an unclosed quote.");
+  }
+  endSegment(line.length);
+  return { segments, nested };
+}
+
+function matchingParen(line: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < line.length; i += 1) {
+    if (line[i] === "(") depth += 1;
+    if (line[i] === ")") depth -= 1;
+    if (depth === 0) return i;
+  }
+  return line.length;
+}
+
+function commandName(word: string): string {
+  return path.posix.basename(word.replace(/\\/g, "/")).toLowerCase().replace(EXTENSIONS, "");
+}
+
+function isAssignment(word: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*=/.test(word);
+}
+
+function looksLikePath(value: string, platform: NodeJS.Platform): boolean {
+  // cmd switches such as `/s` or `/a:h` are not paths.
+  if (platform === "win32" && /^\/[^/\\]*$/.test(value)) return false;
+  if (!value || value === "-" || NULL_DEVICES.includes(value.toLowerCase()) || /^[a-z][a-z0-9+.-]*:\/\//i.test(value)) return false;
+  return HOME_VARIABLE.test(value) || /^[~./\\]/.test(value) || /^[A-Za-z]:[/\\]/.test(value) || /[/\\]/.test(value);
+}
+
+// Resolves a path argument the way the shell would from the project root. Variables other than the home directory
+// and the working directory cannot be known here, so paths using them resolve to null.
+function resolvePath(value: string, context: PolicyContext): string | null {
+  const pathApi = context.platform === "win32" ? path.win32 : path.posix;
+  let expanded = value
+    .replace(/^~(?=$|[/\\])/, context.home)
+    .replace(HOME_VARIABLE, context.home)
+    .replace(/^(\$PWD|\$\{PWD\}|\$pwd)/, context.root);
+  if (/\$[{(A-Za-z_]|%[A-Za-z_][A-Za-z0-9_]*%/.test(expanded)) return null;
+  if (context.platform !== "win32" && expanded.includes("\\")) {
+    expanded = expanded.replace(/\\/g, "/");
+  }
+  return pathApi.resolve(context.root, expanded);
+}
+
+function resolvesOutside(value: string, context: PolicyContext): boolean {
+  const pathApi = context.platform === "win32" ? path.win32 : path.posix;
+  const resolved = resolvePath(value, context);
+  if (resolved === null) return true;
+  const relative = pathApi.relative(context.root, resolved);
+  return relative.startsWith("..") || pathApi.isAbsolute(relative);
+}
+
+function matchesCommand(rule: PolicyRule, name: string): boolean {
+  if (!rule.commands) return true;
+  return rule.commands.some((pattern) => (pattern.endsWith("*") ? name.startsWith(pattern.slice(0, -1)) : name === pattern));
+}
+
+// True for the policy file and the `.vibe` folder holding it, and for anything in the audit folder.
+function isProtected(value: string, context: PolicyContext): boolean {
+  const pathApi = context.platform === "win32" ? path.win32 : path.posix;
+  const target = resolvePath(value, context);
+  if (target === null) return false;
+  const same = (a: string, b: string): boolean => (context.platform === "win32" ? a.toLowerCase() === b.toLowerCase() : a === b);
+  const policyFile = pathApi.resolve(context.root, POLICY_FILE);
+  const inAuditDir = pathApi.relative(context.auditDir, target);
+  return (
+    same(target, policyFile) ||
+    same(target, pathApi.dirname(policyFile)) ||
+    !(inAuditDir.startsWith("..") || pathApi.isAbsolute(inAuditDir))
+  );
+}
+
+function optionValue(arg: string): string {
+  return arg.startsWith("-") && arg.includes("=") ? arg.slice(arg.indexOf("=") + 1) : arg;
+}
+
+function matchesRule(rule: PolicyRule, name: string, args: string[], outputs: string[], context: PolicyContext): boolean {
+  if (!matchesCommand(rule, name)) return false;
+  if (rule.args !== undefined && !new RegExp(rule.args, "i").test(args.join(" "))) return false;
+  if (rule.paths === "protected") {
+    const written = READERS.includes(name) ? outputs : args.map(optionValue);
+    if (!written.filter((value) => looksLikePath(value, context.platform)).some((value) => isProtected(value, context))) return false;
+  }
+  if (rule.paths === "outside-project") {
+    const values = args.map(optionValue);
+    // A bare `cd` goes to the home directory in POSIX shells.
+    const bareCd = name === "cd" && !args.length && context.platform !== "win32";
+    if (!bareCd && !values.filter((value) => looksLikePath(value, context.platform)).some((value) => resolvesOutside(value, context))) return false;
+  }
+  return true;
+}
+
+function stricter(a: PolicyDecision | null, b: PolicyDecision): PolicyDecision {
+  return !a || ACTION_RANK.indexOf(b.action) > ACTION_RANK.indexOf(a.action) ? b : a;
+}
+
+// Decides a command line by its strictest part: every command in a pipeline or list, every substitution and every
+// script handed to `bash -c`, `pwsh -Command` or `eval` is checked on its own.
+export function evaluateCommand(line: string, policy: CommandPolicy, context: PolicyContext, depth = 0): PolicyDecision {
+  let decision: PolicyDecision | null = null;
+  if (depth > MAX_NESTING) {
+    return { action: "deny", segment: line.trim(), reason: "nests scripts too deeply to check" };
+  }
+  const { segments, nested } = splitCommandLine(line);
+  const scripts = [...nested];
+  for (const segment of segments) {
+    let words = segment.words;
+    while (words.length) {
+      const assignments = words.findIndex((word) => !isAssignment(word));
+      words = assignments === -1 ? [] : words.slice(assignments);
+      if (!words.length) break;
+      const name = commandName(words[0]);
+      const args = words.slice(1);
+      const rule = policy.rules.find((candidate) => matchesRule(candidate, name, args, segment.outputs, context));
+      decision = stricter(decision, {
+        action: rule?.action ?? policy.fallback,
+        segment: segment.text,
+        reason: rule ? rule.reason ?? `matched a ${rule.action} rule` : `no rule matched (${policy.source} default)`
+      });
+      if (SHELLS.includes(name)) {
+        const flag = args.findIndex((arg) => SCRIPT_FLAGS.includes(arg.toLowerCase()));
+        if (flag !== -1) scripts.push(args.slice(flag + 1).join(" "));
+      }
+      if (name === "eval") scripts.push(args.join(" "));
+      // `env FOO=1 rm x` and `nohup rm x` are checked again as the command they run.
+      if (!WRAPPERS.includes(name)) break;
+      let next = 0;
+      while (next < args.length && (args[next].startsWith("-") || /^\d+[smhd]?$/.test(args[next]))) next += 1;
+      words = args.slice(next);
+    }
+  }
+  for (const script of scripts) {
+    decision = stricter(decision, evaluateCommand(script, policy, context, depth + 1));
+  }
+  return decision ?? { action: "allow", segment: line.trim(), reason: "no command" };
+}
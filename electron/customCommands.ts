@@ -0,0 +1,163 @@
+import { execFile } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import { readWorkspaceFile } from "./workspaceTools";
+
+export interface CustomCommand {
+  name: string;
+  description: string;
+  route: string | null;
+  model: string | null;
+  file: string;
+  template: string;
+}
+
+export type CustomCommandSummary = Omit<CustomCommand, "template">;
+
+export interface CustomCommandSet {
+  commands: CustomCommand[];
+  errors: string[];
+}
+
+export interface TemplateContext {
+  root: string;
+  args: string;
+  cwd: string;
+  // Resolves terminal variables such as `lastOutput` or `lastLines:20`; null for names it does not know.
+  terminal: (variable: string) => string | null;
+}
+
+const COMMANDS_DIR = path.join(".vibe", "commands");
+const COMMAND_NAME = /^[a-z][a-z0-9-]*$/;
+const MAX_GIT_DIFF_CHARS = 20000;
+const RELOAD_DEBOUNCE_MS = 200;
+const TEMPLATE_VARIABLE = /\{\{\s*(args|cwd|gitDiff|file:\s*[^}]+?|lastCommand|lastOutput|lastLines(?::\d+)?)\s*\}\}/g;
+
+function commandsDir(root: string): string {
+  return path.join(root, COMMANDS_DIR);
+}
+
+// Minimal `---` front-matter: one `key: value` per line, values optionally quoted.
+function parseFrontMatter(source: string): { meta: Record<string, string>; body: string } {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { meta: {}, body: source };
+  }
+  const meta: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const pair = line.match(/^\s*([A-Za-z][\w-]*)\s*:\s*(.*?)\s*$/);
+    if (!pair) continue;
+    meta[pair[1].toLowerCase()] = pair[2].replace(/^(["'])(.*)\1$/, "$2");
+  }
+  return { meta, body: source.slice(match[0].length) };
+}
+
+export function loadCustomCommands(root: string, reservedNames: string[]): CustomCommandSet {
+  const dir = commandsDir(root);
+  const result: CustomCommandSet = { commands: [], errors: [] };
+  if (!fs.existsSync(dir)) {
+    return result;
+  }
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isFile() || !entry.name.toLowerCase().endsWith(".md")) continue;
+    const file = `${COMMANDS_DIR.split(path.sep).join("/")}/${entry.name}`;
+    const name = entry.name.slice(0, -3).toLowerCase();
+    if (!COMMAND_NAME.test(name)) {
+      result.errors.push(`${file}: command names may only use lowercase letters, digits and dashes.`);
+      continue;
+    }
+    if (reservedNames.includes(name)) {
+      result.errors.push(`${file}: /${name} is already taken by a built-in command or provider route.`);
+      continue;
+    }
+    const { meta, body } = parseFrontMatter(fs.readFileSync(path.join(dir, entry.name), "utf8"));
+    if (!body.trim()) {
+      result.errors.push(`${file}: the prompt template is empty.`);
+      continue;
+    }
+    result.commands.push({
+      name,
+      description: meta.description ?? "",
+      route: meta.provider || meta.route || null,
+      model: meta.model || null,
+      file,
+      template: body.trim()
+    });
+  }
+  result.commands.sort((a, b) => a.name.localeCompare(b.name));
+  return result;
+}
+
+function readGitDiff(root: string): Promise<string> {
+  return new Promise((resolve) => {
+    execFile("git", ["--no-pager", "diff", "HEAD"], { cwd: root, timeout: 10000, maxBuffer: 4 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        const detail = `${stderr}`.trim().split("\n")[0] || error.message;
+        resolve(`(git diff unavailable: ${detail})`);
+        return;
+      }
+      const diff = stdout.trim();
+      if (!diff) {
+        resolve("(no uncommitted changes)");
+        return;
+      }
+      resolve(diff.length > MAX_GIT_DIFF_CHARS ? `${diff.slice(0, MAX_GIT_DIFF_CHARS)}\n[truncated]` : diff);
+    });
+  });
+}
+
+// Expands `{{args}}`, `{{cwd}}`, `{{file:path}}`, `{{gitDiff}}` and the terminal variables in a single pass over the
+// template, so text that comes from the arguments, a file or the terminal is never read as template syntax itself.
+export async function expandCommandTemplate(template: string, context: TemplateContext): Promise<string> {
+  const gitDiff = /\{\{\s*gitDiff\s*\}\}/.test(template) ? await readGitDiff(context.root) : "";
+  return template.replace(TEMPLATE_VARIABLE, (match, variable: string) => {
+    if (variable === "args") return context.args;
+    if (variable === "cwd") return context.cwd;
+    if (variable === "gitDiff") return gitDiff;
+    if (variable.startsWith("file:")) {
+      const target = variable.slice("file:".length).trim();
+      try {
+        return readWorkspaceFile(context.root, target);
+      } catch (error) {
+        return `(could not read ${target}: ${error instanceof Error ? error.message : "unknown error"})`;
+      }
+    }
+    return context.terminal(variable) ?? match;
+  });
+}
+
+// Watches the deepest existing directory on the way to `.vibe/commands`, so creating the folder later is picked up too.
+export function watchCustomCommands(root: string, onChange: () => void): () => void {
+  let watcher: fs.FSWatcher | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  const arm = (): void => {
+    watcher?.close();
+    watcher = null;
+    if (closed) return;
+    const target = [commandsDir(root), path.join(root, ".vibe"), root].find((candidate) => fs.existsSync(candidate));
+    if (!target) return;
+    try {
+      watcher = fs.watch(target, () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+          arm();
+          onChange();
+        }, RELOAD_DEBOUNCE_MS);
+      });
+      watcher.on("error", () => arm());
+    } catch {
+      // Watching is best-effort; commands still load whenever the workspace is opened.
+    }
+  };
+
+  arm();
+  return () => {
+    closed = true;
+    if (timer) clearTimeout(timer);
+    watcher?.close();
+    watcher = null;
+  };
+}
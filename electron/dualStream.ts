@@ -0,0 +1,208 @@
+export type DualStreamSection = "plan" | "thought" | "action" | "result";
+
+export interface DualStreamParser {
+  push: (token: string) => void;
+  // Flushes held-back text and returns everything streamed, per section.
+  finish: () => Record<DualStreamSection, string>;
+}
+
+export const DUAL_STREAM_INSTRUCTIONS = [
+  "Format every reply as tagged sections, each tag alone on its own line:",
+  "[PLAN] the short ordered steps you intend to take (optional for trivial requests).",
+  "[THOUGHT] your reasoning about the request and the terminal context.",
+  "[ACTION] what the user should see or run: shell commands in fenced code blocks, file edits, or the answer itself.",
+  "[RESULT] a one or two sentence summary of the outcome (optional).",
+  "Always include [ACTION]. Do not put tags inside code blocks."
+].join("\n");
+
+const LABELS: Record<string, DualStreamSection> = {
+  plan: "plan",
+  planning: "plan",
+  thought: "thought",
+  thoughts: "thought",
+  thinking: "thought",
+  reasoning: "thought",
+  action: "action",
+  actions: "action",
+  result: "result",
+  results: "result",
+  outcome: "result"
+};
+
+const LABEL = Object.keys(LABELS)
+  .sort((a, b) => b.length - a.length)
+  .join("|");
+const EMPHASIS = "(?:\\*\\*|__|\\*|_)?";
+
+// `[ACTION]`, `[ action ]`, `**[Action]**:` and closing `[/ACTION]` outside a code fence, but not `items[result]`.
+const INLINE_TAG = new RegExp(`(?<![\\w\`])${EMPHASIS}\\[\\s*(\\/?)\\s*(${LABEL})\\s*\\]${EMPHASIS}:?[ \\t]*`, "gi");
+// Forms only trusted at the start of a line: `**Thought:**`, `RESULT: ...`, and brackets missing a side. A plain
+// `Result: ...` is ordinary prose unless the label is in capitals.
+const LINE_TAGS = [
+  new RegExp(`^\\s*(?:\\*\\*|__)(${LABEL})\\s*:?\\s*(?:\\*\\*|__)\\s*:?[ \\t]*`, "i"),
+  new RegExp(`^\\s*\\[(${LABEL})(?:\\s*:[ \\t]*|\\s*$)`, "i"),
+  new RegExp(`^\\s*(${LABEL})\\]\\s*:?[ \\t]*`, "i"),
+  new RegExp(`^\\s*(${LABEL.toUpperCase()})\\s*:[ \\t]*`)
+];
+// Forms that are only tags when nothing else follows on the line: `## Plan` and `Result:`.
+const WHOLE_LINE_TAGS = [
+  new RegExp(`^\\s*#{1,6}\\s*${EMPHASIS}\\[?(${LABEL})\\]?\\s*:?${EMPHASIS}\\s*:?\\s*$`, "i"),
+  new RegExp(`^\\s*(${LABEL})\\s*:\\s*$`, "i")
+];
+const FENCE = /^\s*(```|~~~)/;
+// Longest inline tag worth holding back for, e.g. `**[ reasoning ]**:`.
+const MAX_TAG_LENGTH = 24;
+
+function sectionFor(label: string): DualStreamSection {
+  return LABELS[label.toLowerCase()];
+}
+
+// True while a partial line could still turn into a line-start tag, so it must not be emitted yet.
+function couldBecomeLineTag(partial: string): boolean {
+  const rest = partial.replace(/^\s*(?:#{1,6}\s*)?[*_]{0,2}\[?/, "");
+  if (!rest) return true;
+  const word = rest.match(/^([a-z]+)([\s\S]*)$/i);
+  if (!word) return false;
+  const lower = word[1].toLowerCase();
+  if (!word[2]) return Object.keys(LABELS).some((label) => label.startsWith(lower));
+  return lower in LABELS && /^\s*\]?\s*:?\s*[*_]{0,2}\s*:?\s*$/.test(word[2]);
+}
+
+// Index from which the end of `text` might be an inline tag whose label or trailing emphasis has not arrived yet.
+function inlineHoldIndex(text: string): number {
+  const open = text.lastIndexOf("[");
+  if (open < 0 || text.length - open > MAX_TAG_LENGTH) return text.length;
+  if (!/^\[\s*\/?\s*[a-z]*\s*(?:\][*_:]{0,2})?$/i.test(text.slice(open))) return text.length;
+  let start = open;
+  while (start > 0 && (text[start - 1] === "*" || text[start - 1] === "_")) start -= 1;
+  return start > 0 && /[\w`]/.test(text[start - 1]) ? text.length : start;
+}
+
+// Splits a streamed reply into [PLAN]/[THOUGHT]/[ACTION]/[RESULT] sections as tokens arrive.
+// Tags are matched case-insensitively, as markdown headings or bold labels, with missing brackets, and may repeat;
+// nothing inside a fenced code block is treated as a tag. Text before the first tag belongs to "thought".
+export function createDualStreamParser(emit: (section: DualStreamSection, chunk: string) => void): DualStreamParser {
+  const streamed: Record<DualStreamSection, string> = { plan: "", thought: "", action: "", result: "" };
+  let section: DualStreamSection = "thought";
+  let pending = "";
+  let atLineStart = true;
+  let inFence = false;
+  // Last character already consumed on the current line, so `items[result]` split across tokens is still not a tag.
+  let previous = "";
+  // Set when a section is revisited, so its next text starts a fresh paragraph.
+  let resumed = false;
+
+  const write = (text: string): void => {
+    // Each section, and each return to one, starts at its first non-blank character.
+    const trimmed = streamed[section] && !resumed ? text : text.replace(/^\s+/, "");
+    if (!trimmed) return;
+    const chunk = resumed ? `\n${trimmed}` : trimmed;
+    resumed = false;
+    streamed[section] += chunk;
+    emit(section, chunk);
+  };
+
+  const switchTo = (next: DualStreamSection): void => {
+    if (next === section) return;
+    if (streamed[section] && !streamed[section].endsWith("\n")) write("\n");
+    section = next;
+    resumed = Boolean(streamed[section]);
+  };
+
+  const writeInline = (text: string): void => {
+    const source = previous + text;
+    let cursor = previous.length;
+    INLINE_TAG.lastIndex = cursor;
+    for (let match = INLINE_TAG.exec(source); match; match = INLINE_TAG.exec(source)) {
+      write(source.slice(cursor, match.index));
+      if (!match[1]) switchTo(sectionFor(match[2]));
+      cursor = match.index + match[0].length;
+    }
+    write(source.slice(cursor));
+    if (text) previous = text[text.length - 1];
+  };
+
+  // Consumes a line-start tag at the head of `text`; returns the remainder, or null when there is no tag. A partial
+  // line is only checked for the forms that cannot grow into prose.
+  const takeLineTag = (text: string, complete: boolean): string | null => {
+    for (const pattern of complete ? [...WHOLE_LINE_TAGS, ...LINE_TAGS] : LINE_TAGS) {
+      const match = text.match(pattern);
+      if (match) {
+        switchTo(sectionFor(match[1]));
+        return text.slice(match[0].length);
+      }
+    }
+    return null;
+  };
+
+  const writeLine = (line: string): void => {
+    if (atLineStart && FENCE.test(line)) {
+      inFence = !inFence;
+      write(line);
+      return;
+    }
+    if (inFence) {
+      write(line);
+      return;
+    }
+    const rest = atLineStart ? takeLineTag(line, true) : null;
+    writeInline(rest ?? line);
+  };
+
+  const drain = (): void => {
+    let newline = pending.indexOf("\n");
+    while (newline >= 0) {
+      writeLine(pending.slice(0, newline + 1));
+      pending = pending.slice(newline + 1);
+      atLineStart = true;
+      previous = "";
+      newline = pending.indexOf("\n");
+    }
+    if (!pending) return;
+
+    if (atLineStart) {
+      const head = pending.trimStart();
+      if (!head || /^(`{1,2}|~{1,2})$/.test(head)) return;
+      if (FENCE.test(pending)) {
+        inFence = !inFence;
+        write(pending);
+        pending = "";
+        atLineStart = false;
+        return;
+      }
+      if (inFence) {
+        write(pending);
+        pending = "";
+        atLineStart = false;
+        return;
+      }
+      // A tag followed by a delimiter is settled even though the line is not finished.
+      const rest = /[\]:]/.test(pending) ? takeLineTag(pending, false) : null;
+      if (rest === null && couldBecomeLineTag(pending)) return;
+      pending = rest ?? pending;
+      atLineStart = false;
+    }
+    if (inFence) {
+      write(pending);
+      pending = "";
+      return;
+    }
+    const hold = Math.max(0, inlineHoldIndex(previous + pending) - previous.length);
+    writeInline(pending.slice(0, hold));
+    pending = pending.slice(hold);
+  };
+
+  return {
+    push: (token) => {
+      pending += token;
+      drain();
+    },
+    finish: () => {
+      if (pending) {
+        writeLine(pending);
+        pending = "";
+      }
+      return { ...streamed };
+    }
+  };
+}
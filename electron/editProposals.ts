@@ -0,0 +1,282 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { resolveInWorkspace, toWorkspaceRelative } from "./workspaceTools";
+
+export type DiffLineType = "context" | "add" | "remove";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface DiffHunk {
+  index: number;
+  header: string;
+  lines: DiffLine[];
+}
+
+export interface EditProposal {
+  id: string;
+  paneId: string;
+  path: string;
+  isNewFile: boolean;
+  hunks: DiffHunk[];
+  createdAt: number;
+}
+
+export type EditApplyStatus = "applied" | "conflict" | "discarded" | "unchanged";
+
+export interface EditApplyResult {
+  status: EditApplyStatus;
+  path: string;
+  acceptedHunks: number;
+  totalHunks: number;
+  message: string;
+}
+
+interface DiffOp {
+  type: "equal" | "insert" | "delete";
+  text: string;
+  hunk: number;
+}
+
+interface StoredProposal {
+  proposal: EditProposal;
+  absolutePath: string;
+  baseHash: string | null;
+  eol: string;
+  ops: DiffOp[];
+}
+
+const CONTEXT_LINES = 3;
+
+function hashContent(content: string | null): string | null {
+  return content === null ? null : crypto.createHash("sha256").update(content).digest("hex");
+}
+
+function readIfExists(file: string): string | null {
+  return fs.existsSync(file) ? fs.readFileSync(file, "utf8") : null;
+}
+
+function splitLines(content: string): string[] {
+  return content.length ? content.split(/\r?\n/) : [];
+}
+
+// Myers keeps one row per edit, so its trace grows with the square of the number of changed lines. Past these limits
+// the changed region is shown as a single replacement instead.
+const MAX_DIFF_EDITS = 2000;
+const MAX_DIFF_LINES = 20000;
+
+// Line diff from `a` to `b`: the common head and tail are matched directly and the rest goes through Myers.
+function diffLines(a: string[], b: string[]): Array<Omit<DiffOp, "hunk">> {
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head += 1;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail += 1;
+  const oldMiddle = a.slice(head, a.length - tail);
+  const newMiddle = b.slice(head, b.length - tail);
+  const middle = myersDiff(oldMiddle, newMiddle) ?? [
+    ...oldMiddle.map((text) => ({ type: "delete" as const, text })),
+    ...newMiddle.map((text) => ({ type: "insert" as const, text }))
+  ];
+  return [
+    ...a.slice(0, head).map((text) => ({ type: "equal" as const, text })),
+    ...middle,
+    ...a.slice(a.length - tail).map((text) => ({ type: "equal" as const, text }))
+  ];
+}
+
+// Myers O(ND) diff over lines; returns the edit script from `a` to `b`, or null when it is over the limits. Each step
+// `d` only records diagonals -d..d, which is all the backtrack reads.
+function myersDiff(a: string[], b: string[]): Array<Omit<DiffOp, "hunk">> | null {
+  if (a.length + b.length > MAX_DIFF_LINES) return null;
+  const max = Math.min(a.length + b.length, MAX_DIFF_EDITS);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  let done = false;
+
+  outer: for (let d = 0; d <= max; d += 1) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x += 1;
+        y += 1;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) {
+        done = true;
+        break outer;
+      }
+    }
+  }
+  if (!done) return null;
+
+  const ops: Array<Omit<DiffOp, "hunk">> = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d -= 1) {
+    const snapshot = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && snapshot[d + k - 1] < snapshot[d + k + 1]) ? k + 1 : k - 1;
+    const prevX = d > 0 ? snapshot[d + prevK] : 0;
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: "equal", text: a[x - 1] });
+      x -= 1;
+      y -= 1;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: "insert", text: b[y - 1] });
+      } else {
+        ops.push({ type: "delete", text: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+}
+
+// Groups changes that are within 2 * CONTEXT_LINES of each other into one hunk and tags each op with its hunk.
+function buildHunks(rawOps: Array<Omit<DiffOp, "hunk">>): { ops: DiffOp[]; hunks: DiffHunk[] } {
+  const ops: DiffOp[] = rawOps.map((op) => ({ ...op, hunk: -1 }));
+  const hunks: DiffHunk[] = [];
+  const changeIndexes = ops.map((op, i) => (op.type === "equal" ? -1 : i)).filter((i) => i >= 0);
+  if (!changeIndexes.length) return { ops, hunks };
+
+  const ranges: Array<[number, number]> = [];
+  for (const index of changeIndexes) {
+    const last = ranges[ranges.length - 1];
+    if (last && index - last[1] <= CONTEXT_LINES * 2 + 1) {
+      last[1] = index;
+    } else {
+      ranges.push([index, index]);
+    }
+  }
+
+  for (const [first, last] of ranges) {
+    const start = Math.max(0, first - CONTEXT_LINES);
+    const end = Math.min(ops.length - 1, last + CONTEXT_LINES);
+    let oldLine = 1;
+    let newLine = 1;
+    for (let i = 0; i < start; i += 1) {
+      if (ops[i].type !== "insert") oldLine += 1;
+      if (ops[i].type !== "delete") newLine += 1;
+    }
+    const lines: DiffLine[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (let i = start; i <= end; i += 1) {
+      const op = ops[i];
+      if (op.type !== "equal") op.hunk = hunks.length;
+      if (op.type !== "insert") oldCount += 1;
+      if (op.type !== "delete") newCount += 1;
+      lines.push({ type: op.type === "equal" ? "context" : op.type === "insert" ? "add" : "remove", text: op.text });
+    }
+    hunks.push({
+      index: hunks.length,
+      header: `@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`,
+      lines
+    });
+  }
+  return { ops, hunks };
+}
+
+export class EditProposalStore {
+  private proposals = new Map<string, StoredProposal>();
+  private counter = 0;
+
+  propose(root: string, paneId: string, target: string, proposedContent: string): EditProposal {
+    const absolutePath = resolveInWorkspace(root, target);
+    const base = readIfExists(absolutePath);
+    const eol = base?.includes("\r\n") ? "\r\n" : "\n";
+    const { ops, hunks } = buildHunks(diffLines(splitLines(base ?? ""), splitLines(proposedContent)));
+    this.counter += 1;
+    const proposal: EditProposal = {
+      id: `edit-${this.counter}`,
+      paneId,
+      path: toWorkspaceRelative(root, absolutePath),
+      isNewFile: base === null,
+      hunks,
+      createdAt: Date.now()
+    };
+    this.proposals.set(proposal.id, { proposal, absolutePath, baseHash: hashContent(base), eol, ops });
+    return proposal;
+  }
+
+  // Writes the accepted hunks only, refusing if the file changed on disk since the proposal was made.
+  apply(id: string, acceptedHunks: number[]): EditApplyResult {
+    const stored = this.proposals.get(id);
+    if (!stored) {
+      throw new Error("This edit proposal no longer exists.");
+    }
+    const { proposal, absolutePath, baseHash, eol, ops } = stored;
+    const totalHunks = proposal.hunks.length;
+    const accepted = new Set(acceptedHunks.filter((index) => index >= 0 && index < totalHunks));
+
+    if (hashContent(readIfExists(absolutePath)) !== baseHash) {
+      return {
+        status: "conflict",
+        path: proposal.path,
+        acceptedHunks: 0,
+        totalHunks,
+        message: `${proposal.path} changed on disk after the proposal was made. Ask the agent for a fresh proposal.`
+      };
+    }
+
+    this.proposals.delete(id);
+    if (!accepted.size) {
+      return { status: "unchanged", path: proposal.path, acceptedHunks: 0, totalHunks, message: `No hunks accepted for ${proposal.path}.` };
+    }
+
+    const lines: string[] = [];
+    for (const op of ops) {
+      if (op.type === "equal") lines.push(op.text);
+      else if (op.type === "insert" && accepted.has(op.hunk)) lines.push(op.text);
+      else if (op.type === "delete" && !accepted.has(op.hunk)) lines.push(op.text);
+    }
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+    fs.writeFileSync(absolutePath, lines.join(eol), "utf8");
+    return {
+      status: "applied",
+      path: proposal.path,
+      acceptedHunks: accepted.size,
+      totalHunks,
+      message: `Applied ${accepted.size} of ${totalHunks} hunks to ${proposal.path}.`
+    };
+  }
+
+  discard(id: string): EditApplyResult | null {
+    const stored = this.proposals.get(id);
+    if (!stored) return null;
+    this.proposals.delete(id);
+    const { proposal } = stored;
+    return {
+      status: "discarded",
+      path: proposal.path,
+      acceptedHunks: 0,
+      totalHunks: proposal.hunks.length,
+      message: `Discarded proposed change to ${proposal.path}.`
+    };
+  }
+
+  listForPane(paneId: string): EditProposal[] {
+    return [...this.proposals.values()].map((stored) => stored.proposal).filter((proposal) => proposal.paneId === paneId);
+  }
+
+  dropPane(paneId: string): string[] {
+    const dropped: string[] = [];
+    for (const [id, stored] of this.proposals) {
+      if (stored.proposal.paneId === paneId) {
+        this.proposals.delete(id);
+        dropped.push(id);
+      }
+    }
+    return dropped;
+  }
+}
@@ -0,0 +1,89 @@
+import fs from "node:fs";
+import path from "node:path";
+
+export interface IgnoreRule {
+  // Workspace-relative directory of the `.gitignore` the rule came from ("" for the root).
+  base: string;
+  pattern: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+function globToRegExp(glob: string): string {
+  let source = "";
+  for (let i = 0; i < glob.length; i += 1) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const slashAfter = glob[i + 2] === "/";
+        const slashBefore = i === 0 || glob[i - 1] === "/";
+        if (slashBefore && slashAfter) {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const close = glob.indexOf("]", i + 2);
+      if (close < 0) {
+        source += "\\[";
+      } else {
+        source += `[${glob.slice(i + 1, close).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+        i = close;
+      }
+    } else if (char === "\\" && i + 1 < glob.length) {
+      source += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+      i += 1;
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+  return source;
+}
+
+// One `.gitignore` file: comments, `!` negation, trailing `/` for directories, and anchoring for patterns with a slash.
+export function parseGitignore(source: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of source.split(/\r?\n/)) {
+    let line = raw.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+    if (line.startsWith("\\#") || line.startsWith("\\!")) line = line.slice(1);
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) line = line.slice(0, -1);
+    if (!line) continue;
+    // A slash anywhere but the end ties the pattern to the `.gitignore`'s directory; otherwise it matches at any depth.
+    const anchored = line.includes("/");
+    const body = globToRegExp(line.replace(/^\//, ""));
+    rules.push({ base, pattern: new RegExp(anchored ? `^${body}$` : `(?:^|/)${body}$`), negate, dirOnly });
+  }
+  return rules;
+}
+
+export function readGitignore(root: string, relativeDir: string): IgnoreRule[] {
+  const file = path.join(root, relativeDir, ".gitignore");
+  try {
+    return parseGitignore(fs.readFileSync(file, "utf8"), relativeDir);
+  } catch {
+    return [];
+  }
+}
+
+// `relative` is a workspace-relative path with forward slashes. The last matching rule wins, as in git.
+export function isIgnored(rules: IgnoreRule[], relative: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue;
+    if (rule.base && !relative.startsWith(`${rule.base}/`)) continue;
+    const subject = rule.base ? relative.slice(rule.base.length + 1) : relative;
+    if (rule.pattern.test(subject)) ignored = !rule.negate;
+  }
+  return ignored;
+}
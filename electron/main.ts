@@ -4,9 +4,95 @@ import os from "node:os";
 import fs from "node:fs";
 import Store from "electron-store";
 import * as pty from "node-pty";
+import {
+  AgentTimeoutError,
+  createAgentProvider,
+  defaultProviderConfigs,
+  validateProviderConfigs,
+  type AgentProvider,
+  type AgentProviderConfig,
+  type AgentRunMetrics,
+  type ChatMessage
+} from "./agentProviders";
+import { DEFAULT_AGENT_PROFILES, normalizeAgentProfiles, validateAgentProfiles, type AgentProfile } from "./agentProfiles";
+import { runAgentLoop, describeToolCall, type AgentStepEvent, type AgentToolCall } from "./agentLoop";
+import { AgentScheduler, type AgentQueueOrder } from "./agentScheduler";
+import { buildFixPrompt, CommandFailureWatcher, shellIntegration, shellKind, type CommandFailure } from "./commandFailures";
+import {
+  expandCommandTemplate,
+  loadCustomCommands,
+  watchCustomCommands,
+  type CustomCommandSet,
+  type CustomCommandSummary
+} from "./customCommands";
+import {
+  appendAuditExit,
+  appendAuditRecord,
+  auditLogPath,
+  filterAuditLog,
+  readAuditLog,
+  writeAuditExport,
+  type AuditExportFormat,
+  type AuditFilter,
+  type AuditInputMode,
+  type AuditOrigin,
+  type AuditPolicyOutcome
+} from "./auditLog";
+import { evaluateCommand, loadCommandPolicy, POLICY_PRESETS, type PolicyDecision, type PolicyPreset } from "./commandPolicy";
+import { createDualStreamParser, DUAL_STREAM_INSTRUCTIONS, type DualStreamParser } from "./dualStream";
+import { EditProposalStore, type EditApplyResult } from "./editProposals";
+import {
+  assertOllamaModelInstalled,
+  deleteOllamaModel,
+  listOllamaModels,
+  pullOllamaModel,
+  showOllamaModel,
+  type OllamaPullProgress
+} from "./ollamaModels";
+import { OllamaHealthMonitor } from "./ollamaHealth";
+import {
+  buildShellAssignment,
+  buildStdinInput,
+  describeShellAssignment,
+  formatPipedContext,
+  removePipeFile,
+  resolvePipePayload,
+  type PaneSnapshot,
+  type PipePayload,
+  type PipeSource,
+  type PipeTarget
+} from "./panePipe";
+import { ScrollbackStore } from "./scrollbackStore";
+import { buildTranscript, SessionLog, writeSessionExport } from "./sessionLog";
+import { findExecutable, normalizeShellCommandForExe, ptyEnvironment } from "./shellEnvironment";
+import {
+  detectShellProfiles,
+  normalizeShellProfiles,
+  validateShellProfiles,
+  type ShellProfile,
+  type ShellProfileSummary
+} from "./shellProfiles";
+import { appendAgentRun, clearTelemetry, summarizeTelemetry } from "./telemetry";
+import { buildAskPrompt, WorkspaceIndex, type EmbeddingTarget, type WorkspaceMatch } from "./workspaceIndex";
+import { listWorkspaceDir, readWorkspaceFile, searchWorkspace } from "./workspaceTools";
+import {
+  buildPromptWithContext,
+  DEFAULT_CONTEXT_LINES,
+  PaneScrollback,
+  terminalVariable,
+  type AgentContextOptions
+} from "./promptContext";
 
 type ExecutionMode = "sandboxed" | "system-wide" | "dual-stream";
-type AgentRoute = "local";
+type AgentRoute = string;
+type CloudFallbackPolicy = "never" | "on-error" | "on-timeout";
+
+interface WorkspaceSettings {
+  cloudFallback: CloudFallbackPolicy;
+}
+
+// Stored form of a provider: the API key never sits in the vault in plain text.
+type StoredAgentProvider = Omit<AgentProviderConfig, "apiKey"> & { apiKeyEncrypted: string };
 
 interface VaultData {
   cloudApiKeyEncrypted: string;
@@ -15,8 +101,32 @@ interface VaultData {
   cloudModel: string;
   executionMode: ExecutionMode;
   systemWideAcknowledged: boolean;
+  // Rules for Sandboxed mode; a workspace's .vibe/policy.json can pick a stricter preset and add its own rules.
+  policyPreset: PolicyPreset;
+  agentProviders: StoredAgentProvider[];
+  workspaceSettings: Record<string, WorkspaceSettings>;
+  agentLoopRoute: string;
+  agentStepBudget: number;
+  agentProfiles: AgentProfile[];
+  agentQueueOrder: AgentQueueOrder;
+  embeddingModel: string;
+  ollamaWarmUp: boolean;
+  shellProfiles: ShellProfile[];
+  // Shell profile for panes that have not picked one; empty means the first installed shell.
+  defaultShellProfile: string;
 }
 
+// Slash commands handled by the pane itself or built into the vault; providers cannot claim these routes.
+const RESERVED_AGENT_ROUTES = ["reset", "cloud", "agent", "profile", "fix", "ask", "compare", "pipe"];
+const COMMAND_QUIET_MS = 1500;
+const COMMAND_MAX_WAIT_MS = 60000;
+const SESSION_SCROLLBACK_LINES = 500;
+const ASK_TOP_K = 6;
+
+const DEFAULT_WORKSPACE_SETTINGS: WorkspaceSettings = {
+  cloudFallback: "on-error"
+};
+
 const store = new Store<VaultData>({
   name: "vibe-ade-vault",
   defaults: {
@@ -25,14 +135,59 @@ const store = new Store<VaultData>({
     localModel: "llama3.2",
     cloudModel: "gpt-4o",
     executionMode: "sandboxed",
-    systemWideAcknowledged: false
+    systemWideAcknowledged: false,
+    policyPreset: "standard",
+    agentProviders: [],
+    workspaceSettings: {},
+    agentLoopRoute: "local",
+    agentStepBudget: 8,
+    agentProfiles: DEFAULT_AGENT_PROFILES,
+    agentQueueOrder: "fifo",
+    embeddingModel: "nomic-embed-text",
+    ollamaWarmUp: false,
+    shellProfiles: [],
+    defaultShellProfile: ""
   }
 });
 
 const ptySessions = new Map<string, pty.IPty>();
 const paneShellExe = new Map<string, string>();
+const paneShellProfiles = new Map<string, ShellProfileSummary>();
 const activeAgentControllers = new Map<string, AbortController>();
+const paneConversations = new Map<string, ChatMessage[]>();
+const paneScrollback = new Map<string, PaneScrollback>();
+const paneCommandWatchers = new Map<string, CommandFailureWatcher>();
+const paneFailures = new Map<string, CommandFailure>();
+// Audit record of each pane's last typed command, waiting for its exit code.
+const paneAuditIds = new Map<string, string>();
+// Output or answers piped in from other panes, waiting for this pane's next agent prompt.
+const panePipedContext = new Map<string, PipePayload[]>();
+// Temp file each cmd.exe pane's %VIBE_PIPE% points at, deleted when it is replaced or the shell ends.
+const panePipeFiles = new Map<string, string>();
+const pendingApprovals = new Map<string, { paneId: string; resolve: (approved: boolean) => void }>();
+// Tool calls the user approved in the agent loop, so a confirm rule does not ask about the same command twice.
+const approvedToolCalls = new WeakSet<AgentToolCall>();
+let approvalCounter = 0;
+const editProposals = new EditProposalStore();
+const sessionLog = new SessionLog();
+const scrollbackStore = new ScrollbackStore(
+  () => path.join(app.getPath("userData"), "scrollback"),
+  (message) => writeAppLog("WARN", message)
+);
+const editReviewWaiters = new Map<string, (result: EditApplyResult) => void>();
+const activeModelPulls = new Map<string, AbortController>();
+const activeComparisons = new Map<string, AbortController>();
+let customCommands: CustomCommandSet = { commands: [], errors: [] };
+let stopCommandWatch: (() => void) | null = null;
+let workspaceIndex: WorkspaceIndex | null = null;
 let mainWindow: BrowserWindow | null = null;
+const agentScheduler = new AgentScheduler((status) => mainWindow?.webContents.send("agent:queue", status));
+const ollamaHealth = new OllamaHealthMonitor(
+  () => getProviderConfigs().filter((config) => config.kind === "ollama").map((config) => config.endpoint),
+  (health) => mainWindow?.webContents.send("ollama:health", health),
+  (endpoint, state, error) =>
+    writeAppLog(state === "down" ? "WARN" : "INFO", `Ollama at ${endpoint} is ${state}${error && state === "down" ? `: ${error}` : ""}`)
+);
 let workspaceRootPath = path.resolve(process.cwd());
 
 function writeAppLog(level: "INFO" | "WARN" | "ERROR", message: string): void {
@@ -47,15 +202,16 @@ function writeAppLog(level: "INFO" | "WARN" | "ERROR", message: string): void {
 }
 
 function emitPtyData(paneId: string, chunk: string): void {
+  scrollbackStore.append(paneId, chunk);
   mainWindow?.webContents.send("pty:data", { paneId, chunk });
 }
 
-function emitAgentRouted(paneId: string, route: AgentRoute): void {
+function emitAgentRouted(paneId: string, provider: AgentProviderConfig): void {
   mainWindow?.webContents.send("agent:routed", {
     paneId,
-    route,
-    model: "Local",
-    modelName: getVault("localModel")
+    route: provider.id,
+    model: provider.label,
+    modelName: provider.model
   });
 }
 
@@ -88,19 +244,50 @@ function decryptKey(encoded: string): string {
   }
 }
 
-function shellPath(): string {
-  const candidates = [
-    "C:\\Program Files\\PowerShell\\7\\pwsh.exe",
-    "C:\\Windows\\System32\\WindowsPowerShell\\v1.0\\powershell.exe",
-    process.env.ComSpec ?? "C:\\Windows\\System32\\cmd.exe"
-  ];
-  return candidates.find((file) => fs.existsSync(file)) ?? "C:\\Windows\\System32\\cmd.exe";
+// Vault profiles first, then one per installed shell that no vault profile has claimed the name of.
+function listShellProfiles(): ShellProfile[] {
+  const custom = getVault("shellProfiles");
+  const detected = detectShellProfiles(process.platform, process.env).filter(
+    (profile) => !custom.some((candidate) => candidate.name === profile.name)
+  );
+  return [...custom, ...detected];
+}
+
+function summarizeShellProfile(profile: ShellProfile): ShellProfileSummary {
+  const detected = !getVault("shellProfiles").some((candidate) => candidate.name === profile.name);
+  return { name: profile.name, executable: profile.executable, icon: profile.icon, detected };
+}
+
+function resolveShellProfile(name: string): ShellProfile {
+  const profiles = listShellProfiles();
+  const wanted = name || getVault("defaultShellProfile");
+  if (wanted) {
+    const profile = profiles.find((candidate) => candidate.name === wanted);
+    if (!profile) {
+      throw new Error(`Shell profile "${wanted}" does not exist.`);
+    }
+    return profile;
+  }
+  const profile = detectShellProfiles(process.platform, process.env)[0] ?? profiles[0];
+  if (!profile) {
+    throw new Error("No supported shell was found.");
+  }
+  return profile;
 }
 
 function getProjectRoot(): string {
   return workspaceRootPath;
 }
 
+// Audit logs live with the app's data rather than in the workspace the audited commands can write to.
+function getAuditDir(): string {
+  return path.join(app.getPath("userData"), "audit");
+}
+
+function getAuditLogFile(): string {
+  return auditLogPath(getAuditDir(), getProjectRoot());
+}
+
 function destroyPtySession(paneId: string): void {
   const p = ptySessions.get(paneId);
   if (p) {
@@ -108,33 +295,114 @@ function destroyPtySession(paneId: string): void {
   }
   ptySessions.delete(paneId);
   paneShellExe.delete(paneId);
+  paneShellProfiles.delete(paneId);
+  scrollbackStore.flush(paneId);
+  paneScrollback.get(paneId)?.clear();
+  paneCommandWatchers.get(paneId)?.dispose();
+  paneCommandWatchers.delete(paneId);
+  paneAuditIds.delete(paneId);
+  releasePipeFile(paneId);
 }
 
-function createPtySession(paneId: string): void {
-  if (ptySessions.has(paneId)) return;
+function releasePipeFile(paneId: string): void {
+  const file = panePipeFiles.get(paneId);
+  if (!file) return;
+  panePipeFiles.delete(paneId);
+  removePipeFile(file);
+}
+
+// Typed commands are tracked for failures; agent tool commands report their output to the agent instead.
+function markUserCommand(paneId: string, command: string): void {
+  paneScrollback.get(paneId)?.markCommand(command);
+  paneCommandWatchers.get(paneId)?.begin(command);
+  if (command.trim()) sessionLog.record(paneId, { kind: "command", text: command.trim() });
+}
+
+function getPaneScrollback(paneId: string): PaneScrollback {
+  let scrollback = paneScrollback.get(paneId);
+  if (!scrollback) {
+    scrollback = new PaneScrollback();
+    paneScrollback.set(paneId, scrollback);
+  }
+  return scrollback;
+}
+
+// Starts the pane's shell from a profile ("" for the default). On failure the pane is told which other profiles
+// could start instead, and null is returned.
+function createPtySession(paneId: string, profileName: string): ShellProfileSummary | null {
+  if (ptySessions.has(paneId)) return paneShellProfiles.get(paneId) ?? null;
 
   const mode = getVault("executionMode");
   const cwd = mode === "system-wide" ? os.homedir() : getProjectRoot();
-  const exe = shellPath();
+  let profile: ShellProfile | null = null;
+  let exe: string;
   let p: pty.IPty;
   try {
-    p = pty.spawn(exe, [], {
+    profile = resolveShellProfile(profileName);
+    const found = findExecutable(profile.executable, process.platform, process.env);
+    if (!found) {
+      throw new Error(`${profile.executable} was not found.`);
+    }
+    exe = found;
+    const integration = shellIntegration(shellKind(exe), process.env);
+    const terminal = ptyEnvironment(process.platform, process.env);
+    p = pty.spawn(exe, [...profile.args, ...integration.args], {
       cwd,
       cols: 100,
       rows: 28,
-      name: "xterm-color",
+      name: terminal.term,
       env: {
         ...process.env,
+        ...terminal.env,
+        ...profile.env,
+        ...integration.env,
         VIBE_ADE_MODE: mode
       }
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown spawn error";
+    const failed = profile?.name ?? profileName;
+    const alternatives = listShellProfiles()
+      .filter((candidate) => candidate.name !== failed && findExecutable(candidate.executable, process.platform, process.env))
+      .map(summarizeShellProfile);
+    writeAppLog("WARN", `Shell profile "${failed || "default"}" failed to start on ${paneId}: ${message}`);
     emitPtyData(paneId, `\r\n[Vibe-ADE] Failed to start shell: ${message}\r\n`);
-    return;
+    mainWindow?.webContents.send("pty:spawn-failed", { paneId, profile: failed, error: message, alternatives });
+    return null;
   }
+  const shell = shellKind(exe);
 
+  const scrollback = getPaneScrollback(paneId);
+  const watcher = new CommandFailureWatcher({
+    shell,
+    cwd,
+    quietMs: COMMAND_QUIET_MS,
+    readOutput: () => scrollback.outputSinceCommand(),
+    onFailure: (failure) => {
+      paneFailures.set(paneId, failure);
+      sessionLog.record(paneId, {
+        kind: "command-failed",
+        text: `${failure.command}\n${failure.reason}\n\n${failure.output}`.trim(),
+        exitCode: failure.exitCode
+      });
+      writeAppLog("INFO", `Command failed on ${paneId} (${failure.reason}): ${failure.command}`);
+      mainWindow?.webContents.send("shell:failed", { paneId, ...failure });
+    },
+    onComplete: (exitCode) => {
+      const auditId = paneAuditIds.get(paneId);
+      paneAuditIds.delete(paneId);
+      if (!auditId || exitCode === null) return;
+      try {
+        appendAuditExit(getAuditLogFile(), auditId, exitCode);
+      } catch (error) {
+        writeAppLog("WARN", `Could not write the audit log: ${error instanceof Error ? error.message : "unknown error"}`);
+      }
+    }
+  });
+  paneCommandWatchers.set(paneId, watcher);
   p.onData((chunk) => {
+    scrollback.append(chunk);
+    watcher.push(chunk);
     emitPtyData(paneId, chunk);
   });
 
@@ -145,93 +413,750 @@ function createPtySession(paneId: string): void {
     }
     ptySessions.delete(paneId);
     paneShellExe.delete(paneId);
+    paneShellProfiles.delete(paneId);
+    watcher.dispose();
+    paneCommandWatchers.delete(paneId);
+    releasePipeFile(paneId);
     mainWindow?.webContents.send("pty:exit", { paneId });
   });
 
   ptySessions.set(paneId, p);
-  paneShellExe.set(paneId, exe.toLowerCase());
+  paneShellExe.set(paneId, exe);
+  // Sent before the new shell's first output, which only arrives on a later tick.
+  const restored = scrollbackStore.startSession(getProjectRoot(), paneId);
+  if (restored) {
+    mainWindow?.webContents.send("pane:restored", { paneId, text: restored });
+  }
+  const summary = summarizeShellProfile(profile);
+  paneShellProfiles.set(paneId, summary);
+  if (profile.startupCommand) {
+    void runStartupCommand(paneId, p, profile.startupCommand);
+  }
+  return summary;
 }
 
-function sanitizeCommandForMode(command: string, mode: ExecutionMode): string {
-  void mode;
-  return command;
+// A profile's startup command goes through the policy and the audit log like a typed line, without holding up the
+// pane while a confirm dialog is open.
+async function runStartupCommand(paneId: string, p: pty.IPty, command: string): Promise<void> {
+  try {
+    await enforceCommandPolicy(paneId, command, "user", "shell-line");
+    // The pane may have been restarted or closed while the policy was deciding.
+    if (ptySessions.get(paneId) !== p) return;
+    p.write(`${command}\r`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Startup command blocked";
+    emitPtyData(paneId, `\r\n[Vibe-ADE:${getVault("executionMode")}] ${message}\r\n`);
+  }
 }
 
-function normalizeShellCommandForExe(command: string, exe: string): string {
-  if (!exe.endsWith("cmd.exe")) return command;
+function auditCommand(
+  paneId: string,
+  inputMode: AuditInputMode,
+  origin: AuditOrigin,
+  command: string,
+  policy: { outcome: AuditPolicyOutcome; reason: string } | null
+): string | null {
+  try {
+    return appendAuditRecord(getAuditLogFile(), {
+      paneId,
+      inputMode,
+      origin,
+      command,
+      executionMode: getVault("executionMode"),
+      policy: policy?.outcome ?? null,
+      policyReason: policy?.reason ?? null
+    });
+  } catch (error) {
+    writeAppLog("WARN", `Could not write the audit log: ${error instanceof Error ? error.message : "unknown error"}`);
+    return null;
+  }
+}
+
+// Sandboxed mode checks every command against the workspace policy before it reaches the shell. Each command is
+// audited with the decision, denied and declined commands throw, and every decision is written to the app log.
+// `approved` means the user already accepted this exact command, so a confirm rule counts as confirmed without a
+// second dialog. Returns the audit record id.
+async function enforceCommandPolicy(
+  paneId: string,
+  command: string,
+  origin: AuditOrigin,
+  inputMode: AuditInputMode,
+  approved = false
+): Promise<string | null> {
   const trimmed = command.trim();
-  if (trimmed === "ls") return "dir";
-  if (trimmed.startsWith("ls ")) return `dir ${trimmed.slice(3)}`;
-  return command;
+  if (!trimmed) return null;
+  if (getVault("executionMode") !== "sandboxed") {
+    return auditCommand(paneId, inputMode, origin, trimmed, null);
+  }
+  let decision: PolicyDecision;
+  try {
+    const policy = loadCommandPolicy(getProjectRoot(), getVault("policyPreset"));
+    decision = evaluateCommand(trimmed, policy, {
+      root: getProjectRoot(),
+      home: os.homedir(),
+      platform: process.platform,
+      auditDir: getAuditDir()
+    });
+  } catch (error) {
+    decision = { action: "deny", segment: trimmed, reason: error instanceof Error ? error.message : "the policy could not be read" };
+  }
+  const outcome =
+    decision.action === "confirm" ? (approved || (await confirmCommand(paneId, trimmed, decision)) ? "confirmed" : "declined") : decision.action;
+  writeAppLog(
+    outcome === "deny" || outcome === "declined" ? "WARN" : "INFO",
+    `Policy ${outcome} for ${origin} command on ${paneId}: ${trimmed} (${decision.segment}: ${decision.reason})`
+  );
+  const auditId = auditCommand(paneId, inputMode, origin, trimmed, { outcome, reason: `${decision.segment}: ${decision.reason}` });
+  if (outcome === "deny") {
+    throw new Error(`Blocked by the sandbox policy: \`${decision.segment}\` ${decision.reason}.`);
+  }
+  if (outcome === "declined") {
+    throw new Error(`Not run: \`${decision.segment}\` was declined.`);
+  }
+  return auditId;
 }
 
-async function runLocalAgent(prompt: string): Promise<string> {
-  return runLocalAgentWithSignal(prompt);
+async function confirmCommand(paneId: string, command: string, decision: PolicyDecision): Promise<boolean> {
+  if (!mainWindow) return false;
+  const { response } = await dialog.showMessageBox(mainWindow, {
+    type: "warning",
+    title: "Confirm Command",
+    message: `Run this command in ${paneId}?`,
+    detail: `${command}\n\nThe sandbox policy asks first because \`${decision.segment}\` ${decision.reason}.`,
+    buttons: ["Run", "Cancel"],
+    defaultId: 1,
+    cancelId: 1,
+    noLink: true
+  });
+  return response === 0;
 }
 
-async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
+function getWorkspaceSettings(): WorkspaceSettings {
+  return { ...DEFAULT_WORKSPACE_SETTINGS, ...getVault("workspaceSettings")[getProjectRoot()] };
+}
+
+function setWorkspaceSettings(patch: Partial<WorkspaceSettings>): void {
+  const all = getVault("workspaceSettings");
+  setVault("workspaceSettings", { ...all, [getProjectRoot()]: { ...getWorkspaceSettings(), ...patch } });
+}
+
+// The /cloud route is backed by the dedicated cloud fields of the vault rather than the provider list.
+function getCloudProviderConfig(): AgentProviderConfig {
+  return {
+    id: "cloud",
+    kind: "openai-compatible",
+    label: "Cloud",
+    endpoint: getVault("cloudApiBaseUrl"),
+    model: getVault("cloudModel"),
+    apiKey: decryptKey(getVault("cloudApiKeyEncrypted")),
+    timeoutMs: 30000,
+    retries: 1,
+    maxConcurrent: 4
+  };
+}
+
+function getProviderConfigs(): AgentProviderConfig[] {
+  return [...getStoredProviderConfigs(), getCloudProviderConfig()];
+}
+
+function getStoredProviderConfigs(): AgentProviderConfig[] {
+  const stored = getVault("agentProviders");
+  // Vaults written before providers existed only carry the legacy Ollama model name.
+  if (!stored.length) {
+    return defaultProviderConfigs(getVault("localModel"));
+  }
+  // Providers saved before the scheduler existed get one request at a time.
+  return stored.map(({ apiKeyEncrypted, ...config }) => ({
+    ...config,
+    apiKey: decryptKey(apiKeyEncrypted),
+    maxConcurrent: config.maxConcurrent ?? 1
+  }));
+}
+
+function setProviderConfigs(configs: AgentProviderConfig[]): void {
+  validateProviderConfigs(configs, RESERVED_AGENT_ROUTES);
+  setVault(
+    "agentProviders",
+    configs.map(({ apiKey, ...config }) => ({ ...config, apiKeyEncrypted: encryptKey(apiKey) }))
+  );
+}
+
+// Only checks Ollama providers whose endpoint or model changed, so saving unrelated settings works while Ollama is down.
+async function assertProviderModelsInstalled(configs: AgentProviderConfig[]): Promise<void> {
+  const previous = getStoredProviderConfigs();
+  for (const config of configs) {
+    if (config.kind !== "ollama") continue;
+    const before = previous.find((candidate) => candidate.id === config.id);
+    if (before && before.kind === "ollama" && before.endpoint === config.endpoint && before.model === config.model) continue;
+    await assertOllamaModelInstalled(config.endpoint, config.model, `/${config.id}`);
+  }
+}
+
+function getAgentProvider(route: AgentRoute, model?: string): AgentProvider {
+  const config = getProviderConfigs().find((candidate) => candidate.id === route);
+  if (!config) {
+    throw new Error(`No agent provider is registered for /${route}.`);
+  }
+  return createAgentProvider(model ? { ...config, model } : config);
+}
+
+// Every provider call from a pane goes through the scheduler, so busy providers queue requests instead of racing their timeouts.
+// Ollama requests fail fast while the health monitor's breaker is open and show as "loading" until the first token.
+function scheduleProvider(paneId: string, provider: AgentProvider): AgentProvider {
+  const { config } = provider;
+  const slot = { paneId, route: config.id, limit: config.maxConcurrent };
+  if (config.kind !== "ollama") {
+    return { config, run: (request) => agentScheduler.run({ ...slot, signal: request.signal }, () => provider.run(request)) };
+  }
+  return {
+    config,
+    run: async (request) => {
+      ollamaHealth.assertAvailable(config.endpoint);
+      return agentScheduler.run({ ...slot, signal: request.signal }, async () => {
+        const loaded = ollamaHealth.beginLoad(config.endpoint, config.model);
+        try {
+          return await provider.run({
+            ...request,
+            onToken: (token) => {
+              loaded();
+              request.onToken?.(token);
+            }
+          });
+        } catch (error) {
+          if (!request.signal?.aborted) void ollamaHealth.check();
+          throw error;
+        } finally {
+          loaded();
+        }
+      });
+    }
+  };
+}
+
+function getAgentProfile(name: string | undefined): AgentProfile | null {
+  if (!name) return null;
+  const profile = getVault("agentProfiles").find((candidate) => candidate.name === name);
+  if (!profile) {
+    throw new Error(`Agent profile "${name}" no longer exists. Pick another with /profile.`);
+  }
+  return profile;
+}
+
+function listCustomCommands(): { commands: CustomCommandSummary[]; errors: string[] } {
+  return {
+    commands: customCommands.commands.map(({ template: _template, ...summary }) => summary),
+    errors: customCommands.errors
+  };
+}
+
+function reloadCustomCommands(): void {
+  const reserved = [...RESERVED_AGENT_ROUTES, ...getProviderConfigs().map((config) => config.id)];
+  let next: CustomCommandSet;
   try {
-    return await fetch(url, {
-      ...init,
-      signal: controller.signal
+    next = loadCustomCommands(getProjectRoot(), reserved);
+  } catch (error) {
+    next = { commands: [], errors: [`Could not load .vibe/commands: ${error instanceof Error ? error.message : "unknown error"}`] };
+  }
+  if (JSON.stringify(next) === JSON.stringify(customCommands)) return;
+  customCommands = next;
+  writeAppLog("INFO", `Loaded ${next.commands.length} custom command(s) from ${getProjectRoot()}`);
+  for (const error of next.errors) {
+    writeAppLog("WARN", `Custom command skipped: ${error}`);
+  }
+  mainWindow?.webContents.send("commands:changed", listCustomCommands());
+}
+
+// Discovers `.vibe/commands` for the current workspace and keeps it in sync with the disk.
+function openWorkspaceCommands(): void {
+  stopCommandWatch?.();
+  customCommands = { commands: [], errors: [] };
+  mainWindow?.webContents.send("commands:changed", listCustomCommands());
+  reloadCustomCommands();
+  stopCommandWatch = watchCustomCommands(getProjectRoot(), reloadCustomCommands);
+}
+
+// The /local provider when it is an Ollama one, otherwise the first Ollama provider.
+function getDefaultOllamaConfig(): AgentProviderConfig | undefined {
+  const configs = getProviderConfigs().filter((config) => config.kind === "ollama");
+  return configs.find((candidate) => candidate.id === "local") ?? configs[0];
+}
+
+// Embeddings come from the /local Ollama endpoint, or the first Ollama provider when /local points elsewhere.
+function getEmbeddingTarget(): EmbeddingTarget {
+  const config = getDefaultOllamaConfig();
+  if (!config) {
+    throw new Error("/ask needs an Ollama provider for embeddings. Add one in the Settings Vault.");
+  }
+  return { endpoint: config.endpoint, model: getVault("embeddingModel") };
+}
+
+function openWorkspaceIndex(): void {
+  workspaceIndex?.dispose();
+  workspaceIndex = new WorkspaceIndex(getProjectRoot(), getEmbeddingTarget, (message) =>
+    writeAppLog("WARN", `Workspace index update failed: ${message}`)
+  );
+}
+
+// Preloads the default Ollama model at startup and whenever a workspace opens, so the first prompt does not pay for the load.
+function warmUpOllama(): void {
+  const config = getDefaultOllamaConfig();
+  if (!getVault("ollamaWarmUp") || !config) return;
+  writeAppLog("INFO", `Warming up ${config.model} at ${config.endpoint}`);
+  ollamaHealth
+    .warmUp(config.endpoint, config.model)
+    .then(() => writeAppLog("INFO", `${config.model} is loaded.`))
+    .catch((error) => writeAppLog("WARN", `Warm-up of ${config.model} failed: ${error instanceof Error ? error.message : "unknown error"}`));
+}
+
+function resolveFallbackProvider(failed: AgentProvider, error: unknown, signal: AbortSignal): AgentProvider | null {
+  if (failed.config.id !== "cloud" || signal.aborted) {
+    return null;
+  }
+  const policy = getWorkspaceSettings().cloudFallback;
+  if (policy === "never" || (policy === "on-timeout" && !(error instanceof AgentTimeoutError))) {
+    return null;
+  }
+  try {
+    return getAgentProvider("local");
+  } catch {
+    return null;
+  }
+}
+
+async function testAgentProvider(config: AgentProviderConfig): Promise<{ ok: boolean; message: string }> {
+  const startedAt = Date.now();
+  try {
+    if (config.id === "cloud" && !config.apiKey) {
+      throw new Error("Cloud API key is empty.");
+    }
+    const provider = createAgentProvider({ ...config, retries: 0 });
+    const reply = await provider.run({ messages: [{ role: "user", content: "Reply with the single word OK." }] });
+    const latency = Date.now() - startedAt;
+    writeAppLog("INFO", `Provider test succeeded for /${config.id} in ${latency} ms`);
+    return { ok: true, message: `Connected to ${config.label} (${config.model}) in ${latency} ms: "${reply.trim().slice(0, 40)}"` };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown provider error";
+    writeAppLog("WARN", `Provider test failed for /${config.id}: ${message}`);
+    return { ok: false, message };
+  }
+}
+
+// Runs a command in the pane's PTY and resolves with its output once the shell has been quiet for a moment.
+async function runPaneCommand(paneId: string, command: string, signal: AbortSignal, approved: boolean): Promise<string> {
+  await enforceCommandPolicy(paneId, command, "agent", "tool-call", approved);
+  if (signal.aborted) {
+    throw new Error("Agent request was cancelled.");
+  }
+  const p = ptySessions.get(paneId);
+  if (!p) {
+    throw new Error("Pane has no running shell. Restart the pane and try again.");
+  }
+  const normalized = normalizeShellCommandForExe(command, paneShellExe.get(paneId) ?? "");
+  const scrollback = getPaneScrollback(paneId);
+  scrollback.markCommand(normalized);
+  p.write(`${normalized}\r`);
+
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    let quietTimer: NodeJS.Timeout | null = null;
+    const cleanup = (): void => {
+      if (quietTimer) clearTimeout(quietTimer);
+      dataListener.dispose();
+      signal.removeEventListener("abort", onAbort);
+    };
+    const finish = (): void => {
+      cleanup();
+      const output = scrollback.outputSinceCommand().join("\n").trim();
+      const stillRunning = Date.now() - startedAt >= COMMAND_MAX_WAIT_MS ? "\n[command still running; output so far]" : "";
+      resolve(`${output || "(no output)"}${stillRunning}`);
+    };
+    const armQuietTimer = (): void => {
+      if (quietTimer) clearTimeout(quietTimer);
+      const remaining = COMMAND_MAX_WAIT_MS - (Date.now() - startedAt);
+      quietTimer = setTimeout(finish, Math.max(0, Math.min(COMMAND_QUIET_MS, remaining)));
+    };
+    const onAbort = (): void => {
+      cleanup();
+      p.write("\u0003");
+      reject(new Error("Agent request was cancelled."));
+    };
+    const dataListener = p.onData(armQuietTimer);
+    signal.addEventListener("abort", onAbort, { once: true });
+    armQuietTimer();
+  });
+}
+
+// Agent writes never touch disk directly: they become a diff the pane reviews hunk by hunk.
+function proposeEditAndWait(paneId: string, target: string, content: string, signal: AbortSignal): Promise<string> {
+  const proposal = editProposals.propose(getProjectRoot(), paneId, target, content);
+  if (!proposal.hunks.length) {
+    editProposals.discard(proposal.id);
+    return Promise.resolve(`${proposal.path} already has the proposed content.`);
+  }
+  mainWindow?.webContents.send("edits:proposed", { paneId, proposal });
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      editReviewWaiters.delete(proposal.id);
+      editProposals.discard(proposal.id);
+      mainWindow?.webContents.send("edits:closed", { paneId, proposalId: proposal.id });
+      reject(new Error("Agent request was cancelled."));
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    editReviewWaiters.set(proposal.id, (result) => {
+      signal.removeEventListener("abort", onAbort);
+      editReviewWaiters.delete(proposal.id);
+      resolve(result.message);
     });
-  } finally {
-    clearTimeout(timer);
+  });
+}
+
+function executeAgentTool(paneId: string, call: AgentToolCall, signal: AbortSignal): Promise<string> {
+  const root = getProjectRoot();
+  switch (call.tool) {
+    case "run_command":
+      if (!call.args.command?.trim()) throw new Error("run_command needs a command.");
+      return runPaneCommand(paneId, call.args.command, signal, approvedToolCalls.has(call));
+    case "read_file":
+      return Promise.resolve(readWorkspaceFile(root, call.args.path ?? ""));
+    case "write_file":
+      return proposeEditAndWait(paneId, call.args.path ?? "", call.args.content ?? "", signal);
+    case "list_dir":
+      return Promise.resolve(listWorkspaceDir(root, call.args.path ?? "."));
+    case "search":
+      return Promise.resolve(searchWorkspace(root, call.args.query ?? "", call.args.path ?? "."));
+    default:
+      throw new Error(`Unknown tool: ${String(call.tool)}`);
   }
 }
 
-function combineSignals(external?: AbortSignal): AbortController {
-  const controller = new AbortController();
-  if (!external) {
-    return controller;
+// Sandboxed mode asks the pane to approve every tool call; the other modes run them straight away.
+function requestAgentApproval(paneId: string, call: AgentToolCall, step: number, signal: AbortSignal): Promise<boolean> {
+  // write_file is reviewed as a diff instead, so it skips the generic approval step.
+  if (getVault("executionMode") !== "sandboxed" || call.tool === "write_file") {
+    return Promise.resolve(true);
   }
-  if (external.aborted) {
-    controller.abort();
-    return controller;
+  approvalCounter += 1;
+  const requestId = `approval-${approvalCounter}`;
+  return new Promise((resolve) => {
+    const onAbort = (): void => settle(false);
+    const settle = (approved: boolean): void => {
+      pendingApprovals.delete(requestId);
+      signal.removeEventListener("abort", onAbort);
+      if (approved) approvedToolCalls.add(call);
+      resolve(approved);
+    };
+    pendingApprovals.set(requestId, { paneId, resolve: settle });
+    signal.addEventListener("abort", onAbort, { once: true });
+    mainWindow?.webContents.send("agent:approval", {
+      paneId,
+      requestId,
+      step,
+      tool: call.tool,
+      summary: describeToolCall(call),
+      details: JSON.stringify(call.args, null, 2)
+    });
+  });
+}
+
+function recordAgentMetrics(paneId: string, metrics: AgentRunMetrics): void {
+  mainWindow?.webContents.send("agent:metrics", { paneId, ...metrics });
+  recordTelemetry(metrics);
+}
+
+function recordTelemetry(metrics: AgentRunMetrics): void {
+  try {
+    appendAgentRun(getProjectRoot(), metrics);
+  } catch (error) {
+    writeAppLog("WARN", `Could not record agent telemetry: ${error instanceof Error ? error.message : "unknown error"}`);
   }
-  external.addEventListener("abort", () => controller.abort(), { once: true });
-  return controller;
 }
 
-function shouldRetryStatus(status: number): boolean {
-  return status === 408 || status === 429 || status >= 500;
+function emitAgentStep(paneId: string, event: AgentStepEvent): void {
+  sessionLog.record(paneId, { kind: "agent-step", text: [event.summary, event.details].filter(Boolean).join("\n\n") });
+  mainWindow?.webContents.send("agent:step", { paneId, ...event });
 }
 
-async function runLocalAgentWithSignal(prompt: string, externalSignal?: AbortSignal): Promise<string> {
-  const model = getVault("localModel");
-  const controller = combineSignals(externalSignal);
-  let lastError: Error | null = null;
+function snapshotPane(paneId: string): PaneSnapshot {
+  const scrollback = paneScrollback.get(paneId);
+  const entries = sessionLog.list(paneId).reverse();
+  const answer = entries.find((entry) => entry.kind === "agent-response");
+  const command = entries.find((entry) => entry.kind === "command");
+  return {
+    lastCommand: scrollback?.lastCommand() ?? "",
+    output: scrollback?.outputSinceCommand() ?? [],
+    lastAnswer: answer?.text ?? null,
+    answerIsNewer: Boolean(answer) && (!command || (answer?.at ?? 0) >= command.at)
+  };
+}
 
-  for (let attempt = 0; attempt < 2; attempt += 1) {
-    try {
-      const res = await fetchWithTimeout(
-        "http://127.0.0.1:11434/api/generate",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ model, prompt, stream: false }),
-          signal: controller.signal
+// Appends anything piped into the pane and consumes it, so it rides along with exactly one prompt.
+function withPipedContext(paneId: string, prompt: string): string {
+  const piped = panePipedContext.get(paneId);
+  if (!piped?.length) return prompt;
+  panePipedContext.delete(paneId);
+  return `${prompt}\n\n${formatPipedContext(piped)}`;
+}
+
+async function pipeBetweenPanes(
+  fromPaneId: string,
+  toPaneId: string,
+  target: PipeTarget,
+  source: PipeSource | null,
+  origin: AuditOrigin
+): Promise<void> {
+  try {
+    if (fromPaneId === toPaneId) {
+      throw new Error("Pick a different pane to pipe into.");
+    }
+    const payload = resolvePipePayload(fromPaneId, snapshotPane(fromPaneId), source);
+    let note: string;
+    if (target === "agent") {
+      panePipedContext.set(toPaneId, [...(panePipedContext.get(toPaneId) ?? []), payload]);
+      note = `Attached to the next agent prompt in ${toPaneId}.`;
+    } else if (target === "shell") {
+      const p = ptySessions.get(toPaneId);
+      if (!p) {
+        throw new Error(`${toPaneId} has no running shell. Restart it and try again.`);
+      }
+      const shell = shellKind(paneShellExe.get(toPaneId) ?? "");
+      // The text is quoted into a variable and never run, so the assignment is audited but not checked.
+      const assignment = buildShellAssignment(shell, payload.text);
+      p.write(assignment.input);
+      releasePipeFile(toPaneId);
+      if (assignment.file) panePipeFiles.set(toPaneId, assignment.file);
+      auditCommand(toPaneId, "pipe", origin, assignment.input.trim(), null);
+      note = `Stored in ${describeShellAssignment(shell)} in ${toPaneId}.`;
+    } else {
+      if (!ptySessions.has(toPaneId)) {
+        throw new Error(`${toPaneId} has no running shell. Restart it and try again.`);
+      }
+      // At an idle prompt the piped lines run as commands, so Sandboxed mode checks them like typed ones.
+      const input = buildStdinInput(payload.text);
+      await enforceCommandPolicy(toPaneId, input, origin, "pipe");
+      const p = ptySessions.get(toPaneId);
+      if (!p) {
+        throw new Error(`${toPaneId} has no running shell. Restart it and try again.`);
+      }
+      p.write(input);
+      note = `Typed into the program running in ${toPaneId}.`;
+    }
+    writeAppLog("INFO", `Piped ${payload.label} from ${fromPaneId} to ${toPaneId} (${target}, ${payload.text.length} chars)`);
+    mainWindow?.webContents.send("pane:piped", {
+      fromPaneId,
+      toPaneId,
+      target,
+      source: payload.source,
+      label: payload.label,
+      text: payload.text,
+      note
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Pipe failed";
+    writeAppLog("WARN", `Pipe from ${fromPaneId} to ${toPaneId} failed: ${message}`);
+    mainWindow?.webContents.send("pane:piped", { fromPaneId, toPaneId, target, error: message });
+  }
+}
+
+const CONVERSATION_CHAR_BUDGET = 24000;
+
+// Drops the oldest turns until the history fits the budget; the newest message is always kept.
+function trimConversation(messages: ChatMessage[]): ChatMessage[] {
+  const trimmed = [...messages];
+  let total = trimmed.reduce((sum, message) => sum + message.content.length, 0);
+  while (trimmed.length > 1 && total > CONVERSATION_CHAR_BUDGET) {
+    const dropped = trimmed.shift();
+    total -= dropped?.content.length ?? 0;
+  }
+  // Never start a history with a dangling assistant reply.
+  while (trimmed.length > 1 && trimmed[0].role === "assistant") {
+    trimmed.shift();
+  }
+  return trimmed;
+}
+
+function buildConversation(paneId: string, prompt: string): ChatMessage[] {
+  const history = paneConversations.get(paneId) ?? [];
+  return trimConversation([...history, { role: "user", content: prompt }]);
+}
+
+function recordConversationTurn(paneId: string, messages: ChatMessage[], reply: string): void {
+  paneConversations.set(paneId, trimConversation([...messages, { role: "assistant", content: reply }]));
+}
+
+interface AgentTurnRequest {
+  route: AgentRoute;
+  prompt: string;
+  context?: AgentContextOptions;
+  model?: string;
+  profile?: string;
+  // A route chosen by a custom command's front-matter wins over the profile's pinned provider.
+  routeIsExplicit?: boolean;
+  // Custom command prompts arrive with their terminal variables already expanded.
+  variablesExpanded?: boolean;
+}
+
+// One streamed agent reply in a pane, with the conversation history, the pane's profile and the cloud fallback policy applied.
+async function runAgentTurn(paneId: string, request: AgentTurnRequest): Promise<void> {
+  activeAgentControllers.get(paneId)?.abort();
+  const controller = new AbortController();
+  activeAgentControllers.set(paneId, controller);
+  try {
+    const profile = getAgentProfile(request.profile);
+    const pinned = Boolean(profile?.route) && !request.routeIsExplicit;
+    const route = pinned && profile ? profile.route : request.route;
+    const model = request.model || (pinned ? profile?.model : "") || undefined;
+    const rawPrompt = request.prompt;
+    const context = request.context;
+    const mode = getVault("executionMode");
+    const prompt = withPipedContext(
+      paneId,
+      buildPromptWithContext(
+        rawPrompt,
+        paneScrollback.get(paneId),
+        context ?? { attachOutput: false, lineCount: DEFAULT_CONTEXT_LINES },
+        !request.variablesExpanded
+      )
+    );
+    const messages = buildConversation(paneId, prompt);
+    const systemPrompt = [profile?.systemPrompt.trim(), mode === "dual-stream" ? DUAL_STREAM_INSTRUCTIONS : ""]
+      .filter(Boolean)
+      .join("\n\n");
+    const requestMessages: ChatMessage[] = systemPrompt ? [{ role: "system", content: systemPrompt }, ...messages] : messages;
+    let parser = null as DualStreamParser | null;
+    let answeredBy = null as AgentProviderConfig | null;
+    let runMetrics: AgentRunMetrics | undefined;
+    const runWith = (provider: AgentProvider): Promise<string> => {
+      emitAgentRouted(paneId, provider.config);
+      answeredBy = provider.config;
+      if (provider.config.id === "cloud" && !provider.config.apiKey) {
+        throw new Error("Cloud API key missing in Settings Vault. Add a key or use /local.");
+      }
+      // A fallback attempt starts its sections afresh.
+      parser =
+        mode === "dual-stream"
+          ? createDualStreamParser((section, chunk) => {
+              const stream = section === "plan" || section === "thought" ? "thought" : "action";
+              mainWindow?.webContents.send("agent:chunk", { paneId, chunk, stream, section });
+            })
+          : null;
+      if (!parser) {
+        const routePrefix = `[${provider.config.label}:${provider.config.model}]\n`;
+        mainWindow?.webContents.send("agent:chunk", { paneId, chunk: routePrefix, stream: "action" });
+      }
+      return scheduleProvider(paneId, provider).run({
+        messages: requestMessages,
+        options: profile?.options,
+        signal: controller.signal,
+        onToken: (token) => {
+          if (parser) {
+            parser.push(token);
+          } else {
+            mainWindow?.webContents.send("agent:chunk", { paneId, chunk: token, stream: "action" });
+          }
         },
-        20000
-      );
-      if (!res.ok) {
-        if (shouldRetryStatus(res.status) && attempt === 0) {
-          continue;
+        onMetrics: (metrics) => {
+          runMetrics = metrics;
+          recordAgentMetrics(paneId, metrics);
         }
-        throw new Error(`Ollama error: ${res.status}`);
-      }
-      const body = (await res.json()) as { response?: string };
-      return body.response ?? "";
+      });
+    };
+
+    const provider = getAgentProvider(route, model);
+    sessionLog.record(paneId, { kind: "agent-request", text: rawPrompt, route, model: provider.config.model, profile: profile?.name });
+    let text: string;
+    try {
+      text = await runWith(provider);
     } catch (error) {
-      if (controller.signal.aborted) {
-        throw new Error("Agent request was cancelled.");
-      }
-      lastError = error instanceof Error ? error : new Error("Unknown local agent error");
+      const fallback = resolveFallbackProvider(provider, error, controller.signal);
+      if (!fallback) throw error;
+      const message = error instanceof Error ? error.message : "Cloud route failed";
+      writeAppLog("WARN", `Cloud route failed on ${paneId}, falling back to /${fallback.config.id}: ${message}`);
+      mainWindow?.webContents.send("agent:chunk", {
+        paneId,
+        chunk: `Cloud route failed: ${message}\nFalling back to local model.\n`,
+        stream: "action"
+      });
+      text = await runWith(fallback);
+    }
+    recordConversationTurn(paneId, messages, text);
+    sessionLog.record(paneId, { kind: "agent-response", text, route: answeredBy?.id, model: answeredBy?.model, metrics: runMetrics });
+    // A reply without [ACTION] or [RESULT] still needs an answer; show its reasoning there instead.
+    const sections = parser?.finish();
+    const unanswered = sections && !sections.action && !sections.result;
+    mainWindow?.webContents.send("agent:chunk", {
+      paneId,
+      chunk: unanswered ? `${[sections.plan, sections.thought].filter(Boolean).join("\n") || text}\n` : "\n",
+      stream: "action",
+      done: true
+    });
+  } catch (error) {
+    writeAppLog("ERROR", `Agent run failed on ${paneId}: ${error instanceof Error ? error.message : "Unknown agent error"}`);
+    sessionLog.record(paneId, { kind: "error", text: error instanceof Error ? error.message : "Unknown agent error" });
+    mainWindow?.webContents.send("agent:chunk", {
+      paneId,
+      chunk: "",
+      error: error instanceof Error ? error.message : "Unknown agent error",
+      done: true
+    });
+  } finally {
+    if (activeAgentControllers.get(paneId) === controller) {
+      activeAgentControllers.delete(paneId);
+    }
+  }
+}
+
+// Sends one prompt to several providers at once and streams each answer on its own, leaving the pane's conversation untouched.
+async function runComparison(compareId: string, paneId: string, rawPrompt: string, routes: AgentRoute[], context?: AgentContextOptions): Promise<void> {
+  const controller = new AbortController();
+  activeComparisons.set(compareId, controller);
+  const prompt = buildPromptWithContext(
+    rawPrompt,
+    paneScrollback.get(paneId),
+    context ?? { attachOutput: false, lineCount: DEFAULT_CONTEXT_LINES }
+  );
+  writeAppLog("INFO", `Comparison ${compareId} on ${paneId} across ${routes.map((route) => `/${route}`).join(", ")}`);
+  sessionLog.record(paneId, { kind: "agent-request", text: `/compare ${rawPrompt}`, route: routes.join(",") });
+  try {
+    await Promise.all(
+      routes.map(async (route) => {
+        let label = route;
+        let model = "";
+        let metrics: AgentRunMetrics | undefined;
+        const send = (update: { chunk: string; done?: boolean; error?: string }): void => {
+          mainWindow?.webContents.send("compare:update", { compareId, route, label, model, metrics, ...update });
+        };
+        try {
+          const provider = getAgentProvider(route);
+          label = provider.config.label;
+          model = provider.config.model;
+          send({ chunk: "" });
+          if (route === "cloud" && !provider.config.apiKey) {
+            throw new Error("Cloud API key missing in Settings Vault.");
+          }
+          const text = await scheduleProvider(paneId, provider).run({
+            messages: [{ role: "user", content: prompt }],
+            signal: controller.signal,
+            onToken: (token) => send({ chunk: token }),
+            onMetrics: (next) => {
+              metrics = next;
+              recordTelemetry(next);
+            }
+          });
+          sessionLog.record(paneId, { kind: "agent-response", text, route, model, metrics });
+          send({ chunk: "", done: true });
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : "Unknown agent error";
+          const message = controller.signal.aborted ? "Comparison was cancelled." : reason;
+          writeAppLog("WARN", `Comparison ${compareId} failed on /${route}: ${message}`);
+          send({ chunk: "", done: true, error: message });
+        }
+      })
+    );
+  } finally {
+    if (activeComparisons.get(compareId) === controller) {
+      activeComparisons.delete(compareId);
     }
   }
-  throw lastError ?? new Error("Unknown local agent error");
 }
 
 function createWindow(): void {
@@ -283,32 +1208,69 @@ function createWindow(): void {
 }
 
 app.whenReady().then(() => {
-  if (process.platform !== "win32") {
+  // Panes need a shell; every platform node-pty supports is fine as long as one can be found.
+  if (!listShellProfiles().length) {
+    dialog.showErrorBox(
+      "Vibe-ADE",
+      process.platform === "win32"
+        ? "No supported shell was found. Install PowerShell or check %ComSpec%."
+        : "No supported shell was found. Set $SHELL or install bash, zsh, fish or pwsh."
+    );
     app.quit();
     return;
   }
 
   createWindow();
   writeAppLog("INFO", "Application started.");
+  openWorkspaceCommands();
+  openWorkspaceIndex();
+  agentScheduler.setOrder(getVault("agentQueueOrder"));
+  ollamaHealth.start();
+  warmUpOllama();
 
-  ipcMain.handle("pane:create", (_, paneId: string) => {
-    createPtySession(paneId);
-    writeAppLog("INFO", `Pane created: ${paneId}`);
+  ipcMain.handle("pane:create", (_, paneId: string, shellProfile?: string) => {
+    const summary = createPtySession(paneId, shellProfile ?? "");
+    writeAppLog("INFO", `Pane created: ${paneId}${summary ? ` (${summary.name})` : ""}`);
+    return summary;
   });
 
   ipcMain.handle("pane:destroy", (_, paneId: string) => {
     destroyPtySession(paneId);
     activeAgentControllers.get(paneId)?.abort();
     activeAgentControllers.delete(paneId);
+    paneConversations.delete(paneId);
+    paneScrollback.delete(paneId);
+    paneFailures.delete(paneId);
+    panePipedContext.delete(paneId);
+    sessionLog.dropPane(paneId);
+    editProposals.dropPane(paneId);
     writeAppLog("INFO", `Pane destroyed: ${paneId}`);
   });
 
-  ipcMain.handle("pane:restart", (_, paneId: string) => {
+  ipcMain.handle("pane:clear-scrollback", (_, paneId: string) => {
+    scrollbackStore.clear(getProjectRoot(), paneId);
+  });
+
+  ipcMain.handle("pane:restart", (_, paneId: string, shellProfile?: string) => {
     destroyPtySession(paneId);
-    createPtySession(paneId);
-    writeAppLog("INFO", `Pane restarted: ${paneId}`);
+    const summary = createPtySession(paneId, shellProfile ?? "");
+    writeAppLog("INFO", `Pane restarted: ${paneId}${summary ? ` (${summary.name})` : ""}`);
+    return summary;
+  });
+
+  ipcMain.handle("shell:profiles", () => listShellProfiles().map(summarizeShellProfile));
+
+  ipcMain.handle("pane:activate", (_, paneId: string) => {
+    agentScheduler.setActivePane(paneId);
   });
 
+  ipcMain.handle(
+    "pane:pipe",
+    (_, fromPaneId: string, toPaneId: string, target: PipeTarget, source: PipeSource | null, origin?: AuditOrigin) => {
+      void pipeBetweenPanes(fromPaneId, toPaneId, target, source, origin === "palette" ? "palette" : "user");
+    }
+  );
+
   ipcMain.handle("pane:resize", (_, paneId: string, cols: number, rows: number) => {
     const p = ptySessions.get(paneId);
     if (p) {
@@ -316,7 +1278,8 @@ app.whenReady().then(() => {
     }
   });
 
-  ipcMain.handle("shell:line", (_, paneId: string, line: string) => {
+  // `origin` is "agent" for suggested commands the user ran from an answer; anything else counts as typed.
+  ipcMain.handle("shell:line", async (_, paneId: string, line: string, origin?: AuditOrigin) => {
     const p = ptySessions.get(paneId);
     if (line === "\u0003") {
       p?.write("\u0003");
@@ -324,23 +1287,42 @@ app.whenReady().then(() => {
     }
     const mode = getVault("executionMode");
     try {
-      const sanitized = sanitizeCommandForMode(line, mode);
-      const normalized = normalizeShellCommandForExe(sanitized, paneShellExe.get(paneId) ?? "");
-      p?.write(`${normalized}\r`);
+      const auditId = await enforceCommandPolicy(paneId, line, origin === "agent" ? "agent" : "user", "shell-line");
+      const normalized = normalizeShellCommandForExe(line, paneShellExe.get(paneId) ?? "");
+      if (auditId) paneAuditIds.set(paneId, auditId);
+      markUserCommand(paneId, normalized);
+      ptySessions.get(paneId)?.write(`${normalized.replace(/\r?\n/g, "\r")}\r`);
     } catch (error) {
       const message = error instanceof Error ? error.message : "Command blocked";
-      writeAppLog("WARN", `Blocked command in ${mode} mode on ${paneId}: ${message}`);
       emitPtyData(paneId, `\r\n[Vibe-ADE:${mode}] ${message}\r\n`);
     }
   });
 
-  ipcMain.handle("shell:input", (_, paneId: string, input: string) => {
-    const p = ptySessions.get(paneId);
-    if (!p) {
+  ipcMain.handle("shell:input", async (_, paneId: string, input: string) => {
+    if (!ptySessions.has(paneId)) {
       return;
     }
-    p.write(input);
-    writeAppLog("INFO", `Raw input forwarded to ${paneId} (${input.length} chars)`);
+    const isLine = input.endsWith("\r") && Boolean(input.trim());
+    try {
+      if (isLine) {
+        // At an idle prompt the line runs as a command, so Sandboxed mode checks it like a typed one; input to a running
+        // program is only audited. Shells that do not report their prompts are always treated as idle.
+        if (paneCommandWatchers.get(paneId)?.atPrompt() !== false) {
+          const auditId = await enforceCommandPolicy(paneId, input, "user", "interactive-passthrough");
+          if (auditId) paneAuditIds.set(paneId, auditId);
+        } else {
+          auditCommand(paneId, "interactive-passthrough", "user", input.trim(), null);
+        }
+      }
+      const p = ptySessions.get(paneId);
+      if (!p) return;
+      p.write(input);
+      if (isLine) markUserCommand(paneId, input);
+      writeAppLog("INFO", `Raw input forwarded to ${paneId} (${input.length} chars)`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Input blocked";
+      emitPtyData(paneId, `\r\n[Vibe-ADE:${getVault("executionMode")}] ${message}\r\n`);
+    }
   });
 
   ipcMain.handle("agent:cancel", (_, paneId: string) => {
@@ -351,36 +1333,42 @@ app.whenReady().then(() => {
     }
   });
 
-  ipcMain.handle("agent:run", async (_, paneId: string, route: AgentRoute, prompt: string) => {
+  ipcMain.handle("agent:reset", (_, paneId: string) => {
+    activeAgentControllers.get(paneId)?.abort();
+    activeAgentControllers.delete(paneId);
+    paneConversations.delete(paneId);
+    writeAppLog("INFO", `Agent conversation reset: ${paneId}`);
+  });
+
+  ipcMain.handle("agent:approve", (_, requestId: string, approved: boolean) => {
+    pendingApprovals.get(requestId)?.resolve(approved);
+  });
+
+  ipcMain.handle("agent:loop", async (_, paneId: string, goal: string) => {
     activeAgentControllers.get(paneId)?.abort();
     const controller = new AbortController();
     activeAgentControllers.set(paneId, controller);
-    emitAgentRouted(paneId, route);
     try {
-      const mode = getVault("executionMode");
-      const text = await runLocalAgentWithSignal(prompt, controller.signal);
-      if (mode === "dual-stream" && text.includes("[ACTION]")) {
-        const [thoughtRaw, actionRaw] = text.split("[ACTION]");
-        const thought = thoughtRaw.replace("[THOUGHT]", "").trim();
-        const action = actionRaw.trim();
-        mainWindow?.webContents.send("agent:chunk", { paneId, chunk: `${thought}\n`, stream: "thought" });
-        mainWindow?.webContents.send("agent:chunk", {
-          paneId,
-          chunk: `${action}\n`,
-          stream: "action",
-          done: true
-        });
-      } else {
-        const routePrefix = `[Local:${getVault("localModel")}]\n`;
-        mainWindow?.webContents.send("agent:chunk", {
-          paneId,
-          chunk: `${routePrefix}${text}\n`,
-          stream: "action",
-          done: true
-        });
-      }
+      const provider = getAgentProvider(getVault("agentLoopRoute"));
+      emitAgentRouted(paneId, provider.config);
+      writeAppLog("INFO", `Agent loop started on ${paneId} via /${provider.config.id}`);
+      sessionLog.record(paneId, { kind: "agent-request", text: `/agent ${goal}`, route: provider.config.id, model: provider.config.model });
+      const answer = await runAgentLoop(withPipedContext(paneId, goal), {
+        provider: scheduleProvider(paneId, provider),
+        stepBudget: Math.max(1, getVault("agentStepBudget")),
+        signal: controller.signal,
+        requestApproval: (call, step) => requestAgentApproval(paneId, call, step, controller.signal),
+        executeTool: (call) => {
+          writeAppLog("INFO", `Agent tool ${call.tool} on ${paneId}: ${describeToolCall(call)}`);
+          return executeAgentTool(paneId, call, controller.signal);
+        },
+        onStep: (event) => emitAgentStep(paneId, event)
+      });
+      sessionLog.record(paneId, { kind: "agent-response", text: answer, route: provider.config.id, model: provider.config.model });
+      mainWindow?.webContents.send("agent:chunk", { paneId, chunk: `${answer}\n`, stream: "action", done: true });
     } catch (error) {
-      writeAppLog("ERROR", `Agent run failed on ${paneId}: ${error instanceof Error ? error.message : "Unknown agent error"}`);
+      writeAppLog("ERROR", `Agent loop failed on ${paneId}: ${error instanceof Error ? error.message : "Unknown agent error"}`);
+      sessionLog.record(paneId, { kind: "error", text: error instanceof Error ? error.message : "Unknown agent error" });
       mainWindow?.webContents.send("agent:chunk", {
         paneId,
         chunk: "",
@@ -394,32 +1382,321 @@ app.whenReady().then(() => {
     }
   });
 
+  ipcMain.handle("edits:propose", (_, paneId: string, target: string, content: string) => {
+    return editProposals.propose(getProjectRoot(), paneId, target, content);
+  });
+
+  ipcMain.handle("edits:list", (_, paneId: string) => editProposals.listForPane(paneId));
+
+  ipcMain.handle("edits:apply", (_, proposalId: string, acceptedHunks: number[]) => {
+    const result = editProposals.apply(proposalId, acceptedHunks);
+    writeAppLog(result.status === "conflict" ? "WARN" : "INFO", `Edit proposal ${proposalId}: ${result.message}`);
+    if (result.status !== "conflict") {
+      editReviewWaiters.get(proposalId)?.(result);
+    }
+    return result;
+  });
+
+  ipcMain.handle("edits:discard", (_, proposalId: string) => {
+    const result = editProposals.discard(proposalId);
+    if (result) {
+      writeAppLog("INFO", `Edit proposal ${proposalId}: ${result.message}`);
+      editReviewWaiters.get(proposalId)?.(result);
+    }
+    return result;
+  });
+
+  ipcMain.handle("agent:context-preview", (_, paneId: string, prompt: string, options: AgentContextOptions) => {
+    return buildPromptWithContext(prompt, paneScrollback.get(paneId), options);
+  });
+
+  ipcMain.handle(
+    "agent:run",
+    (_, paneId: string, route: AgentRoute, rawPrompt: string, context?: AgentContextOptions, profile?: string) => {
+      return runAgentTurn(paneId, { route, prompt: rawPrompt, context, profile });
+    }
+  );
+
+  ipcMain.handle(
+    "agent:compare",
+    (_, compareId: string, paneId: string, prompt: string, routes: AgentRoute[], context?: AgentContextOptions) => {
+      return runComparison(compareId, paneId, prompt, routes, context);
+    }
+  );
+
+  ipcMain.handle("agent:compare-cancel", (_, compareId: string) => {
+    activeComparisons.get(compareId)?.abort();
+  });
+
+  ipcMain.handle("agent:fix", async (_, paneId: string, route: AgentRoute, notes: string, profile?: string) => {
+    const failure = paneFailures.get(paneId);
+    if (!failure) {
+      mainWindow?.webContents.send("agent:chunk", { paneId, chunk: "", error: "No failed command to fix in this pane yet.", done: true });
+      return;
+    }
+    writeAppLog("INFO", `Fix requested on ${paneId} for: ${failure.command}`);
+    await runAgentTurn(paneId, { route, prompt: buildFixPrompt(failure, notes), profile });
+  });
+
+  // Retrieved code never leaves the machine: /ask always answers through /local, even when the profile pins another route.
+  ipcMain.handle("agent:ask", async (_, paneId: string, question: string, profile?: string) => {
+    activeAgentControllers.get(paneId)?.abort();
+    const controller = new AbortController();
+    activeAgentControllers.set(paneId, controller);
+    let matches: WorkspaceMatch[];
+    try {
+      if (!workspaceIndex) {
+        throw new Error("No workspace is open.");
+      }
+      const stats = await workspaceIndex.update(
+        (progress) => mainWindow?.webContents.send("index:progress", { paneId, ...progress }),
+        controller.signal
+      );
+      matches = await workspaceIndex.search(question, ASK_TOP_K, controller.signal);
+      if (!matches.length) {
+        throw new Error("The workspace index is empty; there are no text files to search.");
+      }
+      writeAppLog("INFO", `/ask on ${paneId}: ${matches.length} excerpt(s) from ${stats.indexedFiles} indexed file(s)`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Workspace search failed";
+      writeAppLog("WARN", `/ask failed on ${paneId}: ${message}`);
+      mainWindow?.webContents.send("agent:chunk", { paneId, chunk: "", error: message, done: true });
+      return;
+    } finally {
+      if (activeAgentControllers.get(paneId) === controller) {
+        activeAgentControllers.delete(paneId);
+      }
+    }
+    mainWindow?.webContents.send("agent:sources", { paneId, sources: matches.map(({ text: _text, ...source }) => source) });
+    await runAgentTurn(paneId, { route: "local", prompt: buildAskPrompt(question, matches), profile, routeIsExplicit: true });
+  });
+
+  ipcMain.handle("commands:list", () => listCustomCommands());
+
+  ipcMain.handle("commands:run", async (_, paneId: string, name: string, args: string, context?: AgentContextOptions, profile?: string) => {
+    const command = customCommands.commands.find((candidate) => candidate.name === name);
+    if (!command) {
+      mainWindow?.webContents.send("agent:chunk", { paneId, chunk: "", error: `Unknown custom command /${name}.`, done: true });
+      return;
+    }
+    const mode = getVault("executionMode");
+    const prompt = await expandCommandTemplate(command.template, {
+      root: getProjectRoot(),
+      args,
+      cwd: paneCommandWatchers.get(paneId)?.currentCwd() ?? (mode === "system-wide" ? os.homedir() : getProjectRoot()),
+      terminal: (variable) => terminalVariable(variable, paneScrollback.get(paneId), context?.lineCount ?? DEFAULT_CONTEXT_LINES)
+    });
+    writeAppLog("INFO", `Custom command /${name} on ${paneId} (${command.file})`);
+    await runAgentTurn(paneId, {
+      route: command.route ?? "local",
+      prompt,
+      context,
+      model: command.model ?? undefined,
+      profile,
+      routeIsExplicit: Boolean(command.route),
+      variablesExpanded: true
+    });
+  });
+
   ipcMain.handle("vault:get", () => {
     return {
       cloudApiKey: decryptKey(getVault("cloudApiKeyEncrypted")),
       cloudApiBaseUrl: getVault("cloudApiBaseUrl"),
-      localModel: getVault("localModel"),
       cloudModel: getVault("cloudModel"),
       executionMode: getVault("executionMode"),
-      systemWideAcknowledged: getVault("systemWideAcknowledged")
+      systemWideAcknowledged: getVault("systemWideAcknowledged"),
+      policyPreset: getVault("policyPreset"),
+      agentProviders: getStoredProviderConfigs(),
+      cloudFallback: getWorkspaceSettings().cloudFallback,
+      agentLoopRoute: getVault("agentLoopRoute"),
+      agentStepBudget: getVault("agentStepBudget"),
+      agentProfiles: getVault("agentProfiles"),
+      agentQueueOrder: getVault("agentQueueOrder"),
+      embeddingModel: getVault("embeddingModel"),
+      ollamaWarmUp: getVault("ollamaWarmUp"),
+      shellProfiles: getVault("shellProfiles"),
+      defaultShellProfile: getVault("defaultShellProfile")
     };
   });
 
-  ipcMain.handle("vault:set", (_, next: { cloudApiKey?: string; cloudApiBaseUrl?: string; localModel?: string; cloudModel?: string; executionMode?: ExecutionMode; systemWideAcknowledged?: boolean }) => {
-    if (typeof next.systemWideAcknowledged === "boolean") {
-      setVault("systemWideAcknowledged", next.systemWideAcknowledged);
+  ipcMain.handle(
+    "vault:set",
+    async (
+      _,
+      next: {
+        cloudApiKey?: string;
+        cloudApiBaseUrl?: string;
+        cloudModel?: string;
+        executionMode?: ExecutionMode;
+        systemWideAcknowledged?: boolean;
+        policyPreset?: PolicyPreset;
+        agentProviders?: AgentProviderConfig[];
+        cloudFallback?: CloudFallbackPolicy;
+        agentLoopRoute?: string;
+        agentStepBudget?: number;
+        agentProfiles?: AgentProfile[];
+        agentQueueOrder?: AgentQueueOrder;
+        embeddingModel?: string;
+        ollamaWarmUp?: boolean;
+        shellProfiles?: ShellProfile[];
+        defaultShellProfile?: string;
+      }
+    ) => {
+      if (Array.isArray(next.agentProviders)) {
+        validateProviderConfigs(next.agentProviders, RESERVED_AGENT_ROUTES);
+        await assertProviderModelsInstalled(next.agentProviders);
+      }
+      const agentProfiles = Array.isArray(next.agentProfiles) ? normalizeAgentProfiles(next.agentProfiles) : null;
+      if (agentProfiles) {
+        const routes = [...(next.agentProviders ?? getStoredProviderConfigs()).map((config) => config.id), "cloud"];
+        validateAgentProfiles(agentProfiles, routes);
+      }
+      const shellProfiles = Array.isArray(next.shellProfiles) ? normalizeShellProfiles(next.shellProfiles) : null;
+      if (shellProfiles) validateShellProfiles(shellProfiles);
+      if (typeof next.defaultShellProfile === "string" && next.defaultShellProfile) {
+        const names = [...(shellProfiles ?? getVault("shellProfiles")), ...detectShellProfiles(process.platform, process.env)].map(
+          (profile) => profile.name
+        );
+        if (!names.includes(next.defaultShellProfile)) {
+          throw new Error(`Default shell profile "${next.defaultShellProfile}" does not exist.`);
+        }
+      }
+      const embeddingModel = typeof next.embeddingModel === "string" ? next.embeddingModel.trim() : null;
+      if (embeddingModel !== null && embeddingModel !== getVault("embeddingModel")) {
+        if (!embeddingModel) {
+          throw new Error("Embedding model cannot be empty.");
+        }
+        await assertOllamaModelInstalled(getEmbeddingTarget().endpoint, embeddingModel, "/ask embeddings");
+      }
+      const acknowledged = typeof next.systemWideAcknowledged === "boolean" ? next.systemWideAcknowledged : getVault("systemWideAcknowledged");
+      if (next.executionMode === "system-wide" && !acknowledged) {
+        throw new Error("System-Wide mode requires acknowledgement in Settings Vault.");
+      }
+      if (
+        typeof next.agentStepBudget === "number" &&
+        (!Number.isInteger(next.agentStepBudget) || next.agentStepBudget < 1 || next.agentStepBudget > 50)
+      ) {
+        throw new Error("Agent step budget must be between 1 and 50.");
+      }
+      if (next.policyPreset !== undefined && !POLICY_PRESETS.includes(next.policyPreset)) {
+        throw new Error(`Sandbox policy must be one of ${POLICY_PRESETS.join(", ")}.`);
+      }
+      // Everything is checked above, so a rejected save leaves the vault as it was.
+      if (typeof next.systemWideAcknowledged === "boolean") {
+        setVault("systemWideAcknowledged", next.systemWideAcknowledged);
+      }
+      if (Array.isArray(next.agentProviders)) {
+        setProviderConfigs(next.agentProviders);
+        reloadCustomCommands();
+        void ollamaHealth.check();
+      }
+      if (typeof next.cloudApiKey === "string") setVault("cloudApiKeyEncrypted", encryptKey(next.cloudApiKey));
+      if (typeof next.cloudApiBaseUrl === "string") setVault("cloudApiBaseUrl", next.cloudApiBaseUrl);
+      if (typeof next.cloudModel === "string") setVault("cloudModel", next.cloudModel);
+      if (typeof next.executionMode === "string") setVault("executionMode", next.executionMode);
+      if (next.policyPreset) setVault("policyPreset", next.policyPreset);
+      if (typeof next.cloudFallback === "string") setWorkspaceSettings({ cloudFallback: next.cloudFallback });
+      if (typeof next.agentLoopRoute === "string") setVault("agentLoopRoute", next.agentLoopRoute);
+      if (typeof next.agentStepBudget === "number") setVault("agentStepBudget", next.agentStepBudget);
+      if (agentProfiles) setVault("agentProfiles", agentProfiles);
+      if (next.agentQueueOrder === "fifo" || next.agentQueueOrder === "active-first") {
+        setVault("agentQueueOrder", next.agentQueueOrder);
+        agentScheduler.setOrder(next.agentQueueOrder);
+      }
+      if (embeddingModel) setVault("embeddingModel", embeddingModel);
+      if (typeof next.ollamaWarmUp === "boolean") setVault("ollamaWarmUp", next.ollamaWarmUp);
+      if (shellProfiles) setVault("shellProfiles", shellProfiles);
+      if (typeof next.defaultShellProfile === "string") setVault("defaultShellProfile", next.defaultShellProfile);
+      return true;
+    }
+  );
+
+  ipcMain.handle("agent:test", (_, config: AgentProviderConfig) => testAgentProvider(config));
+
+  ipcMain.handle("sessions:export", (_, paneId: string) => {
+    const transcript = buildTranscript(
+      paneId,
+      getProjectRoot(),
+      shellKind(paneShellExe.get(paneId) ?? ""),
+      sessionLog.list(paneId),
+      getPaneScrollback(paneId).tail(SESSION_SCROLLBACK_LINES)
+    );
+    const result = writeSessionExport(getProjectRoot(), transcript);
+    writeAppLog("INFO", `Session for ${paneId} exported to ${result.markdownPath}`);
+    return result;
+  });
+
+  ipcMain.handle("audit:list", (_, filter: AuditFilter) => filterAuditLog(readAuditLog(getAuditLogFile()), filter ?? {}));
+
+  ipcMain.handle("audit:export", (_, filter: AuditFilter, format: AuditExportFormat) => {
+    const records = filterAuditLog(readAuditLog(getAuditLogFile()), filter ?? {});
+    const result = writeAuditExport(getProjectRoot(), records, format === "csv" ? "csv" : "jsonl");
+    writeAppLog("INFO", `Exported ${result.records} audit record(s) to ${result.path}`);
+    return result;
+  });
+
+  ipcMain.handle("telemetry:summary", () => summarizeTelemetry(getProjectRoot()));
+
+  ipcMain.handle("telemetry:clear", () => {
+    clearTelemetry(getProjectRoot());
+    writeAppLog("INFO", "Agent telemetry cleared for the workspace.");
+    return true;
+  });
+
+  ipcMain.handle("ollama:models", (_, endpoint: string) => listOllamaModels(endpoint));
+
+  ipcMain.handle("ollama:health", () => ollamaHealth.list());
+
+  ipcMain.handle("ollama:health-check", async () => {
+    await ollamaHealth.check();
+    return ollamaHealth.list();
+  });
+
+  ipcMain.handle("ollama:show", (_, endpoint: string, name: string) => showOllamaModel(endpoint, name));
+
+  ipcMain.handle("ollama:delete", async (_, endpoint: string, name: string) => {
+    await deleteOllamaModel(endpoint, name);
+    writeAppLog("INFO", `Deleted Ollama model ${name} from ${endpoint}`);
+    return true;
+  });
+
+  ipcMain.handle("ollama:pull", async (_, endpoint: string, name: string) => {
+    const model = name.trim();
+    if (!model) {
+      throw new Error("Enter a model name to pull, e.g. llama3.2 or qwen2.5-coder:7b.");
     }
-    if (next.executionMode === "system-wide" && !getVault("systemWideAcknowledged")) {
-      throw new Error("System-Wide mode requires acknowledgement in Settings Vault.");
+    if (activeModelPulls.has(model)) {
+      throw new Error(`${model} is already being pulled.`);
     }
-    if (typeof next.cloudApiKey === "string") setVault("cloudApiKeyEncrypted", encryptKey(next.cloudApiKey));
-    if (typeof next.cloudApiBaseUrl === "string") setVault("cloudApiBaseUrl", next.cloudApiBaseUrl);
-    if (typeof next.localModel === "string") setVault("localModel", next.localModel);
-    if (typeof next.cloudModel === "string") setVault("cloudModel", next.cloudModel);
-    if (typeof next.executionMode === "string") setVault("executionMode", next.executionMode);
+    const controller = new AbortController();
+    activeModelPulls.set(model, controller);
+    const emit = (progress: OllamaPullProgress): void => {
+      mainWindow?.webContents.send("ollama:pull-progress", progress);
+    };
+    writeAppLog("INFO", `Pulling Ollama model ${model} from ${endpoint}`);
+    try {
+      await pullOllamaModel(endpoint, model, emit, controller.signal);
+      writeAppLog("INFO", `Pulled Ollama model ${model}`);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Model pull failed.";
+      writeAppLog("WARN", `Pull of ${model} failed: ${message}`);
+      emit({ model, status: "failed", completed: 0, total: 0, done: true, error: message });
+      throw error;
+    } finally {
+      activeModelPulls.delete(model);
+    }
+  });
+
+  ipcMain.handle("ollama:cancel-pull", (_, name: string) => {
+    activeModelPulls.get(name.trim())?.abort();
     return true;
   });
 
+  ipcMain.handle("agent:providers", () => {
+    return getProviderConfigs().map(({ id, kind, label, model }) => ({ id, kind, label, model }));
+  });
+
   ipcMain.handle("workspace:create", async () => {
     const result = await dialog.showOpenDialog({
       title: "Create New Project",
@@ -431,6 +1708,9 @@ app.whenReady().then(() => {
     }
     workspaceRootPath = result.filePaths[0];
     writeAppLog("INFO", `Workspace selected via create: ${workspaceRootPath}`);
+    openWorkspaceCommands();
+    openWorkspaceIndex();
+    warmUpOllama();
     return workspaceRootPath;
   });
 
@@ -445,6 +1725,9 @@ app.whenReady().then(() => {
     }
     workspaceRootPath = result.filePaths[0];
     writeAppLog("INFO", `Workspace selected via open: ${workspaceRootPath}`);
+    openWorkspaceCommands();
+    openWorkspaceIndex();
+    warmUpOllama();
     return workspaceRootPath;
   });
 
@@ -463,13 +1746,27 @@ app.on("window-all-closed", () => {
   for (const p of ptySessions.values()) {
     p.kill();
   }
-  for (const controller of activeAgentControllers.values()) {
+  for (const paneId of [...panePipeFiles.keys()]) {
+    releasePipeFile(paneId);
+  }
+  scrollbackStore.flush();
+  for (const controller of [...activeAgentControllers.values(), ...activeModelPulls.values(), ...activeComparisons.values()]) {
     controller.abort();
   }
   activeAgentControllers.clear();
+  activeModelPulls.clear();
+  activeComparisons.clear();
+  stopCommandWatch?.();
+  stopCommandWatch = null;
+  workspaceIndex?.dispose();
+  workspaceIndex = null;
+  ollamaHealth.dispose();
+  paneConversations.clear();
+  paneScrollback.clear();
   ptySessions.clear();
   paneShellExe.clear();
-  if (process.platform !== "darwin") app.quit();
+  // Panes and background work are torn down with the window, so there is nothing to come back to on macOS either.
+  app.quit();
 });
 
 process.on("uncaughtException", (error) => {
@@ -0,0 +1,175 @@
+import { trimTrailingSlash } from "./agentProviders";
+import { getOllamaVersion, listLoadedOllamaModels, sameOllamaModel, warmOllamaModel } from "./ollamaModels";
+
+export type OllamaHealthState = "unknown" | "up" | "loading" | "down";
+
+export interface OllamaEndpointHealth {
+  endpoint: string;
+  state: OllamaHealthState;
+  version: string;
+  // Models held in memory according to `/api/ps`.
+  loadedModels: string[];
+  // Models a warm-up or agent request is waiting on while `state` is "loading".
+  loadingModels: string[];
+  latencyMs: number | null;
+  checkedAt: number;
+  failures: number;
+  error?: string;
+}
+
+interface EndpointRecord {
+  version: string;
+  loadedModels: string[];
+  loading: Set<string>;
+  latencyMs: number | null;
+  checkedAt: number;
+  failures: number;
+  // Whether any probe has succeeded yet; until then a single failure leaves the state "unknown".
+  reached: boolean;
+  error?: string;
+}
+
+const UP_INTERVAL_MS = 15000;
+const DOWN_INTERVAL_MS = 5000;
+// Consecutive failed probes before the breaker opens; one blip does not fail every queued request.
+const FAILURE_THRESHOLD = 2;
+
+// Probes every configured Ollama endpoint (`/api/version` and `/api/ps`) in the background. Once an endpoint fails
+// FAILURE_THRESHOLD probes in a row its breaker opens and `assertAvailable` fails requests straight away instead of
+// letting them sit through the provider's timeout and retries; the next successful probe closes it again.
+export class OllamaHealthMonitor {
+  private readonly records = new Map<string, EndpointRecord>();
+  private timer: NodeJS.Timeout | null = null;
+  private checking: Promise<void> | null = null;
+  private disposed = false;
+
+  constructor(
+    private readonly endpoints: () => string[],
+    private readonly onChange: (health: OllamaEndpointHealth[]) => void,
+    private readonly onTransition: (endpoint: string, state: OllamaHealthState, error?: string) => void
+  ) {}
+
+  start(): void {
+    void this.check();
+  }
+
+  list(): OllamaEndpointHealth[] {
+    return [...this.records.entries()].map(([endpoint, record]) => ({
+      endpoint,
+      state: this.stateOf(record),
+      version: record.version,
+      loadedModels: record.loadedModels,
+      loadingModels: [...record.loading],
+      latencyMs: record.latencyMs,
+      checkedAt: record.checkedAt,
+      failures: record.failures,
+      error: record.error
+    }));
+  }
+
+  // Probes now; concurrent callers share the probe already in flight.
+  check(): Promise<void> {
+    this.checking ??= this.probeAll().finally(() => {
+      this.checking = null;
+      this.schedule();
+    });
+    return this.checking;
+  }
+
+  assertAvailable(endpoint: string): void {
+    const record = this.records.get(trimTrailingSlash(endpoint));
+    if (!record || this.stateOf(record) !== "down") return;
+    const seconds = Math.round((Date.now() - record.checkedAt) / 1000);
+    throw new Error(
+      `Ollama is down: ${record.error ?? `no answer from ${trimTrailingSlash(endpoint)}`} (checked ${seconds}s ago). ` +
+        "Start it with `ollama serve`; requests resume automatically once it answers."
+    );
+  }
+
+  // Marks `model` as loading until the returned callback runs, unless `/api/ps` already lists it.
+  beginLoad(endpoint: string, model: string): () => void {
+    const record = this.records.get(trimTrailingSlash(endpoint));
+    if (!record || record.loadedModels.some((name) => sameOllamaModel(name, model))) {
+      return () => undefined;
+    }
+    record.loading.add(model);
+    this.emit();
+    let ended = false;
+    return () => {
+      if (ended) return;
+      ended = true;
+      record.loading.delete(model);
+      this.emit();
+      void this.check();
+    };
+  }
+
+  async warmUp(endpoint: string, model: string): Promise<void> {
+    await this.check();
+    const record = this.records.get(trimTrailingSlash(endpoint));
+    if (!record || this.stateOf(record) === "down") {
+      throw new Error(`Ollama at ${trimTrailingSlash(endpoint)} is not reachable.`);
+    }
+    const done = this.beginLoad(endpoint, model);
+    try {
+      await warmOllamaModel(endpoint, model);
+    } finally {
+      done();
+    }
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private stateOf(record: EndpointRecord): OllamaHealthState {
+    if (record.failures >= FAILURE_THRESHOLD) return "down";
+    if (!record.reached) return "unknown";
+    return record.loading.size ? "loading" : "up";
+  }
+
+  private async probeAll(): Promise<void> {
+    const endpoints = [...new Set(this.endpoints().map(trimTrailingSlash))];
+    for (const endpoint of [...this.records.keys()]) {
+      if (!endpoints.includes(endpoint)) this.records.delete(endpoint);
+    }
+    await Promise.all(endpoints.map((endpoint) => this.probe(endpoint)));
+    this.emit();
+  }
+
+  private async probe(endpoint: string): Promise<void> {
+    let record = this.records.get(endpoint);
+    if (!record) {
+      record = { version: "", loadedModels: [], loading: new Set(), latencyMs: null, checkedAt: 0, failures: 0, reached: false };
+      this.records.set(endpoint, record);
+    }
+    const before = this.stateOf(record);
+    const startedAt = Date.now();
+    try {
+      const [version, loadedModels] = await Promise.all([getOllamaVersion(endpoint), listLoadedOllamaModels(endpoint)]);
+      Object.assign(record, { version, loadedModels, latencyMs: Date.now() - startedAt, failures: 0, reached: true, error: undefined });
+    } catch (error) {
+      record.failures += 1;
+      record.latencyMs = null;
+      record.error = error instanceof Error ? error.message : "probe failed";
+    }
+    record.checkedAt = Date.now();
+    const after = this.stateOf(record);
+    if (before !== after && (before === "down" || after === "down" || before === "unknown")) {
+      this.onTransition(endpoint, after, record.error);
+    }
+  }
+
+  private schedule(): void {
+    if (this.disposed) return;
+    if (this.timer) clearTimeout(this.timer);
+    const failing = [...this.records.values()].some((record) => record.failures > 0);
+    this.timer = setTimeout(() => void this.check(), failing ? DOWN_INTERVAL_MS : UP_INTERVAL_MS);
+  }
+
+  private emit(): void {
+    if (!this.disposed) this.onChange(this.list());
+  }
+}
@@ -0,0 +1,226 @@
+import { readLines, trimTrailingSlash } from "./agentProviders";
+
+export interface OllamaModel {
+  name: string;
+  size: number;
+  family: string;
+  parameterSize: string;
+  quantization: string;
+  modifiedAt: string;
+}
+
+export interface OllamaModelDetails {
+  name: string;
+  family: string;
+  parameterSize: string;
+  quantization: string;
+  format: string;
+  contextLength: number | null;
+  parameters: string;
+  template: string;
+  license: string;
+}
+
+export interface OllamaPullProgress {
+  model: string;
+  status: string;
+  completed: number;
+  total: number;
+  done: boolean;
+  error?: string;
+}
+
+interface OllamaTagsResponse {
+  models?: Array<{
+    name?: string;
+    model?: string;
+    size?: number;
+    modified_at?: string;
+    details?: { family?: string; parameter_size?: string; quantization_level?: string };
+  }>;
+}
+
+interface OllamaShowResponse {
+  details?: { family?: string; parameter_size?: string; quantization_level?: string; format?: string };
+  model_info?: Record<string, unknown>;
+  parameters?: string;
+  template?: string;
+  license?: string;
+}
+
+const REQUEST_TIMEOUT_MS = 5000;
+const EMBED_TIMEOUT_MS = 120000;
+// Loading a large model from disk can take minutes on a cold machine.
+const WARM_UP_TIMEOUT_MS = 300000;
+const MAX_LICENSE_CHARS = 4000;
+
+async function ollamaRequest(endpoint: string, path: string, init: RequestInit = {}): Promise<Response> {
+  const base = trimTrailingSlash(endpoint);
+  let res: Response;
+  try {
+    res = await fetch(`${base}${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+      signal: init.signal ?? AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+  } catch (error) {
+    if (init.signal?.aborted && (init.signal.reason as Error | undefined)?.name !== "TimeoutError") {
+      throw new Error("Model pull was cancelled.");
+    }
+    throw new Error(`Cannot reach Ollama at ${base}: ${error instanceof Error ? error.message : "request failed"}`);
+  }
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    let detail = text;
+    try {
+      detail = (JSON.parse(text) as { error?: string }).error ?? text;
+    } catch {
+      // Plain-text error bodies are shown as-is.
+    }
+    throw new Error(`Ollama error: ${res.status}${detail ? ` ${detail}` : ""}`);
+  }
+  return res;
+}
+
+// Ollama stores untagged models as `<name>:latest`, so `llama3.2` and `llama3.2:latest` are the same model.
+export function sameOllamaModel(a: string, b: string): boolean {
+  const normalize = (name: string): string => {
+    const trimmed = name.trim().toLowerCase();
+    return trimmed.includes(":") ? trimmed : `${trimmed}:latest`;
+  };
+  return normalize(a) === normalize(b);
+}
+
+export async function listOllamaModels(endpoint: string): Promise<OllamaModel[]> {
+  const res = await ollamaRequest(endpoint, "/api/tags");
+  const body = (await res.json()) as OllamaTagsResponse;
+  return (body.models ?? [])
+    .map((model) => ({
+      name: model.name ?? model.model ?? "",
+      size: model.size ?? 0,
+      family: model.details?.family ?? "",
+      parameterSize: model.details?.parameter_size ?? "",
+      quantization: model.details?.quantization_level ?? "",
+      modifiedAt: model.modified_at ?? ""
+    }))
+    .filter((model) => model.name)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getOllamaVersion(endpoint: string): Promise<string> {
+  const res = await ollamaRequest(endpoint, "/api/version");
+  const body = (await res.json()) as { version?: string };
+  return body.version ?? "";
+}
+
+// Models Ollama currently holds in memory (`/api/ps`).
+export async function listLoadedOllamaModels(endpoint: string): Promise<string[]> {
+  const res = await ollamaRequest(endpoint, "/api/ps");
+  const body = (await res.json()) as { models?: Array<{ name?: string; model?: string }> };
+  return (body.models ?? []).map((model) => model.name ?? model.model ?? "").filter(Boolean);
+}
+
+// A generate request without a prompt makes Ollama load the model and return once it is in memory.
+export async function warmOllamaModel(endpoint: string, model: string): Promise<void> {
+  await ollamaRequest(endpoint, "/api/generate", {
+    method: "POST",
+    body: JSON.stringify({ model, stream: false }),
+    signal: AbortSignal.timeout(WARM_UP_TIMEOUT_MS)
+  });
+}
+
+export async function showOllamaModel(endpoint: string, name: string): Promise<OllamaModelDetails> {
+  const res = await ollamaRequest(endpoint, "/api/show", { method: "POST", body: JSON.stringify({ model: name }) });
+  const body = (await res.json()) as OllamaShowResponse;
+  const contextKey = Object.keys(body.model_info ?? {}).find((key) => key.endsWith(".context_length"));
+  const contextLength = contextKey ? Number(body.model_info?.[contextKey]) : NaN;
+  const license = body.license ?? "";
+  return {
+    name,
+    family: body.details?.family ?? "",
+    parameterSize: body.details?.parameter_size ?? "",
+    quantization: body.details?.quantization_level ?? "",
+    format: body.details?.format ?? "",
+    contextLength: Number.isFinite(contextLength) ? contextLength : null,
+    parameters: body.parameters ?? "",
+    template: body.template ?? "",
+    license: license.length > MAX_LICENSE_CHARS ? `${license.slice(0, MAX_LICENSE_CHARS)}\n[truncated]` : license
+  };
+}
+
+export async function deleteOllamaModel(endpoint: string, name: string): Promise<void> {
+  await ollamaRequest(endpoint, "/api/delete", { method: "DELETE", body: JSON.stringify({ model: name }) });
+}
+
+// Streams `/api/pull` progress. Ollama reports one status line per layer, each with its own completed/total bytes.
+export async function pullOllamaModel(
+  endpoint: string,
+  name: string,
+  onProgress: (progress: OllamaPullProgress) => void,
+  signal: AbortSignal
+): Promise<void> {
+  const res = await ollamaRequest(endpoint, "/api/pull", { method: "POST", body: JSON.stringify({ model: name, stream: true }), signal });
+  let last: OllamaPullProgress = { model: name, status: "starting", completed: 0, total: 0, done: false };
+  try {
+    await readLines(res, (lines) => {
+      for (const line of lines) {
+        const body = JSON.parse(line) as { status?: string; completed?: number; total?: number; error?: string };
+        if (body.error) {
+          throw new Error(`Ollama error: ${body.error}`);
+        }
+        last = {
+          model: name,
+          status: body.status ?? last.status,
+          completed: body.completed ?? 0,
+          total: body.total ?? 0,
+          done: body.status === "success"
+        };
+        onProgress(last);
+      }
+    });
+  } catch (error) {
+    if (signal.aborted) {
+      throw new Error("Model pull was cancelled.");
+    }
+    throw error;
+  }
+  if (!last.done) {
+    throw new Error(`Pull of ${name} ended before Ollama reported success.`);
+  }
+}
+
+// Embeds a batch of texts with `/api/embed`; vectors come back in input order.
+export async function embedWithOllama(endpoint: string, model: string, input: string[], signal?: AbortSignal): Promise<number[][]> {
+  const timeout = AbortSignal.timeout(EMBED_TIMEOUT_MS);
+  let res: Response;
+  try {
+    res = await ollamaRequest(endpoint, "/api/embed", {
+      method: "POST",
+      body: JSON.stringify({ model, input, truncate: true }),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+    });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new Error("Embedding request was cancelled.");
+    }
+    throw error;
+  }
+  const body = (await res.json()) as { embeddings?: number[][] };
+  if (!Array.isArray(body.embeddings) || body.embeddings.length !== input.length) {
+    throw new Error(`Ollama returned no embeddings for ${model}. Is it an embedding model?`);
+  }
+  return body.embeddings;
+}
+
+// Refuses model names Ollama does not have, so a typo surfaces in the vault rather than as a 404 mid-conversation.
+export async function assertOllamaModelInstalled(endpoint: string, model: string, label: string): Promise<void> {
+  let installed: OllamaModel[];
+  try {
+    installed = await listOllamaModels(endpoint);
+  } catch (error) {
+    throw new Error(`${label}: cannot verify model "${model}". ${error instanceof Error ? error.message : ""}`.trim());
+  }
+  if (!installed.some((candidate) => sameOllamaModel(candidate.name, model))) {
+    throw new Error(`${label}: model "${model}" is not installed in Ollama. Pull it from the Settings Vault first.`);
+  }
+}
@@ -0,0 +1,101 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { ShellKind } from "./commandFailures";
+
+export type PipeSource = "output" | "answer";
+// `agent` attaches the text to the target pane's next prompt, `shell` stores it in a shell variable, `stdin` types it
+// into whatever program is in the foreground.
+export type PipeTarget = "agent" | "shell" | "stdin";
+
+export interface PipePayload {
+  fromPaneId: string;
+  source: PipeSource;
+  // What the text is, e.g. "output of `npm run dev`".
+  label: string;
+  text: string;
+}
+
+export interface ShellAssignment {
+  input: string;
+  // The temp file `%VIBE_PIPE%` names in cmd.exe. It stays until the variable is replaced or the shell ends, and the
+  // caller deletes it then with `removePipeFile`.
+  file: string | null;
+}
+
+export interface PaneSnapshot {
+  lastCommand: string;
+  output: string[];
+  lastAnswer: string | null;
+  // True when the pane's latest activity was an agent answer rather than a typed command.
+  answerIsNewer: boolean;
+}
+
+const MAX_PIPE_LINES = 400;
+const MAX_PIPE_CHARS = 20000;
+
+function clip(text: string): string {
+  return text.length > MAX_PIPE_CHARS ? text.slice(text.length - MAX_PIPE_CHARS) : text;
+}
+
+// Picks the requested source, or whichever of the last command and the last agent answer happened most recently.
+export function resolvePipePayload(fromPaneId: string, snapshot: PaneSnapshot, source: PipeSource | null): PipePayload {
+  const wantsAnswer = source === "answer" || (!source && snapshot.answerIsNewer);
+  if (wantsAnswer) {
+    if (!snapshot.lastAnswer?.trim()) {
+      throw new Error(`${fromPaneId} has no agent answer to pipe yet.`);
+    }
+    return { fromPaneId, source: "answer", label: "last agent answer", text: clip(snapshot.lastAnswer.trim()) };
+  }
+  if (!snapshot.lastCommand) {
+    throw new Error(`${fromPaneId} has not run a command yet.`);
+  }
+  const output = snapshot.output.slice(-MAX_PIPE_LINES).join("\n").replace(/^\s*\n/, "").trimEnd();
+  return { fromPaneId, source: "output", label: `output of \`${snapshot.lastCommand}\``, text: clip(output) };
+}
+
+export function formatPipedContext(payloads: PipePayload[]): string {
+  return payloads
+    .map((payload) => `--- Piped from ${payload.fromPaneId}: ${payload.label} ---\n${payload.text || "(no output)"}\n--- End piped context ---`)
+    .join("\n\n");
+}
+
+// Shell input that stores the text in `$VibePipe` (PowerShell) or `$VIBE_PIPE` (POSIX shells) without interpreting it.
+// cmd.exe has no here-strings, so it gets a temp file and `%VIBE_PIPE%` holds its path; fish reads the same kind of
+// file into the variable and deletes it straight away.
+export function buildShellAssignment(shell: ShellKind, raw: string): ShellAssignment {
+  const text = raw.replace(/\r\n?/g, "\n");
+  if (shell === "pwsh" || shell === "powershell") {
+    // A line starting with '@ would close the here-string early.
+    const body = text.replace(/^'@/gm, " '@");
+    return { input: `$VibePipe = @'\r${body.split("\n").join("\r")}\r'@\r`, file: null };
+  }
+  if (shell === "cmd" || shell === "fish") {
+    const file = path.join(os.tmpdir(), `vibe-pipe-${crypto.randomUUID()}.txt`);
+    fs.writeFileSync(file, text, "utf8");
+    return shell === "cmd"
+      ? { input: `set "VIBE_PIPE=${file}"\r`, file }
+      : { input: `set -g VIBE_PIPE (string collect < '${file}'); command rm -f '${file}'\r`, file: null };
+  }
+  const marker = `VIBE_PIPE_${crypto.randomBytes(4).toString("hex").toUpperCase()}`;
+  return { input: `VIBE_PIPE=$(cat <<'${marker}'\r${text.split("\n").join("\r")}\r${marker}\r)\r`, file: null };
+}
+
+export function removePipeFile(file: string): void {
+  try {
+    fs.rmSync(file, { force: true });
+  } catch {
+    // The temp folder is swept by the OS eventually; a file cmd.exe still holds open is not worth an error.
+  }
+}
+
+export function buildStdinInput(text: string): string {
+  return `${text.replace(/\r?\n/g, "\r")}\r`;
+}
+
+export function describeShellAssignment(shell: ShellKind): string {
+  if (shell === "pwsh" || shell === "powershell") return "$VibePipe";
+  if (shell === "cmd") return "the file named by %VIBE_PIPE%";
+  return "$VIBE_PIPE";
+}
@@ -1,14 +1,217 @@
 import { contextBridge, ipcRenderer } from "electron";
 
 type ExecutionMode = "sandboxed" | "system-wide" | "dual-stream";
+type PolicyPreset = "strict" | "standard" | "permissive";
+type AgentProviderKind = "ollama" | "openai-compatible" | "mock";
+type CloudFallbackPolicy = "never" | "on-error" | "on-timeout";
+type AgentQueueOrder = "fifo" | "active-first";
+
+interface AgentProviderConfig {
+  id: string;
+  kind: AgentProviderKind;
+  label: string;
+  endpoint: string;
+  model: string;
+  apiKey: string;
+  timeoutMs: number;
+  retries: number;
+  maxConcurrent: number;
+}
+
+interface AgentProviderSummary {
+  id: string;
+  kind: AgentProviderKind;
+  label: string;
+  model: string;
+}
+
+interface AgentProfile {
+  name: string;
+  route: string;
+  model: string;
+  systemPrompt: string;
+  options: Record<string, number | string | string[]>;
+}
+
+interface ShellProfile {
+  name: string;
+  executable: string;
+  args: string[];
+  env: Record<string, string>;
+  startupCommand: string;
+  icon: string;
+}
+
+// `detected` profiles come from installed shells rather than the vault.
+interface ShellProfileSummary {
+  name: string;
+  executable: string;
+  icon: string;
+  detected: boolean;
+}
+
+// A pane's shell could not start; `alternatives` are the other profiles whose executable exists.
+interface ShellSpawnFailedEvent {
+  paneId: string;
+  profile: string;
+  error: string;
+  alternatives: ShellProfileSummary[];
+}
 
 interface VaultSettings {
   cloudApiKey: string;
   cloudApiBaseUrl: string;
-  localModel: string;
   cloudModel: string;
   executionMode: ExecutionMode;
   systemWideAcknowledged: boolean;
+  policyPreset: PolicyPreset;
+  agentProviders: AgentProviderConfig[];
+  cloudFallback: CloudFallbackPolicy;
+  agentLoopRoute: string;
+  agentStepBudget: number;
+  agentProfiles: AgentProfile[];
+  agentQueueOrder: AgentQueueOrder;
+  embeddingModel: string;
+  ollamaWarmUp: boolean;
+  shellProfiles: ShellProfile[];
+  defaultShellProfile: string;
+}
+
+interface AgentContextOptions {
+  attachOutput: boolean;
+  lineCount: number;
+}
+
+interface AgentTestResult {
+  ok: boolean;
+  message: string;
+}
+
+interface OllamaModel {
+  name: string;
+  size: number;
+  family: string;
+  parameterSize: string;
+  quantization: string;
+  modifiedAt: string;
+}
+
+interface OllamaModelDetails {
+  name: string;
+  family: string;
+  parameterSize: string;
+  quantization: string;
+  format: string;
+  contextLength: number | null;
+  parameters: string;
+  template: string;
+  license: string;
+}
+
+interface OllamaPullProgress {
+  model: string;
+  status: string;
+  completed: number;
+  total: number;
+  done: boolean;
+  error?: string;
+}
+
+type OllamaHealthState = "unknown" | "up" | "loading" | "down";
+
+// One Ollama endpoint as the background health check last saw it; "down" means requests to it fail fast.
+interface OllamaEndpointHealth {
+  endpoint: string;
+  state: OllamaHealthState;
+  version: string;
+  loadedModels: string[];
+  loadingModels: string[];
+  latencyMs: number | null;
+  checkedAt: number;
+  failures: number;
+  error?: string;
+}
+
+interface CustomCommandSummary {
+  name: string;
+  description: string;
+  route: string | null;
+  model: string | null;
+  file: string;
+}
+
+interface CustomCommandList {
+  commands: CustomCommandSummary[];
+  errors: string[];
+}
+
+interface AgentRunMetrics {
+  route: string;
+  model: string;
+  ok: boolean;
+  startedAt: number;
+  firstTokenMs: number | null;
+  totalMs: number;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  tokensPerSecond: number | null;
+  retries: number;
+}
+
+interface AgentMetricsEvent extends AgentRunMetrics {
+  paneId: string;
+}
+
+type AuditOrigin = "user" | "agent" | "palette";
+type AuditInputMode = "shell-line" | "interactive-passthrough" | "tool-call" | "pipe";
+type AuditPolicyOutcome = "allow" | "deny" | "confirmed" | "declined";
+type AuditExportFormat = "jsonl" | "csv";
+
+interface AuditRecord {
+  id: string;
+  ts: string;
+  paneId: string;
+  inputMode: AuditInputMode;
+  origin: AuditOrigin;
+  command: string;
+  executionMode: string;
+  policy: AuditPolicyOutcome | null;
+  policyReason: string | null;
+  exitCode: number | null;
+}
+
+interface AuditFilter {
+  paneId?: string;
+  origin?: AuditOrigin;
+  policy?: AuditPolicyOutcome;
+  text?: string;
+}
+
+interface AuditExportResult {
+  path: string;
+  records: number;
+}
+
+interface TelemetryDay {
+  day: string;
+  runs: number;
+  avgTotalMs: number;
+  avgTokensPerSecond: number | null;
+}
+
+interface ModelTelemetry {
+  route: string;
+  model: string;
+  runs: number;
+  failures: number;
+  retries: number;
+  avgFirstTokenMs: number | null;
+  avgTotalMs: number;
+  avgTokensPerSecond: number | null;
+  promptTokens: number;
+  completionTokens: number;
+  lastRunAt: number;
+  days: TelemetryDay[];
 }
 
 interface AgentChunkEvent {
@@ -16,14 +219,76 @@ interface AgentChunkEvent {
   chunk: string;
   done?: boolean;
   stream?: "thought" | "action";
+  section?: "plan" | "thought" | "action" | "result";
   error?: string;
 }
 
+interface AgentQueueEvent {
+  paneId: string;
+  route: string;
+  position: number;
+  waitedMs: number;
+}
+
 interface AgentRoutedEvent {
   paneId: string;
-  model: "Local" | "Cloud";
+  model: string;
   modelName: string;
-  route: "local";
+  route: string;
+}
+
+type AgentToolName = "run_command" | "read_file" | "write_file" | "list_dir" | "search";
+
+interface AgentStepEvent {
+  paneId: string;
+  step: number;
+  kind: "thinking" | "tool-call" | "tool-result" | "rejected" | "final";
+  tool?: AgentToolName;
+  summary: string;
+  details?: string;
+  error?: boolean;
+}
+
+interface AgentApprovalRequest {
+  paneId: string;
+  requestId: string;
+  step: number;
+  tool: AgentToolName;
+  summary: string;
+  details: string;
+}
+
+interface DiffHunk {
+  index: number;
+  header: string;
+  lines: Array<{ type: "context" | "add" | "remove"; text: string }>;
+}
+
+interface EditProposal {
+  id: string;
+  paneId: string;
+  path: string;
+  isNewFile: boolean;
+  hunks: DiffHunk[];
+  createdAt: number;
+}
+
+interface EditApplyResult {
+  status: "applied" | "conflict" | "discarded" | "unchanged";
+  path: string;
+  acceptedHunks: number;
+  totalHunks: number;
+  message: string;
+}
+
+interface EditProposedEvent {
+  paneId: string;
+  proposal: EditProposal;
+}
+
+interface EditClosedEvent {
+  paneId: string;
+  proposalId: string;
 }
 
 interface PtyDataEvent {
@@ -31,10 +296,82 @@ interface PtyDataEvent {
   chunk: string;
 }
 
+interface SessionExportResult {
+  markdownPath: string;
+  jsonPath: string;
+  entries: number;
+}
+
+// Progress of the /ask index update that runs before a workspace question.
+interface WorkspaceIndexProgress {
+  paneId: string;
+  phase: "scanning" | "embedding" | "ready";
+  filesDone: number;
+  filesTotal: number;
+  indexedFiles: number;
+  chunks: number;
+}
+
+interface WorkspaceSource {
+  path: string;
+  startLine: number;
+  endLine: number;
+  score: number;
+}
+
+interface AgentSourcesEvent {
+  paneId: string;
+  sources: WorkspaceSource[];
+}
+
+// One model's share of a /compare run; `label` and `model` arrive with the first (empty) chunk.
+interface CompareUpdateEvent {
+  compareId: string;
+  route: string;
+  label: string;
+  model: string;
+  chunk: string;
+  done?: boolean;
+  error?: string;
+  metrics?: AgentRunMetrics;
+}
+
+type PipeSource = "output" | "answer";
+type PipeTarget = "agent" | "shell" | "stdin";
+
+// Sent to both panes after a /pipe. `error` is set instead of the rest when nothing was piped.
+interface PanePipedEvent {
+  fromPaneId: string;
+  toPaneId: string;
+  target: PipeTarget;
+  source?: PipeSource;
+  label?: string;
+  text?: string;
+  note?: string;
+  error?: string;
+}
+
+interface PaneRestoredEvent {
+  paneId: string;
+  // Earlier output of the pane in this workspace, ending with a "restored session" divider.
+  text: string;
+}
+
 interface PtyExitEvent {
   paneId: string;
 }
 
+interface CommandFailureEvent {
+  paneId: string;
+  command: string;
+  exitCode: number | null;
+  reason: string;
+  output: string;
+  cwd: string;
+  shell: "pwsh" | "powershell" | "cmd" | "bash" | "zsh" | "fish" | "other";
+  failedAt: number;
+}
+
 interface RuntimeInfo {
   node: string;
   electron: string;
@@ -42,14 +379,57 @@ interface RuntimeInfo {
 }
 
 const api = {
-  createPane: (paneId: string) => ipcRenderer.invoke("pane:create", paneId),
+  createPane: (paneId: string, shellProfile?: string) =>
+    ipcRenderer.invoke("pane:create", paneId, shellProfile) as Promise<ShellProfileSummary | null>,
   destroyPane: (paneId: string) => ipcRenderer.invoke("pane:destroy", paneId),
-  restartPane: (paneId: string) => ipcRenderer.invoke("pane:restart", paneId),
+  clearPaneScrollback: (paneId: string) => ipcRenderer.invoke("pane:clear-scrollback", paneId),
+  restartPane: (paneId: string, shellProfile?: string) =>
+    ipcRenderer.invoke("pane:restart", paneId, shellProfile) as Promise<ShellProfileSummary | null>,
+  listShellProfiles: () => ipcRenderer.invoke("shell:profiles") as Promise<ShellProfileSummary[]>,
   resizePane: (paneId: string, cols: number, rows: number) => ipcRenderer.invoke("pane:resize", paneId, cols, rows),
-  sendShellLine: (paneId: string, line: string) => ipcRenderer.invoke("shell:line", paneId, line),
+  setActivePane: (paneId: string) => ipcRenderer.invoke("pane:activate", paneId),
+  sendShellLine: (paneId: string, line: string, origin?: AuditOrigin) => ipcRenderer.invoke("shell:line", paneId, line, origin),
   sendShellInput: (paneId: string, input: string) => ipcRenderer.invoke("shell:input", paneId, input),
-  runAgent: (paneId: string, route: "local", prompt: string) => ipcRenderer.invoke("agent:run", paneId, route, prompt),
+  runAgent: (paneId: string, route: string, prompt: string, context?: AgentContextOptions, profile?: string) =>
+    ipcRenderer.invoke("agent:run", paneId, route, prompt, context, profile),
+  previewAgentContext: (paneId: string, prompt: string, context: AgentContextOptions) =>
+    ipcRenderer.invoke("agent:context-preview", paneId, prompt, context) as Promise<string>,
+  runAgentLoop: (paneId: string, goal: string) => ipcRenderer.invoke("agent:loop", paneId, goal),
+  fixLastCommand: (paneId: string, route: string, notes: string, profile?: string) =>
+    ipcRenderer.invoke("agent:fix", paneId, route, notes, profile),
+  compareModels: (compareId: string, paneId: string, prompt: string, routes: string[], context?: AgentContextOptions) =>
+    ipcRenderer.invoke("agent:compare", compareId, paneId, prompt, routes, context),
+  cancelComparison: (compareId: string) => ipcRenderer.invoke("agent:compare-cancel", compareId),
+  pipeToPane: (fromPaneId: string, toPaneId: string, target: PipeTarget, source?: PipeSource, origin?: AuditOrigin) =>
+    ipcRenderer.invoke("pane:pipe", fromPaneId, toPaneId, target, source ?? null, origin),
+  askWorkspace: (paneId: string, question: string, profile?: string) => ipcRenderer.invoke("agent:ask", paneId, question, profile),
+  approveAgentStep: (requestId: string, approved: boolean) => ipcRenderer.invoke("agent:approve", requestId, approved),
   cancelAgent: (paneId: string) => ipcRenderer.invoke("agent:cancel", paneId),
+  resetAgent: (paneId: string) => ipcRenderer.invoke("agent:reset", paneId),
+  listAgentProviders: () => ipcRenderer.invoke("agent:providers") as Promise<AgentProviderSummary[]>,
+  testAgentProvider: (config: AgentProviderConfig) => ipcRenderer.invoke("agent:test", config) as Promise<AgentTestResult>,
+  listCustomCommands: () => ipcRenderer.invoke("commands:list") as Promise<CustomCommandList>,
+  runCustomCommand: (paneId: string, name: string, args: string, context?: AgentContextOptions, profile?: string) =>
+    ipcRenderer.invoke("commands:run", paneId, name, args, context, profile),
+  exportSession: (paneId: string) => ipcRenderer.invoke("sessions:export", paneId) as Promise<SessionExportResult>,
+  getTelemetrySummary: () => ipcRenderer.invoke("telemetry:summary") as Promise<ModelTelemetry[]>,
+  clearTelemetry: () => ipcRenderer.invoke("telemetry:clear") as Promise<boolean>,
+  listAuditLog: (filter: AuditFilter) => ipcRenderer.invoke("audit:list", filter) as Promise<AuditRecord[]>,
+  exportAuditLog: (filter: AuditFilter, format: AuditExportFormat) =>
+    ipcRenderer.invoke("audit:export", filter, format) as Promise<AuditExportResult>,
+  listOllamaModels: (endpoint: string) => ipcRenderer.invoke("ollama:models", endpoint) as Promise<OllamaModel[]>,
+  showOllamaModel: (endpoint: string, name: string) => ipcRenderer.invoke("ollama:show", endpoint, name) as Promise<OllamaModelDetails>,
+  pullOllamaModel: (endpoint: string, name: string) => ipcRenderer.invoke("ollama:pull", endpoint, name) as Promise<boolean>,
+  cancelOllamaPull: (name: string) => ipcRenderer.invoke("ollama:cancel-pull", name) as Promise<boolean>,
+  deleteOllamaModel: (endpoint: string, name: string) => ipcRenderer.invoke("ollama:delete", endpoint, name) as Promise<boolean>,
+  getOllamaHealth: () => ipcRenderer.invoke("ollama:health") as Promise<OllamaEndpointHealth[]>,
+  checkOllamaHealth: () => ipcRenderer.invoke("ollama:health-check") as Promise<OllamaEndpointHealth[]>,
+  proposeEdit: (paneId: string, path: string, content: string) =>
+    ipcRenderer.invoke("edits:propose", paneId, path, content) as Promise<EditProposal>,
+  listEdits: (paneId: string) => ipcRenderer.invoke("edits:list", paneId) as Promise<EditProposal[]>,
+  applyEdit: (proposalId: string, acceptedHunks: number[]) =>
+    ipcRenderer.invoke("edits:apply", proposalId, acceptedHunks) as Promise<EditApplyResult>,
+  discardEdit: (proposalId: string) => ipcRenderer.invoke("edits:discard", proposalId) as Promise<EditApplyResult | null>,
   getWorkspacePath: () => ipcRenderer.invoke("workspace:get") as Promise<string>,
   createProjectWorkspace: () => ipcRenderer.invoke("workspace:create") as Promise<string | null>,
   openProjectWorkspace: () => ipcRenderer.invoke("workspace:open") as Promise<string | null>,
@@ -61,16 +441,96 @@ const api = {
     ipcRenderer.on("pty:data", listener);
     return () => ipcRenderer.removeListener("pty:data", listener);
   },
+  onShellSpawnFailed: (handler: (event: ShellSpawnFailedEvent) => void) => {
+    const listener = (_: unknown, payload: ShellSpawnFailedEvent) => handler(payload);
+    ipcRenderer.on("pty:spawn-failed", listener);
+    return () => ipcRenderer.removeListener("pty:spawn-failed", listener);
+  },
+  onPaneRestored: (handler: (event: PaneRestoredEvent) => void) => {
+    const listener = (_: unknown, payload: PaneRestoredEvent) => handler(payload);
+    ipcRenderer.on("pane:restored", listener);
+    return () => ipcRenderer.removeListener("pane:restored", listener);
+  },
   onPtyExit: (handler: (event: PtyExitEvent) => void) => {
     const listener = (_: unknown, payload: PtyExitEvent) => handler(payload);
     ipcRenderer.on("pty:exit", listener);
     return () => ipcRenderer.removeListener("pty:exit", listener);
   },
+  onShellFailed: (handler: (event: CommandFailureEvent) => void) => {
+    const listener = (_: unknown, payload: CommandFailureEvent) => handler(payload);
+    ipcRenderer.on("shell:failed", listener);
+    return () => ipcRenderer.removeListener("shell:failed", listener);
+  },
   onAgentChunk: (handler: (event: AgentChunkEvent) => void) => {
     const listener = (_: unknown, payload: AgentChunkEvent) => handler(payload);
     ipcRenderer.on("agent:chunk", listener);
     return () => ipcRenderer.removeListener("agent:chunk", listener);
   },
+  onAgentStep: (handler: (event: AgentStepEvent) => void) => {
+    const listener = (_: unknown, payload: AgentStepEvent) => handler(payload);
+    ipcRenderer.on("agent:step", listener);
+    return () => ipcRenderer.removeListener("agent:step", listener);
+  },
+  onAgentApproval: (handler: (event: AgentApprovalRequest) => void) => {
+    const listener = (_: unknown, payload: AgentApprovalRequest) => handler(payload);
+    ipcRenderer.on("agent:approval", listener);
+    return () => ipcRenderer.removeListener("agent:approval", listener);
+  },
+  onEditProposed: (handler: (event: EditProposedEvent) => void) => {
+    const listener = (_: unknown, payload: EditProposedEvent) => handler(payload);
+    ipcRenderer.on("edits:proposed", listener);
+    return () => ipcRenderer.removeListener("edits:proposed", listener);
+  },
+  onEditClosed: (handler: (event: EditClosedEvent) => void) => {
+    const listener = (_: unknown, payload: EditClosedEvent) => handler(payload);
+    ipcRenderer.on("edits:closed", listener);
+    return () => ipcRenderer.removeListener("edits:closed", listener);
+  },
+  onCustomCommandsChanged: (handler: (event: CustomCommandList) => void) => {
+    const listener = (_: unknown, payload: CustomCommandList) => handler(payload);
+    ipcRenderer.on("commands:changed", listener);
+    return () => ipcRenderer.removeListener("commands:changed", listener);
+  },
+  onAgentMetrics: (handler: (event: AgentMetricsEvent) => void) => {
+    const listener = (_: unknown, payload: AgentMetricsEvent) => handler(payload);
+    ipcRenderer.on("agent:metrics", listener);
+    return () => ipcRenderer.removeListener("agent:metrics", listener);
+  },
+  onOllamaPullProgress: (handler: (event: OllamaPullProgress) => void) => {
+    const listener = (_: unknown, payload: OllamaPullProgress) => handler(payload);
+    ipcRenderer.on("ollama:pull-progress", listener);
+    return () => ipcRenderer.removeListener("ollama:pull-progress", listener);
+  },
+  onOllamaHealth: (handler: (event: OllamaEndpointHealth[]) => void) => {
+    const listener = (_: unknown, payload: OllamaEndpointHealth[]) => handler(payload);
+    ipcRenderer.on("ollama:health", listener);
+    return () => ipcRenderer.removeListener("ollama:health", listener);
+  },
+  onAgentQueue: (handler: (event: AgentQueueEvent) => void) => {
+    const listener = (_: unknown, payload: AgentQueueEvent) => handler(payload);
+    ipcRenderer.on("agent:queue", listener);
+    return () => ipcRenderer.removeListener("agent:queue", listener);
+  },
+  onCompareUpdate: (handler: (event: CompareUpdateEvent) => void) => {
+    const listener = (_: unknown, payload: CompareUpdateEvent) => handler(payload);
+    ipcRenderer.on("compare:update", listener);
+    return () => ipcRenderer.removeListener("compare:update", listener);
+  },
+  onIndexProgress: (handler: (event: WorkspaceIndexProgress) => void) => {
+    const listener = (_: unknown, payload: WorkspaceIndexProgress) => handler(payload);
+    ipcRenderer.on("index:progress", listener);
+    return () => ipcRenderer.removeListener("index:progress", listener);
+  },
+  onAgentSources: (handler: (event: AgentSourcesEvent) => void) => {
+    const listener = (_: unknown, payload: AgentSourcesEvent) => handler(payload);
+    ipcRenderer.on("agent:sources", listener);
+    return () => ipcRenderer.removeListener("agent:sources", listener);
+  },
+  onPanePiped: (handler: (event: PanePipedEvent) => void) => {
+    const listener = (_: unknown, payload: PanePipedEvent) => handler(payload);
+    ipcRenderer.on("pane:piped", listener);
+    return () => ipcRenderer.removeListener("pane:piped", listener);
+  },
   onAgentRouted: (handler: (event: AgentRoutedEvent) => void) => {
     const listener = (_: unknown, payload: AgentRoutedEvent) => handler(payload);
     ipcRenderer.on("agent:routed", listener);
@@ -0,0 +1,137 @@
+export interface AgentContextOptions {
+  attachOutput: boolean;
+  lineCount: number;
+}
+
+export const DEFAULT_CONTEXT_LINES = 40;
+const MAX_CONTEXT_LINES = 400;
+const MAX_PARTIAL_CHARS = 8000;
+
+// CSI, OSC and single-character escape sequences, plus stray control characters other than tab/newline/CR.
+const ANSI_PATTERN = /\u001b\[[0-?]*[ -/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)|\u001b[@-Z\\-_]|[\u0000-\u0008\u000b\u000c\u000e-\u001a\u001c-\u001f\u007f]/g;
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "");
+}
+
+// A bare carriage return rewinds the cursor, so only the text after the last one is what stays visible.
+function collapseCarriageReturns(line: string): string {
+  const trimmed = line.replace(/\r+$/, "");
+  const index = trimmed.lastIndexOf("\r");
+  return index >= 0 ? trimmed.slice(index + 1) : trimmed;
+}
+
+export class PaneScrollback {
+  private lines: string[] = [];
+  private partial = "";
+  private dropped = 0;
+  private command = "";
+  private commandStart = 0;
+
+  constructor(private readonly maxLines = 2000) {}
+
+  append(chunk: string): void {
+    const parts = (this.partial + chunk).split("\n");
+    // Progress bars can redraw a single line forever; keep only its visible tail.
+    this.partial = (parts.pop() ?? "").slice(-MAX_PARTIAL_CHARS);
+    for (const part of parts) {
+      this.lines.push(collapseCarriageReturns(stripAnsi(part)));
+    }
+    const overflow = this.lines.length - this.maxLines;
+    if (overflow > 0) {
+      this.lines.splice(0, overflow);
+      this.dropped += overflow;
+    }
+  }
+
+  markCommand(command: string): void {
+    this.command = command.trim();
+    this.commandStart = this.dropped + this.lines.length;
+  }
+
+  lastCommand(): string {
+    return this.command;
+  }
+
+  tail(count: number): string[] {
+    const all = this.visibleLines();
+    return all.slice(Math.max(0, all.length - count));
+  }
+
+  outputSinceCommand(): string[] {
+    if (!this.command) return [];
+    const start = Math.max(0, this.commandStart - this.dropped);
+    return [...this.lines.slice(start), ...this.pendingLine()];
+  }
+
+  clear(): void {
+    this.lines = [];
+    this.partial = "";
+    this.dropped = 0;
+    this.command = "";
+    this.commandStart = 0;
+  }
+
+  private visibleLines(): string[] {
+    return [...this.lines, ...this.pendingLine()];
+  }
+
+  private pendingLine(): string[] {
+    const pending = collapseCarriageReturns(stripAnsi(this.partial));
+    return pending ? [pending] : [];
+  }
+}
+
+function clampLines(count: number): number {
+  if (!Number.isFinite(count) || count <= 0) return DEFAULT_CONTEXT_LINES;
+  return Math.min(Math.floor(count), MAX_CONTEXT_LINES);
+}
+
+function trimBlankEdges(lines: string[]): string {
+  return lines.join("\n").replace(/^\s*\n/, "").trimEnd();
+}
+
+const TERMINAL_VARIABLE = /\{\{\s*(lastCommand|lastOutput|lastLines(?::\d+)?)\s*\}\}/g;
+
+// The value of `lastCommand`, `lastOutput` (output since the last command) or `lastLines` / `lastLines:N`; null for any
+// other name.
+export function terminalVariable(variable: string, scrollback: PaneScrollback | undefined, lineCount: number): string | null {
+  if (variable === "lastCommand") return scrollback?.lastCommand() ?? "";
+  if (variable === "lastOutput") return trimBlankEdges(scrollback?.outputSinceCommand() ?? []);
+  const lines = variable.match(/^lastLines(?::(\d+))?$/);
+  if (!lines) return null;
+  return trimBlankEdges(scrollback?.tail(clampLines(lines[1] ? Number(lines[1]) : lineCount)) ?? []);
+}
+
+// Expands the terminal variables, unless the caller already did (custom commands expand them with their own), then
+// appends a terminal context block when the pane asked for it.
+export function buildPromptWithContext(
+  prompt: string,
+  scrollback: PaneScrollback | undefined,
+  options: AgentContextOptions,
+  expandVariables = true
+): string {
+  const lineCount = clampLines(options.lineCount);
+  const lastCommand = scrollback?.lastCommand() ?? "";
+  const lastOutput = trimBlankEdges(scrollback?.outputSinceCommand() ?? []);
+
+  const expanded = expandVariables
+    ? prompt.replace(TERMINAL_VARIABLE, (match, variable: string) => terminalVariable(variable, scrollback, lineCount) ?? match)
+    : prompt;
+
+  if (!options.attachOutput) {
+    return expanded;
+  }
+
+  const sections: string[] = [];
+  if (lastCommand) {
+    sections.push(`Last command: ${lastCommand}`);
+    const outputLines = lastOutput.split("\n");
+    const clipped = outputLines.slice(Math.max(0, outputLines.length - lineCount)).join("\n");
+    sections.push(`Output:\n${clipped || "(no output)"}`);
+  } else {
+    const tail = trimBlankEdges(scrollback?.tail(lineCount) ?? []);
+    sections.push(`Recent output:\n${tail || "(no output)"}`);
+  }
+  return `${expanded}\n\n--- Terminal context ---\n${sections.join("\n")}\n--- End terminal context ---`;
+}
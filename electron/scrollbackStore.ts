@@ -0,0 +1,122 @@
+import fs from "node:fs";
+import path from "node:path";
+import { workspaceStorageKey } from "./workspaceTools";
+
+interface StoredScrollback {
+  root: string;
+  text: string;
+  dirty: boolean;
+}
+
+// Raw terminal output including escape sequences, so this is roughly a few thousand lines.
+const MAX_SCROLLBACK_CHARS = 256 * 1024;
+// Trimming copies the whole buffer, so busy output is allowed to run over a little before it is cut back.
+const TRIM_SLACK_CHARS = 64 * 1024;
+const FLUSH_DELAY_MS = 2000;
+const PANE_ID = /^[A-Za-z0-9_-]+$/;
+
+function scrollbackFile(dir: string, root: string, paneId: string): string {
+  return path.join(dir, workspaceStorageKey(root), `${paneId}.log`);
+}
+
+// Trims from the front at a line break, so replay never starts inside an escape sequence.
+function bound(text: string): string {
+  if (text.length <= MAX_SCROLLBACK_CHARS) return text;
+  const cut = text.length - MAX_SCROLLBACK_CHARS;
+  const lineStart = text.indexOf("\n", cut);
+  return lineStart === -1 ? text.slice(cut) : text.slice(lineStart + 1);
+}
+
+function restoredDivider(): string {
+  return `\r\n\u001b[2m──── restored session · ${new Date().toLocaleString()} ────\u001b[0m\r\n`;
+}
+
+// Raw PTY output per pane, bounded and saved per workspace under `dir` so a restarted pane or app can replay it. The
+// output can hold printed tokens or secrets, so `dir` belongs outside the workspace. Writes are batched; `flush`
+// forces them out when a pane or the window goes away.
+export class ScrollbackStore {
+  private readonly panes = new Map<string, StoredScrollback>();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly dir: () => string,
+    private readonly onError: (message: string) => void
+  ) {}
+
+  // Starts recording a new shell session and returns the earlier output to replay, ending with a divider; empty when
+  // the pane has no history in this workspace.
+  startSession(root: string, paneId: string): string {
+    if (!PANE_ID.test(paneId)) return "";
+    const current = this.panes.get(paneId);
+    if (current?.dirty) this.write(paneId, current);
+    let text = "";
+    try {
+      const file = scrollbackFile(this.dir(), root, paneId);
+      text = fs.existsSync(file) ? fs.readFileSync(file, "utf8") : "";
+    } catch (error) {
+      this.onError(`Could not read the saved scrollback of ${paneId}: ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+    const restored = text ? `${text}${restoredDivider()}` : "";
+    this.panes.set(paneId, { root, text: bound(restored), dirty: Boolean(restored) });
+    this.scheduleFlush();
+    return restored;
+  }
+
+  append(paneId: string, chunk: string): void {
+    const entry = this.panes.get(paneId);
+    if (!entry) return;
+    entry.text += chunk;
+    if (entry.text.length > MAX_SCROLLBACK_CHARS + TRIM_SLACK_CHARS) entry.text = bound(entry.text);
+    entry.dirty = true;
+    this.scheduleFlush();
+  }
+
+  clear(root: string, paneId: string): void {
+    if (!PANE_ID.test(paneId)) return;
+    const entry = this.panes.get(paneId);
+    if (entry) {
+      entry.text = "";
+      entry.dirty = false;
+    }
+    try {
+      fs.rmSync(scrollbackFile(this.dir(), entry?.root ?? root, paneId), { force: true });
+    } catch (error) {
+      this.onError(`Could not delete the saved scrollback of ${paneId}: ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+  }
+
+  // Writes pending output now; with a pane id only that pane's, which also stops recording it.
+  flush(paneId?: string): void {
+    if (paneId) {
+      const entry = this.panes.get(paneId);
+      if (entry?.dirty) this.write(paneId, entry);
+      this.panes.delete(paneId);
+      return;
+    }
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    for (const [id, entry] of this.panes) {
+      if (entry.dirty) this.write(id, entry);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, FLUSH_DELAY_MS);
+  }
+
+  private write(paneId: string, entry: StoredScrollback): void {
+    entry.dirty = false;
+    try {
+      const file = scrollbackFile(this.dir(), entry.root, paneId);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      entry.text = bound(entry.text);
+      fs.writeFileSync(file, entry.text, "utf8");
+    } catch (error) {
+      this.onError(`Could not save the scrollback of ${paneId}: ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { AgentRunMetrics } from "./agentProviders";
+
+export type SessionEntryKind = "command" | "agent-request" | "agent-response" | "agent-step" | "command-failed" | "error";
+
+export interface SessionEntry {
+  at: number;
+  kind: SessionEntryKind;
+  text: string;
+  route?: string;
+  model?: string;
+  profile?: string;
+  exitCode?: number | null;
+  metrics?: AgentRunMetrics;
+}
+
+export interface SessionTranscript {
+  $schema: string;
+  version: 1;
+  paneId: string;
+  workspace: string;
+  shell: string;
+  startedAt: string;
+  exportedAt: string;
+  entries: Array<Omit<SessionEntry, "at"> & { at: string }>;
+  scrollback: string[];
+}
+
+export interface SessionExportResult {
+  markdownPath: string;
+  jsonPath: string;
+  entries: number;
+}
+
+const SESSIONS_DIR = path.join(".vibe", "sessions");
+const SCHEMA_FILE = "session.schema.json";
+const MAX_ENTRIES = 2000;
+const MAX_ENTRY_CHARS = 50000;
+
+const SESSION_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "Vibe-ADE pane session",
+  type: "object",
+  required: ["version", "paneId", "workspace", "shell", "startedAt", "exportedAt", "entries", "scrollback"],
+  properties: {
+    version: { const: 1 },
+    paneId: { type: "string" },
+    workspace: { type: "string" },
+    shell: { type: "string" },
+    startedAt: { type: "string", format: "date-time" },
+    exportedAt: { type: "string", format: "date-time" },
+    entries: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["at", "kind", "text"],
+        properties: {
+          at: { type: "string", format: "date-time" },
+          kind: { enum: ["command", "agent-request", "agent-response", "agent-step", "command-failed", "error"] },
+          text: { type: "string" },
+          route: { type: "string" },
+          model: { type: "string" },
+          profile: { type: "string" },
+          exitCode: { type: ["integer", "null"] },
+          metrics: { type: "object" }
+        }
+      }
+    },
+    scrollback: { type: "array", items: { type: "string" } }
+  }
+};
+
+const ENTRY_TITLES: Record<SessionEntryKind, string> = {
+  command: "Command",
+  "agent-request": "Agent Request",
+  "agent-response": "Agent Response",
+  "agent-step": "Agent Step",
+  "command-failed": "Command Failed",
+  error: "Error"
+};
+
+function clip(text: string): string {
+  return text.length > MAX_ENTRY_CHARS ? `${text.slice(0, MAX_ENTRY_CHARS)}\n[truncated]` : text;
+}
+
+// Everything a pane did since it was created, kept in the main process so an export is not limited by what the UI still shows.
+export class SessionLog {
+  private readonly entries = new Map<string, SessionEntry[]>();
+
+  record(paneId: string, entry: Omit<SessionEntry, "at">): void {
+    const list = this.entries.get(paneId) ?? [];
+    list.push({ ...entry, text: clip(entry.text), at: Date.now() });
+    if (list.length > MAX_ENTRIES) list.splice(0, list.length - MAX_ENTRIES);
+    this.entries.set(paneId, list);
+  }
+
+  list(paneId: string): SessionEntry[] {
+    return [...(this.entries.get(paneId) ?? [])];
+  }
+
+  dropPane(paneId: string): void {
+    this.entries.delete(paneId);
+  }
+}
+
+export function buildTranscript(
+  paneId: string,
+  workspace: string,
+  shell: string,
+  entries: SessionEntry[],
+  scrollback: string[]
+): SessionTranscript {
+  const now = new Date();
+  return {
+    $schema: `./${SCHEMA_FILE}`,
+    version: 1,
+    paneId,
+    workspace,
+    shell,
+    startedAt: new Date(entries[0]?.at ?? now.getTime()).toISOString(),
+    exportedAt: now.toISOString(),
+    entries: entries.map((entry) => ({ ...entry, at: new Date(entry.at).toISOString() })),
+    scrollback
+  };
+}
+
+function fence(text: string, language = ""): string {
+  // A longer fence than any backtick run inside keeps nested code blocks intact.
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(longest + 1);
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+function describeEntry(entry: SessionTranscript["entries"][number]): string[] {
+  const via = [entry.route ? `/${entry.route}` : "", entry.model ?? "", entry.profile ? `profile ${entry.profile}` : ""]
+    .filter(Boolean)
+    .join(" · ");
+  const lines = [`### ${entry.at} · ${ENTRY_TITLES[entry.kind]}${via ? ` (${via})` : ""}`, ""];
+  switch (entry.kind) {
+    case "command":
+      lines.push(fence(entry.text, "shell"));
+      break;
+    case "agent-request":
+      lines.push(...entry.text.split("\n").map((line) => `> ${line}`));
+      break;
+    case "command-failed":
+      lines.push(`Exit code: ${entry.exitCode ?? "unknown"}`, "", fence(entry.text, "text"));
+      break;
+    case "error":
+      lines.push(`**${entry.text}**`);
+      break;
+    default:
+      lines.push(entry.text);
+  }
+  if (entry.metrics) {
+    const { firstTokenMs, totalMs, promptTokens, completionTokens, tokensPerSecond } = entry.metrics;
+    lines.push(
+      "",
+      `_first token ${firstTokenMs ?? "-"} ms · total ${totalMs} ms · ${promptTokens ?? "?"} in / ${completionTokens ?? "?"} out tokens · ${tokensPerSecond ?? "-"} tok/s_`
+    );
+  }
+  lines.push("");
+  return lines;
+}
+
+export function renderSessionMarkdown(transcript: SessionTranscript): string {
+  const lines = [
+    `# Session ${transcript.paneId}`,
+    "",
+    `- Workspace: \`${transcript.workspace}\``,
+    `- Shell: ${transcript.shell}`,
+    `- Started: ${transcript.startedAt}`,
+    `- Exported: ${transcript.exportedAt}`,
+    `- Entries: ${transcript.entries.length}`,
+    "",
+    "## Timeline",
+    ""
+  ];
+  if (!transcript.entries.length) lines.push("_Nothing recorded yet._", "");
+  for (const entry of transcript.entries) lines.push(...describeEntry(entry));
+  lines.push("## Terminal Scrollback", "", fence(transcript.scrollback.join("\n") || "(empty)", "text"), "");
+  return lines.join("\n");
+}
+
+export function writeSessionExport(root: string, transcript: SessionTranscript): SessionExportResult {
+  const dir = path.join(root, SESSIONS_DIR);
+  fs.mkdirSync(dir, { recursive: true });
+  const stamp = transcript.exportedAt.replace(/\.\d+Z$/, "Z").replace(/:/g, "-");
+  const base = `${stamp}-${transcript.paneId}`;
+  fs.writeFileSync(path.join(dir, SCHEMA_FILE), `${JSON.stringify(SESSION_SCHEMA, null, 2)}\n`, "utf8");
+  fs.writeFileSync(path.join(dir, `${base}.json`), `${JSON.stringify(transcript, null, 2)}\n`, "utf8");
+  fs.writeFileSync(path.join(dir, `${base}.md`), renderSessionMarkdown(transcript), "utf8");
+  const relative = SESSIONS_DIR.split(path.sep).join("/");
+  return { markdownPath: `${relative}/${base}.md`, jsonPath: `${relative}/${base}.json`, entries: transcript.entries.length };
+}
@@ -0,0 +1,97 @@
+import fs from "node:fs";
+import path from "node:path";
+import { shellKind, type ShellKind } from "./commandFailures";
+
+export interface PtyEnvironment {
+  // Terminal type passed to node-pty, which also sets TERM on POSIX.
+  term: string;
+  env: Record<string, string>;
+}
+
+const WINDOWS_SHELLS = ["C:\\Program Files\\PowerShell\\7\\pwsh.exe", "C:\\Windows\\System32\\WindowsPowerShell\\v1.0\\powershell.exe"];
+
+const POSIX_SHELLS = [
+  "/bin/bash",
+  "/usr/bin/bash",
+  "/usr/local/bin/bash",
+  "/opt/homebrew/bin/bash",
+  "/bin/zsh",
+  "/usr/bin/zsh",
+  "/usr/local/bin/zsh",
+  "/usr/bin/fish",
+  "/usr/local/bin/fish",
+  "/opt/homebrew/bin/fish",
+  "/usr/bin/pwsh",
+  "/usr/local/bin/pwsh",
+  "/opt/microsoft/powershell/7/pwsh",
+  "/bin/sh"
+];
+
+// GUI apps on macOS start with a PATH that misses Homebrew, so shells spawned from them cannot find node or git.
+const DARWIN_EXTRA_PATHS = ["/opt/homebrew/bin", "/usr/local/bin"];
+
+// Installed shells in order of preference. Windows prefers PowerShell 7, then Windows PowerShell, then %ComSpec%.
+// Elsewhere the user's $SHELL wins, followed by bash, zsh, fish and pwsh.
+export function findShells(platform: NodeJS.Platform, env: NodeJS.ProcessEnv, exists: (file: string) => boolean = fs.existsSync): string[] {
+  const candidates =
+    platform === "win32"
+      ? [...WINDOWS_SHELLS, env.ComSpec ?? "C:\\Windows\\System32\\cmd.exe"]
+      : [...(env.SHELL && path.isAbsolute(env.SHELL) ? [env.SHELL] : []), ...POSIX_SHELLS];
+  return [...new Set(candidates)].filter((file) => exists(file));
+}
+
+// Resolves a bare executable name against PATH (and PATHEXT on Windows); paths are only checked for existence.
+export function findExecutable(
+  executable: string,
+  platform: NodeJS.Platform,
+  env: NodeJS.ProcessEnv,
+  exists: (file: string) => boolean = fs.existsSync
+): string | null {
+  const pathApi = platform === "win32" ? path.win32 : path.posix;
+  if (executable.includes("/") || executable.includes(pathApi.sep)) {
+    return exists(executable) ? executable : null;
+  }
+  const extensions = platform === "win32" ? ["", ...(env.PATHEXT ?? ".COM;.EXE;.BAT;.CMD").split(";").filter(Boolean)] : [""];
+  const dirs = (env.PATH ?? env.Path ?? "").split(pathApi.delimiter).filter(Boolean);
+  for (const dir of dirs) {
+    for (const extension of extensions) {
+      const file = pathApi.join(dir, `${executable}${extension.toLowerCase()}`);
+      if (exists(file)) return file;
+    }
+  }
+  return null;
+}
+
+export function ptyEnvironment(platform: NodeJS.Platform, env: NodeJS.ProcessEnv): PtyEnvironment {
+  if (platform === "win32") {
+    return { term: "xterm-color", env: {} };
+  }
+  const entries = (env.PATH ?? "/usr/bin:/bin:/usr/sbin:/sbin").split(":").filter(Boolean);
+  const extra = platform === "darwin" ? DARWIN_EXTRA_PATHS.filter((entry) => !entries.includes(entry)) : [];
+  return {
+    term: "xterm-256color",
+    env: {
+      TERM: "xterm-256color",
+      COLORTERM: "truecolor",
+      LANG: env.LANG || "en_US.UTF-8",
+      PATH: [...entries, ...extra].join(":")
+    }
+  };
+}
+
+// Common commands typed in the other platform's spelling. Only the first word is rewritten, and only when it is the
+// whole command or followed by arguments.
+const COMMAND_ALIASES: Partial<Record<ShellKind, Record<string, string>>> = {
+  cmd: { ls: "dir", cat: "type", clear: "cls", pwd: "cd", which: "where" },
+  bash: { cls: "clear", dir: "ls", where: "which" },
+  zsh: { cls: "clear", dir: "ls" },
+  fish: { cls: "clear", dir: "ls", where: "which" }
+};
+
+export function normalizeShellCommandForExe(command: string, exe: string): string {
+  const aliases = COMMAND_ALIASES[shellKind(exe)];
+  const trimmed = command.trim();
+  const [word] = trimmed.split(/\s/, 1);
+  const replacement = aliases && Object.hasOwn(aliases, word) ? aliases[word] : undefined;
+  return replacement ? `${replacement}${trimmed.slice(word.length)}` : command;
+}
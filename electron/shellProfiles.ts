@@ -0,0 +1,75 @@
+import path from "node:path";
+import { shellKind } from "./commandFailures";
+import { findShells } from "./shellEnvironment";
+
+export interface ShellProfile {
+  name: string;
+  executable: string;
+  args: string[];
+  // Variables set on top of the app's environment.
+  env: Record<string, string>;
+  // Typed into the shell once it has started, e.g. `conda activate dev`.
+  startupCommand: string;
+  // A short label such as an emoji, shown next to the name in the pane header.
+  icon: string;
+}
+
+export interface ShellProfileSummary {
+  name: string;
+  executable: string;
+  icon: string;
+  // Built from an installed shell rather than defined in the vault.
+  detected: boolean;
+}
+
+const PROFILE_NAME = /^[a-z][a-z0-9-]*$/;
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MAX_ICON_CHARS = 4;
+
+// One profile per installed shell, named after it (`pwsh`, `bash`, ...), so a pane can switch shells without any setup.
+export function detectShellProfiles(platform: NodeJS.Platform, env: NodeJS.ProcessEnv): ShellProfile[] {
+  const profiles: ShellProfile[] = [];
+  for (const executable of findShells(platform, env)) {
+    const kind = shellKind(executable);
+    const name = kind === "other" ? path.basename(executable.replace(/\\/g, "/")).toLowerCase().replace(/\.exe$/, "") : kind;
+    if (!PROFILE_NAME.test(name) || profiles.some((profile) => profile.name === name)) continue;
+    profiles.push({ name, executable, args: [], env: {}, startupCommand: "", icon: "" });
+  }
+  return profiles;
+}
+
+// Drops blank argument lines left over from line-per-entry editing.
+export function normalizeShellProfiles(profiles: ShellProfile[]): ShellProfile[] {
+  return profiles.map((profile) => ({
+    name: profile.name.trim(),
+    executable: profile.executable.trim(),
+    args: (profile.args ?? []).filter((arg) => arg.length > 0),
+    env: { ...(profile.env ?? {}) },
+    startupCommand: (profile.startupCommand ?? "").trim(),
+    icon: (profile.icon ?? "").trim()
+  }));
+}
+
+export function validateShellProfiles(profiles: ShellProfile[]): void {
+  const seen = new Set<string>();
+  for (const profile of profiles) {
+    if (!PROFILE_NAME.test(profile.name)) {
+      throw new Error(`Shell profile name "${profile.name}" must start with a letter and use lowercase letters, digits or dashes.`);
+    }
+    if (seen.has(profile.name)) {
+      throw new Error(`Shell profile "${profile.name}" is defined twice.`);
+    }
+    seen.add(profile.name);
+    if (!profile.executable) {
+      throw new Error(`Shell profile "${profile.name}" needs an executable.`);
+    }
+    for (const [key, value] of Object.entries(profile.env)) {
+      if (!ENV_NAME.test(key) || typeof value !== "string") {
+        throw new Error(`Shell profile "${profile.name}": "${key}" is not a valid environment variable name.`);
+      }
+    }
+    if ([...profile.icon].length > MAX_ICON_CHARS) {
+      throw new Error(`Shell profile "${profile.name}": the icon can be at most ${MAX_ICON_CHARS} characters.`);
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { AgentRunMetrics } from "./agentProviders";
+
+export interface TelemetryDay {
+  day: string;
+  runs: number;
+  avgTotalMs: number;
+  avgTokensPerSecond: number | null;
+}
+
+export interface ModelTelemetry {
+  route: string;
+  model: string;
+  runs: number;
+  failures: number;
+  retries: number;
+  avgFirstTokenMs: number | null;
+  avgTotalMs: number;
+  avgTokensPerSecond: number | null;
+  promptTokens: number;
+  completionTokens: number;
+  lastRunAt: number;
+  days: TelemetryDay[];
+}
+
+const TELEMETRY_FILE = path.join(".vibe", "telemetry.jsonl");
+const MAX_SUMMARY_DAYS = 14;
+
+function telemetryPath(root: string): string {
+  return path.join(root, TELEMETRY_FILE);
+}
+
+export function appendAgentRun(root: string, metrics: AgentRunMetrics): void {
+  const file = telemetryPath(root);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, `${JSON.stringify(metrics)}\n`, "utf8");
+}
+
+function readAgentRuns(root: string): AgentRunMetrics[] {
+  const file = telemetryPath(root);
+  if (!fs.existsSync(file)) return [];
+  const runs: AgentRunMetrics[] = [];
+  for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      runs.push(JSON.parse(line) as AgentRunMetrics);
+    } catch {
+      // A torn last line from a crash should not hide the rest of the history.
+    }
+  }
+  return runs;
+}
+
+function average(values: number[]): number | null {
+  return values.length ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : null;
+}
+
+function localDay(epochMs: number): string {
+  const date = new Date(epochMs);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+// Aggregates runs per route/model pair, most recently used first, with a per-day breakdown of the last two weeks.
+export function summarizeTelemetry(root: string): ModelTelemetry[] {
+  const groups = new Map<string, AgentRunMetrics[]>();
+  for (const run of readAgentRuns(root)) {
+    const key = `${run.route}\u0000${run.model}`;
+    const group = groups.get(key);
+    if (group) group.push(run);
+    else groups.set(key, [run]);
+  }
+
+  const summaries: ModelTelemetry[] = [];
+  for (const runs of groups.values()) {
+    const succeeded = runs.filter((run) => run.ok);
+    const byDay = new Map<string, AgentRunMetrics[]>();
+    for (const run of succeeded) {
+      const day = localDay(run.startedAt);
+      const dayRuns = byDay.get(day);
+      if (dayRuns) dayRuns.push(run);
+      else byDay.set(day, [run]);
+    }
+    const days = [...byDay.entries()]
+      .sort(([a], [b]) => b.localeCompare(a))
+      .slice(0, MAX_SUMMARY_DAYS)
+      .map(([day, dayRuns]) => ({
+        day,
+        runs: dayRuns.length,
+        avgTotalMs: average(dayRuns.map((run) => run.totalMs)) ?? 0,
+        avgTokensPerSecond: average(dayRuns.flatMap((run) => (run.tokensPerSecond === null ? [] : [run.tokensPerSecond])))
+      }));
+    summaries.push({
+      route: runs[0].route,
+      model: runs[0].model,
+      runs: runs.length,
+      failures: runs.length - succeeded.length,
+      retries: runs.reduce((sum, run) => sum + run.retries, 0),
+      avgFirstTokenMs: average(succeeded.flatMap((run) => (run.firstTokenMs === null ? [] : [run.firstTokenMs]))),
+      avgTotalMs: average(succeeded.map((run) => run.totalMs)) ?? 0,
+      avgTokensPerSecond: average(succeeded.flatMap((run) => (run.tokensPerSecond === null ? [] : [run.tokensPerSecond]))),
+      promptTokens: runs.reduce((sum, run) => sum + (run.promptTokens ?? 0), 0),
+      completionTokens: runs.reduce((sum, run) => sum + (run.completionTokens ?? 0), 0),
+      lastRunAt: Math.max(...runs.map((run) => run.startedAt)),
+      days
+    });
+  }
+  return summaries.sort((a, b) => b.lastRunAt - a.lastRunAt);
+}
+
+export function clearTelemetry(root: string): void {
+  fs.rmSync(telemetryPath(root), { force: true });
+}
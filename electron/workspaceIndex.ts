@@ -0,0 +1,379 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { isIgnored, readGitignore, type IgnoreRule } from "./gitignore";
+import { embedWithOllama } from "./ollamaModels";
+import { SKIPPED_DIRS } from "./workspaceTools";
+
+export interface EmbeddingTarget {
+  endpoint: string;
+  model: string;
+}
+
+export interface IndexProgress {
+  phase: "scanning" | "embedding" | "ready";
+  // Files embedded so far out of those that were new or changed in this update.
+  filesDone: number;
+  filesTotal: number;
+  indexedFiles: number;
+  chunks: number;
+}
+
+export interface WorkspaceMatch {
+  path: string;
+  startLine: number;
+  endLine: number;
+  score: number;
+  text: string;
+}
+
+interface IndexedChunk {
+  startLine: number;
+  endLine: number;
+  vector: Float32Array;
+}
+
+interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  chunks: IndexedChunk[];
+}
+
+// `manifest.json`; each chunk's vector is row `row` of the float32 matrix in `vectors.bin`.
+interface IndexManifest {
+  version: 1;
+  model: string;
+  dimensions: number;
+  updatedAt: string;
+  files: Record<string, Omit<IndexedFile, "chunks"> & { chunks: Array<{ startLine: number; endLine: number; row: number }> }>;
+}
+
+interface WorkspaceScan {
+  files: Map<string, fs.Stats>;
+  // Every folder the scan walked into, "" for the root; these are the ones worth watching.
+  dirs: string[];
+}
+
+interface TextChunk {
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+const INDEX_DIR = path.join(".vibe", "index");
+const MANIFEST_FILE = "manifest.json";
+const VECTORS_FILE = "vectors.bin";
+const CHUNK_LINES = 40;
+const CHUNK_OVERLAP = 8;
+const MAX_CHUNK_CHARS = 2400;
+const MAX_FILE_BYTES = 256 * 1024;
+const MAX_FILES = 5000;
+const EMBED_BATCH = 16;
+const WATCH_DEBOUNCE_MS = 1500;
+const SKIPPED_FILES = new Set(["package-lock.json", "yarn.lock", "pnpm-lock.yaml"]);
+const BINARY_EXTENSIONS = /\.(?:png|jpe?g|gif|webp|ico|bmp|pdf|zip|gz|tgz|7z|rar|exe|dll|so|dylib|node|woff2?|ttf|otf|eot|mp3|mp4|wav|bin)$/i;
+// Changes under these never affect the index, and `.vibe/index` itself changes on every save.
+const UNWATCHED = /^(?:\.git|\.vibe|node_modules)(?:[\\/]|$)/;
+// Each watched folder costs a file handle or an inotify watch, so very large trees rely on the catch-up at each /ask.
+const MAX_WATCHED_DIRS = 2000;
+
+// Text files under the root that git would track: `.gitignore` files apply at every level, plus the usual build folders.
+function scanWorkspace(root: string): WorkspaceScan {
+  const found = new Map<string, fs.Stats>();
+  const dirs: string[] = [];
+  const stack: Array<{ dir: string; rules: IgnoreRule[] }> = [{ dir: "", rules: readGitignore(root, "") }];
+  while (stack.length && found.size < MAX_FILES) {
+    const { dir, rules } = stack.pop() as { dir: string; rules: IgnoreRule[] };
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(root, dir), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    dirs.push(dir);
+    for (const entry of entries) {
+      const relative = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (SKIPPED_DIRS.has(entry.name) || isIgnored(rules, relative, true)) continue;
+        stack.push({ dir: relative, rules: [...rules, ...readGitignore(root, relative)] });
+        continue;
+      }
+      if (!entry.isFile() || SKIPPED_FILES.has(entry.name) || BINARY_EXTENSIONS.test(entry.name)) continue;
+      if (isIgnored(rules, relative, false)) continue;
+      try {
+        const stat = fs.statSync(path.join(root, relative));
+        if (stat.size > 0 && stat.size <= MAX_FILE_BYTES) found.set(relative, stat);
+      } catch {
+        // Deleted between listing and stat.
+      }
+    }
+  }
+  return { files: found, dirs };
+}
+
+// Overlapping line windows, so a definition cut at a window edge still appears whole in the next one.
+function chunkText(text: string): TextChunk[] {
+  const lines = text.replace(/\r?\n$/, "").split(/\r?\n/);
+  const chunks: TextChunk[] = [];
+  for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+    const end = Math.min(lines.length, start + CHUNK_LINES);
+    const body = lines.slice(start, end).join("\n");
+    if (body.trim()) chunks.push({ startLine: start + 1, endLine: end, text: body.slice(0, MAX_CHUNK_CHARS) });
+    if (end >= lines.length) break;
+  }
+  return chunks;
+}
+
+// Unit length, so cosine similarity is a plain dot product.
+function normalize(vector: number[]): Float32Array {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return Float32Array.from(vector, (value) => value / length);
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return -1;
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 1) sum += a[i] * b[i];
+  return sum;
+}
+
+function readLines(root: string, relative: string, startLine: number, endLine: number): string {
+  try {
+    return fs.readFileSync(path.join(root, relative), "utf8").split(/\r?\n/).slice(startLine - 1, endLine).join("\n");
+  } catch {
+    return "(file no longer readable)";
+  }
+}
+
+function writeAtomic(file: string, data: string | Buffer): void {
+  fs.writeFileSync(`${file}.tmp`, data);
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+// On-disk vector index of the workspace for /ask. Only files whose size or mtime changed are re-read, and only
+// those whose content hash changed are embedded again; the index is rebuilt when the embedding model changes.
+export class WorkspaceIndex {
+  private files = new Map<string, IndexedFile>();
+  private model = "";
+  private loaded = false;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly watchers = new Map<string, fs.FSWatcher>();
+  private watchTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly root: string,
+    private readonly target: () => EmbeddingTarget,
+    private readonly onBackgroundError: (message: string) => void
+  ) {}
+
+  // Updates run one after another, so a watcher-triggered update and an /ask never embed the same file twice.
+  update(onProgress?: (progress: IndexProgress) => void, signal?: AbortSignal): Promise<IndexProgress> {
+    const run = this.queue.catch(() => undefined).then(() => this.refresh(onProgress, signal));
+    this.queue = run;
+    return run;
+  }
+
+  async search(question: string, limit: number, signal?: AbortSignal): Promise<WorkspaceMatch[]> {
+    const { endpoint, model } = this.target();
+    const [embedding] = await embedWithOllama(endpoint, model, [question], signal);
+    const query = normalize(embedding);
+    const scored: Array<{ path: string; chunk: IndexedChunk; score: number }> = [];
+    for (const [relative, file] of this.files) {
+      for (const chunk of file.chunks) scored.push({ path: relative, chunk, score: dot(query, chunk.vector) });
+    }
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ path: relative, chunk, score }) => ({
+        path: relative,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        score: Math.round(score * 1000) / 1000,
+        text: readLines(this.root, relative, chunk.startLine, chunk.endLine)
+      }));
+  }
+
+  dispose(): void {
+    if (this.watchTimer) clearTimeout(this.watchTimer);
+    this.watchTimer = null;
+    for (const watcher of this.watchers.values()) watcher.close();
+    this.watchers.clear();
+  }
+
+  // Keeps an index that has been built in sync with edits by watching the folders the last scan walked, so ignored
+  // trees such as node_modules are never watched and a workspace nobody has asked about is not watched at all.
+  private watch(dirs: string[]): void {
+    const wanted = new Set(dirs.slice(0, MAX_WATCHED_DIRS));
+    for (const [dir, watcher] of this.watchers) {
+      if (wanted.has(dir)) continue;
+      watcher.close();
+      this.watchers.delete(dir);
+    }
+    for (const dir of wanted) {
+      if (this.watchers.has(dir)) continue;
+      try {
+        const watcher = fs.watch(path.join(this.root, dir), (_event, filename) => {
+          const relative = dir && filename ? `${dir}/${filename}` : filename;
+          if (!relative || UNWATCHED.test(relative)) return;
+          if (this.watchTimer) clearTimeout(this.watchTimer);
+          this.watchTimer = setTimeout(() => {
+            this.watchTimer = null;
+            this.update().catch((error: unknown) => this.onBackgroundError(error instanceof Error ? error.message : "unknown error"));
+          }, WATCH_DEBOUNCE_MS);
+        });
+        watcher.on("error", () => {
+          watcher.close();
+          if (this.watchers.get(dir) === watcher) this.watchers.delete(dir);
+        });
+        this.watchers.set(dir, watcher);
+      } catch {
+        // A folder that vanished since the scan; the index still catches up at the start of every /ask.
+      }
+    }
+  }
+
+  private async refresh(onProgress?: (progress: IndexProgress) => void, signal?: AbortSignal): Promise<IndexProgress> {
+    const { endpoint, model } = this.target();
+    if (!this.loaded || this.model !== model) {
+      this.files = this.load(model);
+      this.model = model;
+      this.loaded = true;
+    }
+    const progress = (phase: IndexProgress["phase"], filesDone: number, filesTotal: number): IndexProgress => ({
+      phase,
+      filesDone,
+      filesTotal,
+      indexedFiles: this.files.size,
+      chunks: [...this.files.values()].reduce((sum, file) => sum + file.chunks.length, 0)
+    });
+    onProgress?.(progress("scanning", 0, 0));
+
+    const { files: found, dirs } = scanWorkspace(this.root);
+    let changed = false;
+    for (const relative of [...this.files.keys()]) {
+      if (found.has(relative)) continue;
+      this.files.delete(relative);
+      changed = true;
+    }
+    const stale = [...found].filter(([relative, stat]) => {
+      const known = this.files.get(relative);
+      return !known || known.mtimeMs !== stat.mtimeMs || known.size !== stat.size;
+    });
+
+    let done = 0;
+    try {
+      for (const [relative, stat] of stale) {
+        if (signal?.aborted) {
+          throw new Error("Indexing was cancelled.");
+        }
+        let text: string;
+        try {
+          text = fs.readFileSync(path.join(this.root, relative), "utf8");
+        } catch {
+          done += 1;
+          continue;
+        }
+        const hash = crypto.createHash("sha1").update(text).digest("hex");
+        const known = this.files.get(relative);
+        let chunks = known?.hash === hash ? known.chunks : [];
+        // Binary files stay in the index without chunks so they are not re-read on every update.
+        if (known?.hash !== hash && !text.includes("\u0000")) {
+          chunks = await this.embedFile(relative, text, endpoint, model, signal);
+        }
+        this.files.set(relative, { mtimeMs: stat.mtimeMs, size: stat.size, hash, chunks });
+        changed = true;
+        done += 1;
+        onProgress?.(progress("embedding", done, stale.length));
+      }
+    } finally {
+      // Partial progress is kept, so a cancelled first build resumes where it stopped.
+      if (changed) this.save();
+    }
+    this.watch(dirs);
+    const result = progress("ready", done, stale.length);
+    onProgress?.(result);
+    return result;
+  }
+
+  private async embedFile(relative: string, text: string, endpoint: string, model: string, signal?: AbortSignal): Promise<IndexedChunk[]> {
+    const pieces = chunkText(text);
+    const vectors: Float32Array[] = [];
+    for (let i = 0; i < pieces.length; i += EMBED_BATCH) {
+      const batch = pieces.slice(i, i + EMBED_BATCH);
+      // The path is part of the embedded text, so questions naming a file or module find it.
+      const input = batch.map((piece) => `${relative}:${piece.startLine}-${piece.endLine}\n${piece.text}`);
+      vectors.push(...(await embedWithOllama(endpoint, model, input, signal)).map(normalize));
+    }
+    return pieces.map((piece, index) => ({ startLine: piece.startLine, endLine: piece.endLine, vector: vectors[index] }));
+  }
+
+  private load(model: string): Map<string, IndexedFile> {
+    const dir = path.join(this.root, INDEX_DIR);
+    const files = new Map<string, IndexedFile>();
+    try {
+      const manifest = JSON.parse(fs.readFileSync(path.join(dir, MANIFEST_FILE), "utf8")) as IndexManifest;
+      if (manifest.version !== 1 || manifest.model !== model) return files;
+      const raw = fs.readFileSync(path.join(dir, VECTORS_FILE));
+      // Copied out because a pooled Buffer is not guaranteed to be 4-byte aligned.
+      const matrix = new Float32Array(raw.buffer.slice(raw.byteOffset, raw.byteOffset + raw.byteLength));
+      const width = manifest.dimensions;
+      for (const [relative, entry] of Object.entries(manifest.files)) {
+        const chunks = entry.chunks.map((chunk) => {
+          if ((chunk.row + 1) * width > matrix.length) throw new Error("vectors.bin is shorter than the manifest");
+          return { startLine: chunk.startLine, endLine: chunk.endLine, vector: matrix.slice(chunk.row * width, (chunk.row + 1) * width) };
+        });
+        files.set(relative, { mtimeMs: entry.mtimeMs, size: entry.size, hash: entry.hash, chunks });
+      }
+      return files;
+    } catch {
+      // A missing or damaged index is rebuilt from scratch.
+      return new Map();
+    }
+  }
+
+  private save(): void {
+    const dir = path.join(this.root, INDEX_DIR);
+    fs.mkdirSync(dir, { recursive: true });
+    const gitignore = path.join(dir, ".gitignore");
+    if (!fs.existsSync(gitignore)) fs.writeFileSync(gitignore, "*\n", "utf8");
+
+    const all = [...this.files.values()].flatMap((file) => file.chunks);
+    const width = all[0]?.vector.length ?? 0;
+    const matrix = new Float32Array(all.length * width);
+    const manifest: IndexManifest = { version: 1, model: this.model, dimensions: width, updatedAt: new Date().toISOString(), files: {} };
+    let row = 0;
+    for (const [relative, file] of this.files) {
+      manifest.files[relative] = {
+        mtimeMs: file.mtimeMs,
+        size: file.size,
+        hash: file.hash,
+        chunks: file.chunks.map((chunk) => {
+          matrix.set(chunk.vector, row * width);
+          row += 1;
+          return { startLine: chunk.startLine, endLine: chunk.endLine, row: row - 1 };
+        })
+      };
+    }
+    writeAtomic(path.join(dir, VECTORS_FILE), Buffer.from(matrix.buffer));
+    writeAtomic(path.join(dir, MANIFEST_FILE), JSON.stringify(manifest));
+  }
+}
+
+function fence(text: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(longest + 1);
+  return `${marker}\n${text}\n${marker}`;
+}
+
+export function buildAskPrompt(question: string, matches: WorkspaceMatch[]): string {
+  const excerpts = matches.map((match, index) => `[${index + 1}] ${match.path}:${match.startLine}-${match.endLine}\n${fence(match.text)}`);
+  return [
+    "Answer the question about this workspace using the excerpts below.",
+    "Cite the excerpts you rely on by location, e.g. [src/app.ts:10-49]. If they do not contain the answer, say so instead of guessing.",
+    "",
+    ...excerpts,
+    "",
+    `Question: ${question}`
+  ].join("\n");
+}
@@ -0,0 +1,109 @@
+import path from "node:path";
+import fs from "node:fs";
+import crypto from "node:crypto";
+
+const MAX_READ_BYTES = 64 * 1024;
+const MAX_LIST_ENTRIES = 500;
+const MAX_SEARCH_RESULTS = 100;
+const MAX_SEARCH_FILE_BYTES = 1024 * 1024;
+export const SKIPPED_DIRS = new Set([".git", "node_modules", "dist", "dist-electron", "release", ".vibe"]);
+
+// Name for data the app keeps about a workspace outside of it: the folder's name plus a hash of its full path, so two
+// checkouts with the same name stay apart.
+export function workspaceStorageKey(root: string): string {
+  const resolved = path.resolve(root);
+  const key = crypto
+    .createHash("sha1")
+    .update(process.platform === "win32" ? resolved.toLowerCase() : resolved)
+    .digest("hex")
+    .slice(0, 16);
+  const name = path.basename(resolved).replace(/[^A-Za-z0-9._-]/g, "_") || "root";
+  return `${name}-${key}`;
+}
+
+// Resolves `target` against the workspace root and refuses anything that lands outside it,
+// including escapes through symlinks or junctions inside the workspace.
+export function resolveInWorkspace(root: string, target: string): string {
+  const realRoot = fs.realpathSync(root);
+  const resolved = path.resolve(realRoot, target || ".");
+  assertInside(realRoot, resolved, target);
+
+  let existing = resolved;
+  while (!fs.existsSync(existing)) {
+    const parent = path.dirname(existing);
+    if (parent === existing) break;
+    existing = parent;
+  }
+  assertInside(realRoot, fs.realpathSync(existing), target);
+  return resolved;
+}
+
+function assertInside(root: string, candidate: string, original: string): void {
+  const relative = path.relative(root, candidate);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new Error(`Path "${original}" is outside the workspace root.`);
+  }
+}
+
+export function toWorkspaceRelative(root: string, absolute: string): string {
+  return path.relative(fs.realpathSync(root), absolute).split(path.sep).join("/") || ".";
+}
+
+export function readWorkspaceFile(root: string, target: string): string {
+  const file = resolveInWorkspace(root, target);
+  const stat = fs.statSync(file);
+  if (!stat.isFile()) {
+    throw new Error(`"${target}" is not a file.`);
+  }
+  const fd = fs.openSync(file, "r");
+  try {
+    const buffer = Buffer.alloc(Math.min(stat.size, MAX_READ_BYTES));
+    fs.readSync(fd, buffer, 0, buffer.length, 0);
+    const text = buffer.toString("utf8");
+    return stat.size > MAX_READ_BYTES ? `${text}\n[truncated: ${stat.size - MAX_READ_BYTES} more bytes]` : text;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+export function listWorkspaceDir(root: string, target: string): string {
+  const dir = resolveInWorkspace(root, target);
+  const entries = fs
+    .readdirSync(dir, { withFileTypes: true })
+    .map((entry) => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+    .sort((a, b) => a.localeCompare(b));
+  const shown = entries.slice(0, MAX_LIST_ENTRIES);
+  const more = entries.length > shown.length ? `\n[${entries.length - shown.length} more entries]` : "";
+  return shown.length ? `${shown.join("\n")}${more}` : "(empty directory)";
+}
+
+export function searchWorkspace(root: string, query: string, target = "."): string {
+  if (!query.trim()) {
+    throw new Error("Search query cannot be empty.");
+  }
+  const needle = query.toLowerCase();
+  const results: string[] = [];
+  const stack = [resolveInWorkspace(root, target)];
+
+  while (stack.length && results.length < MAX_SEARCH_RESULTS) {
+    const current = stack.pop() as string;
+    const stat = fs.statSync(current);
+    if (stat.isDirectory()) {
+      for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+        if (entry.isSymbolicLink() || (entry.isDirectory() && SKIPPED_DIRS.has(entry.name))) continue;
+        stack.push(path.join(current, entry.name));
+      }
+      continue;
+    }
+    if (!stat.isFile() || stat.size > MAX_SEARCH_FILE_BYTES) continue;
+    const text = fs.readFileSync(current, "utf8");
+    if (text.includes("\u0000")) continue;
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length && results.length < MAX_SEARCH_RESULTS; i += 1) {
+      if (lines[i].toLowerCase().includes(needle)) {
+        results.push(`${toWorkspaceRelative(root, current)}:${i + 1}: ${lines[i].trim().slice(0, 200)}`);
+      }
+    }
+  }
+  return results.length ? results.join("\n") : `No matches for "${query}".`;
+}
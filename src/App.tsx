@@ -3,8 +3,22 @@ import TerminalPane from "./components/TerminalPane";
 import SettingsVault from "./components/SettingsVault";
 import CommandPalette from "./components/CommandPalette";
 import QuickActionBar from "./components/QuickActionBar";
+import TelemetryPanel from "./components/TelemetryPanel";
+import AuditLogPanel from "./components/AuditLogPanel";
+import ComparePanel from "./components/ComparePanel";
 import { EnvironmentManager } from "./lib/environmentManager";
-import type { ExecutionMode, LayoutTemplate, ModelProvider, PaletteAction, PaneInputMode } from "./types";
+import type {
+  AgentProviderSummary,
+  AgentRoute,
+  CustomCommandSummary,
+  ExecutionMode,
+  LayoutTemplate,
+  ModelProvider,
+  OllamaEndpointHealth,
+  PaletteAction,
+  PaneInputMode,
+  ShellProfileSummary
+} from "./types";
 
 const environment = new EnvironmentManager();
 const UI_STATE_KEY = "vibe:ui-state:v1";
@@ -13,6 +27,8 @@ interface StoredUiState {
   template: LayoutTemplate;
   activePaneId: string;
   modelByPane: Record<string, ModelProvider>;
+  profileByPane?: Record<string, string>;
+  shellProfileByPane?: Record<string, string>;
   inputModeByPane: Record<string, PaneInputMode>;
 }
 
@@ -27,14 +43,24 @@ export default function App() {
   const [paneIds, setPaneIds] = useState<string[]>(environment.getPaneIds());
   const [vaultOpen, setVaultOpen] = useState(false);
   const [paletteOpen, setPaletteOpen] = useState(false);
+  const [telemetryOpen, setTelemetryOpen] = useState(false);
+  const [auditOpen, setAuditOpen] = useState(false);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [compareRequest, setCompareRequest] = useState({ paneId: "pane-1", prompt: "", seq: 0 });
   const [launcherOpen, setLauncherOpen] = useState(true);
   const [mode, setMode] = useState<ExecutionMode>("sandboxed");
+  const [agentProviders, setAgentProviders] = useState<AgentProviderSummary[]>([]);
+  const [customCommands, setCustomCommands] = useState<CustomCommandSummary[]>([]);
+  const [profileNames, setProfileNames] = useState<string[]>([]);
+  const [shellProfiles, setShellProfiles] = useState<ShellProfileSummary[]>([]);
   const [modelVersion, setModelVersion] = useState(0);
   const [activePaneId, setActivePaneId] = useState("pane-1");
   const [inputModeByPane, setInputModeByPane] = useState<Record<string, PaneInputMode>>({});
   const [restartSignalByPane, setRestartSignalByPane] = useState<Record<string, number>>({});
   const [clearSignalByPane, setClearSignalByPane] = useState<Record<string, number>>({});
+  const [exportSignalByPane, setExportSignalByPane] = useState<Record<string, number>>({});
   const [workspacePath, setWorkspacePath] = useState("Workspace");
+  const [ollamaHealth, setOllamaHealth] = useState<OllamaEndpointHealth[]>([]);
   const [runtime, setRuntime] = useState<{ node: string; electron: string; chrome: string }>({
     node: "-",
     electron: "-",
@@ -42,6 +68,15 @@ export default function App() {
   });
 
   const cls = useMemo(() => gridClass(template), [template]);
+  const agentRoutes = useMemo(() => agentProviders.map((provider) => provider.id), [agentProviders]);
+  // A comparison starts with the providers the visible panes are using, or every provider when they all share one.
+  const compareRoutes = useMemo<AgentRoute[]>(() => {
+    const used = paneIds
+      .map((paneId) => agentProviders.find((provider) => provider.label === environment.getModel(paneId))?.id)
+      .filter((route): route is AgentRoute => Boolean(route));
+    const distinct = [...new Set(used)];
+    return distinct.length > 1 ? distinct : agentRoutes;
+  }, [paneIds, agentProviders, agentRoutes, modelVersion]);
   const paletteActions = useMemo<PaletteAction[]>(
     () => [
       { id: "layout:2", title: "Switch to 2 Panes", hint: "workspace layout" },
@@ -51,16 +86,38 @@ export default function App() {
       { id: "pane:mode:interactive", title: "Set Active Pane to Interactive", hint: activePaneId },
       { id: "pane:restart", title: "Restart Active Pane", hint: activePaneId },
       { id: "pane:clear", title: "Clear Active Pane", hint: activePaneId },
-      { id: "vault:open", title: "Open Settings Vault", hint: "configuration" }
+      { id: "session:export", title: "Export Session", hint: `${activePaneId} to .vibe/sessions` },
+      { id: "compare:open", title: "Compare Models", hint: `prompt from ${activePaneId}` },
+      ...paneIds
+        .filter((paneId) => paneId !== activePaneId)
+        .flatMap((paneId): PaletteAction[] => [
+          { id: `pipe:agent:${paneId}`, title: `Pipe Output to ${paneId} Agent`, hint: `from ${activePaneId}` },
+          { id: `pipe:shell:${paneId}`, title: `Pipe Output to ${paneId} Shell`, hint: `from ${activePaneId}` }
+        ]),
+      ...shellProfiles.map((profile): PaletteAction => ({
+        id: `shell:${profile.name}`,
+        title: `Restart Active Pane with ${`${profile.icon} ${profile.name}`.trim()}`,
+        hint: `${activePaneId} · ${profile.executable}`
+      })),
+      { id: "vault:open", title: "Open Settings Vault", hint: "configuration" },
+      { id: "telemetry:open", title: "Show Agent Telemetry", hint: "workspace" },
+      { id: "audit:open", title: "Show Command Audit Log", hint: "workspace" }
     ],
-    [activePaneId]
+    [activePaneId, paneIds, shellProfiles]
   );
 
   useEffect(() => {
     if (!window.vibe) return;
-    void window.vibe.getVault().then((vault) => setMode(vault.executionMode));
+    void window.vibe.getVault().then((vault) => {
+      setMode(vault.executionMode);
+      setProfileNames(vault.agentProfiles.map((profile) => profile.name));
+    });
     void window.vibe.getRuntime().then((value) => setRuntime(value));
+    void window.vibe.listAgentProviders().then((value) => setAgentProviders(value));
     void window.vibe.getWorkspacePath().then((value) => setWorkspacePath(value));
+    void window.vibe.listCustomCommands().then((value) => setCustomCommands(value.commands));
+    void window.vibe.getOllamaHealth().then((value) => setOllamaHealth(value));
+    void window.vibe.listShellProfiles().then((value) => setShellProfiles(value));
 
     try {
       const raw = window.localStorage.getItem(UI_STATE_KEY);
@@ -69,7 +126,9 @@ export default function App() {
       if (![2, 4, 6].includes(parsed.template)) return;
       const nextPanes = environment.loadSnapshot({
         template: parsed.template,
-        modelByPane: parsed.modelByPane ?? {}
+        modelByPane: parsed.modelByPane ?? {},
+        profileByPane: parsed.profileByPane ?? {},
+        shellProfileByPane: parsed.shellProfileByPane ?? {}
       });
       setTemplate(parsed.template);
       setPaneIds(nextPanes);
@@ -86,6 +145,21 @@ export default function App() {
     }
   }, []);
 
+  useEffect(() => {
+    if (!window.vibe) return;
+    return window.vibe.onCustomCommandsChanged((value) => setCustomCommands(value.commands));
+  }, []);
+
+  useEffect(() => {
+    if (!window.vibe) return;
+    return window.vibe.onOllamaHealth((value) => setOllamaHealth(value));
+  }, []);
+
+  useEffect(() => {
+    if (!window.vibe) return;
+    void window.vibe.setActivePane(activePaneId);
+  }, [activePaneId]);
+
   useEffect(() => {
     const onKey = (event: KeyboardEvent): void => {
       if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k") {
@@ -106,6 +180,8 @@ export default function App() {
       template,
       activePaneId,
       modelByPane: snapshot.modelByPane,
+      profileByPane: snapshot.profileByPane,
+      shellProfileByPane: snapshot.shellProfileByPane,
       inputModeByPane
     };
     window.localStorage.setItem(UI_STATE_KEY, JSON.stringify(nextState));
@@ -176,12 +252,25 @@ export default function App() {
       case "vault:open":
         setVaultOpen(true);
         break;
+      case "telemetry:open":
+        setTelemetryOpen(true);
+        break;
+      case "audit:open":
+        setAuditOpen(true);
+        break;
       case "pane:restart":
         bumpSignal(activePaneId, setRestartSignalByPane);
         break;
       case "pane:clear":
         bumpSignal(activePaneId, setClearSignalByPane);
         break;
+      case "session:export":
+        bumpSignal(activePaneId, setExportSignalByPane);
+        break;
+      case "compare:open":
+        setCompareRequest((prev) => ({ ...prev, paneId: activePaneId }));
+        setCompareOpen(true);
+        break;
       case "pane:mode:shell":
         setInputModeByPane((prev) => ({ ...prev, [activePaneId]: "shell-line" }));
         break;
@@ -189,10 +278,24 @@ export default function App() {
         setInputModeByPane((prev) => ({ ...prev, [activePaneId]: "interactive-passthrough" }));
         break;
       default:
+        if (actionId.startsWith("pipe:")) {
+          const [, target, paneId] = actionId.split(":");
+          void window.vibe.pipeToPane(activePaneId, paneId, target === "shell" ? "shell" : "agent", undefined, "palette");
+        }
+        if (actionId.startsWith("shell:")) {
+          environment.setShellProfile(activePaneId, actionId.slice("shell:".length));
+          setModelVersion((v) => v + 1);
+          bumpSignal(activePaneId, setRestartSignalByPane);
+        }
         break;
     }
   }
 
+  function startComparison(paneId: string, prompt: string): void {
+    setCompareRequest((prev) => ({ paneId, prompt, seq: prompt ? prev.seq + 1 : prev.seq }));
+    setCompareOpen(true);
+  }
+
   async function createProject(): Promise<void> {
     const nextPath = await window.vibe.createProjectWorkspace();
     if (!nextPath) return;
@@ -213,7 +316,7 @@ export default function App() {
         <section className="launch-shell">
           <div className="launch-card">
             <div className="launch-title">Vibe-ADE</div>
-            <div className="launch-subtitle">Agent-at-work coding terminal for Windows.</div>
+            <div className="launch-subtitle">Agent-at-work coding terminal.</div>
             <button className="launch-primary" onClick={() => void createProject()}>
               Create New Project
             </button>
@@ -230,8 +333,12 @@ export default function App() {
             mode={mode}
             activePaneId={activePaneId}
             runtimeNode={runtime.node}
+            ollamaHealth={ollamaHealth}
+            onCheckOllama={() => void window.vibe.checkOllamaHealth().then((value) => setOllamaHealth(value))}
             onOpenPalette={() => setPaletteOpen(true)}
             onOpenVault={() => setVaultOpen(true)}
+            onOpenTelemetry={() => setTelemetryOpen(true)}
+            onOpenAudit={() => setAuditOpen(true)}
           />
 
           <section className={`terminal-grid ${cls}`}>
@@ -239,13 +346,21 @@ export default function App() {
               <TerminalPane
                 key={paneId}
                 paneId={paneId}
+                paneIds={paneIds}
                 filePath={workspacePath}
                 active={activePaneId === paneId}
                 onActivate={setActivePaneId}
                 model={environment.getModel(paneId)}
+                profile={environment.getProfile(paneId)}
+                profileNames={profileNames}
+                shellProfile={environment.getShellProfile(paneId)}
+                agentRoutes={agentRoutes}
+                customCommands={customCommands}
                 inputMode={inputModeByPane[paneId] ?? "shell-line"}
                 restartSignal={restartSignalByPane[paneId] ?? 0}
                 clearSignal={clearSignalByPane[paneId] ?? 0}
+                exportSignal={exportSignalByPane[paneId] ?? 0}
+                onCompare={startComparison}
                 onInputModeChange={(id, nextInputMode) => {
                   setInputModeByPane((prev) => ({ ...prev, [id]: nextInputMode }));
                 }}
@@ -253,6 +368,14 @@ export default function App() {
                   environment.setModel(id, next);
                   setModelVersion((v) => v + 1);
                 }}
+                onProfileChange={(id, next) => {
+                  environment.setProfile(id, next);
+                  setModelVersion((v) => v + 1);
+                }}
+                onShellProfileChange={(id, next) => {
+                  environment.setShellProfile(id, next);
+                  setModelVersion((v) => v + 1);
+                }}
               />
             ))}
           </section>
@@ -260,6 +383,18 @@ export default function App() {
       )}
       <CommandPalette open={paletteOpen} actions={paletteActions} onClose={() => setPaletteOpen(false)} onSelect={runPaletteAction} />
 
+      <ComparePanel
+        open={compareOpen}
+        paneId={compareRequest.paneId}
+        request={compareRequest}
+        providers={agentProviders}
+        defaultRoutes={compareRoutes}
+        onClose={() => setCompareOpen(false)}
+      />
+
+      <TelemetryPanel open={telemetryOpen} workspacePath={workspacePath} onClose={() => setTelemetryOpen(false)} />
+      <AuditLogPanel open={auditOpen} workspacePath={workspacePath} paneIds={paneIds} onClose={() => setAuditOpen(false)} />
+
       <SettingsVault
         open={vaultOpen}
         onClose={() => setVaultOpen(false)}
@@ -267,6 +402,11 @@ export default function App() {
           setMode(next);
           setVaultOpen(false);
         }}
+        onProvidersChanged={() => {
+          void window.vibe.listAgentProviders().then((value) => setAgentProviders(value));
+          void window.vibe.getVault().then((vault) => setProfileNames(vault.agentProfiles.map((profile) => profile.name)));
+          void window.vibe.listShellProfiles().then((value) => setShellProfiles(value));
+        }}
       />
     </main>
   );
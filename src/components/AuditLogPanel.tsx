@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import type { AuditExportFormat, AuditFilter, AuditOrigin, AuditPolicyOutcome, AuditRecord } from "../types";
+
+interface AuditLogPanelProps {
+  open: boolean;
+  workspacePath: string;
+  paneIds: string[];
+  onClose: () => void;
+}
+
+// Rendering thousands of rows makes the modal sluggish; the filters and the exports still cover every record.
+const MAX_ROWS = 500;
+
+const ORIGINS: AuditOrigin[] = ["user", "agent", "palette"];
+const POLICY_OUTCOMES: AuditPolicyOutcome[] = ["allow", "deny", "confirmed", "declined"];
+
+export default function AuditLogPanel({ open, workspacePath, paneIds, onClose }: AuditLogPanelProps) {
+  const [records, setRecords] = useState<AuditRecord[]>([]);
+  const [filter, setFilter] = useState<AuditFilter>({});
+  const [statusText, setStatusText] = useState("");
+  const [errorText, setErrorText] = useState("");
+
+  async function refresh(): Promise<void> {
+    try {
+      setRecords(await window.vibe.listAuditLog(filter));
+      setErrorText("");
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : "Could not read the audit log.");
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return;
+    void refresh();
+  }, [open, filter]);
+
+  async function exportLog(format: AuditExportFormat): Promise<void> {
+    try {
+      const result = await window.vibe.exportAuditLog(filter, format);
+      setStatusText(`${result.records} record(s) written to ${result.path}`);
+      setErrorText("");
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : "Could not export the audit log.");
+    }
+  }
+
+  if (!open) return null;
+
+  const panes = [...new Set([...paneIds, ...records.map((record) => record.paneId)])];
+  return (
+    <div className="vault-backdrop">
+      <div className="vault-card telemetry-card">
+        <h2>Command Audit Log</h2>
+        <div className="vault-hint">{`Every command sent to a shell in ${workspacePath}, kept in the app's data folder where the audited shells cannot rewrite it. Newest first.`}</div>
+        <div className="audit-filters">
+          <input
+            value={filter.text ?? ""}
+            placeholder="Search commands and policy reasons"
+            onChange={(e) => setFilter((prev) => ({ ...prev, text: e.target.value }))}
+          />
+          <select value={filter.paneId ?? ""} onChange={(e) => setFilter((prev) => ({ ...prev, paneId: e.target.value || undefined }))}>
+            <option value="">All panes</option>
+            {panes.map((paneId) => (
+              <option key={paneId} value={paneId}>
+                {paneId}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filter.origin ?? ""}
+            onChange={(e) => setFilter((prev) => ({ ...prev, origin: (e.target.value || undefined) as AuditOrigin | undefined }))}
+          >
+            <option value="">All origins</option>
+            {ORIGINS.map((origin) => (
+              <option key={origin} value={origin}>
+                {origin}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filter.policy ?? ""}
+            onChange={(e) => setFilter((prev) => ({ ...prev, policy: (e.target.value || undefined) as AuditPolicyOutcome | undefined }))}
+          >
+            <option value="">Any policy decision</option>
+            {POLICY_OUTCOMES.map((outcome) => (
+              <option key={outcome} value={outcome}>
+                {outcome}
+              </option>
+            ))}
+          </select>
+        </div>
+        {!records.length && <div className="activity-empty">No commands match.</div>}
+        {records.length > 0 && (
+          <div className="audit-scroll">
+            <table className="telemetry-table">
+              <thead>
+                <tr>
+                  <th>Time</th>
+                  <th>Pane</th>
+                  <th>Input</th>
+                  <th>Origin</th>
+                  <th>Command</th>
+                  <th>Mode</th>
+                  <th>Policy</th>
+                  <th>Exit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {records.slice(0, MAX_ROWS).map((record) => (
+                  <tr key={record.id}>
+                    <td>{new Date(record.ts).toLocaleString()}</td>
+                    <td>{record.paneId}</td>
+                    <td>{record.inputMode}</td>
+                    <td>{record.origin}</td>
+                    <td className="audit-command" title={record.command}>
+                      {record.command}
+                    </td>
+                    <td>{record.executionMode}</td>
+                    <td className={record.policy ? `audit-policy ${record.policy}` : ""} title={record.policyReason ?? ""}>
+                      {record.policy ?? "-"}
+                    </td>
+                    <td>{record.exitCode ?? "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {records.length > MAX_ROWS && <div className="vault-hint">{`Showing the newest ${MAX_ROWS} of ${records.length}; exports include every match.`}</div>}
+        {statusText && <div className="vault-hint">{statusText}</div>}
+        {errorText && <div className="vault-error">{errorText}</div>}
+        <div className="vault-actions">
+          <button onClick={() => void exportLog("jsonl")} disabled={!records.length}>
+            Export JSONL
+          </button>
+          <button onClick={() => void exportLog("csv")} disabled={!records.length}>
+            Export CSV
+          </button>
+          <button onClick={() => void refresh()}>Refresh</button>
+          <button onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useEffect, useRef, useState } from "react";
+import type { AgentProviderSummary, AgentRoute, AgentRunMetrics } from "../types";
+import { diffAnswers } from "../lib/answerDiff";
+
+interface ComparePanelProps {
+  open: boolean;
+  paneId: string;
+  // Bumping `seq` runs `prompt` straight away, as `/compare <prompt>` does.
+  request: { prompt: string; seq: number };
+  providers: AgentProviderSummary[];
+  defaultRoutes: AgentRoute[];
+  onClose: () => void;
+}
+
+interface CompareResult {
+  route: AgentRoute;
+  label: string;
+  model: string;
+  text: string;
+  done: boolean;
+  error?: string;
+  metrics?: AgentRunMetrics;
+}
+
+function formatMs(ms: number | null | undefined): string {
+  if (ms === null || ms === undefined) return "-";
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms)} ms`;
+}
+
+function formatStats(metrics: AgentRunMetrics | undefined): string {
+  if (!metrics) return "first token - · total - · tokens -";
+  const tokens = `${metrics.promptTokens ?? "?"} in / ${metrics.completionTokens ?? "?"} out`;
+  const rate = metrics.tokensPerSecond === null ? "" : ` · ${metrics.tokensPerSecond} tok/s`;
+  return `first token ${formatMs(metrics.firstTokenMs)} · total ${formatMs(metrics.totalMs)} · ${tokens}${rate}`;
+}
+
+export default function ComparePanel({ open, paneId, request, providers, defaultRoutes, onClose }: ComparePanelProps) {
+  const [prompt, setPrompt] = useState("");
+  const [selected, setSelected] = useState<AgentRoute[]>([]);
+  const [results, setResults] = useState<CompareResult[]>([]);
+  const [showDiff, setShowDiff] = useState(false);
+  const [baseRoute, setBaseRoute] = useState<AgentRoute>("");
+  const compareIdRef = useRef("");
+  const running = results.some((result) => !result.done);
+
+  useEffect(() => {
+    return window.vibe.onCompareUpdate((payload) => {
+      if (payload.compareId !== compareIdRef.current) return;
+      setResults((prev) =>
+        prev.map((result) =>
+          result.route === payload.route
+            ? {
+                ...result,
+                label: payload.label,
+                model: payload.model,
+                text: result.text + payload.chunk,
+                done: Boolean(payload.done),
+                error: payload.error,
+                metrics: payload.metrics ?? result.metrics
+              }
+            : result
+        )
+      );
+    });
+  }, []);
+
+  useEffect(() => {
+    if (open && !selected.length) setSelected(defaultRoutes);
+  }, [open, defaultRoutes]);
+
+  useEffect(() => {
+    if (request.seq <= 0) return;
+    setPrompt(request.prompt);
+    void run(request.prompt, selected.length ? selected : defaultRoutes);
+  }, [request.seq]);
+
+  async function run(text: string, routes: AgentRoute[]): Promise<void> {
+    if (!text.trim() || !routes.length) return;
+    stop();
+    const compareId = `compare-${Date.now()}`;
+    compareIdRef.current = compareId;
+    setResults(routes.map((route) => ({ route, label: route, model: "", text: "", done: false })));
+    if (!routes.includes(baseRoute)) setBaseRoute(routes[0]);
+    await window.vibe.compareModels(compareId, paneId, text.trim(), routes);
+  }
+
+  function stop(): void {
+    if (compareIdRef.current) void window.vibe.cancelComparison(compareIdRef.current);
+  }
+
+  function toggleRoute(route: AgentRoute): void {
+    setSelected((prev) => (prev.includes(route) ? prev.filter((value) => value !== route) : [...prev, route]));
+  }
+
+  function close(): void {
+    stop();
+    onClose();
+  }
+
+  if (!open) return null;
+
+  const base = results.find((result) => result.route === baseRoute);
+
+  return (
+    <div className="vault-backdrop">
+      <div className="vault-card compare-card">
+        <h2>Compare Models</h2>
+        <div className="vault-hint">{`The same prompt goes to every selected provider from ${paneId}; answers are not added to the pane's conversation.`}</div>
+        <textarea
+          rows={3}
+          placeholder="Prompt to compare. {{lastOutput}} and the other terminal variables work here too."
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+        />
+        <div className="compare-routes">
+          {providers.map((provider) => (
+            <button
+              key={provider.id}
+              className={selected.includes(provider.id) ? "filter-btn active" : "filter-btn"}
+              onClick={() => toggleRoute(provider.id)}
+            >
+              {`/${provider.id} ${provider.model}`}
+            </button>
+          ))}
+        </div>
+        {results.length > 1 && (
+          <div className="compare-toolbar">
+            <label>
+              <input type="checkbox" checked={showDiff} onChange={(e) => setShowDiff(e.target.checked)} />
+              Diff answers
+            </label>
+            {showDiff && (
+              <select value={baseRoute} onChange={(e) => setBaseRoute(e.target.value)}>
+                {results.map((result) => (
+                  <option key={result.route} value={result.route}>
+                    {`against /${result.route}`}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+        {results.length > 0 && (
+          <div className="compare-grid" style={{ gridTemplateColumns: `repeat(${results.length}, minmax(0, 1fr))` }}>
+            {results.map((result) => (
+              <section key={result.route} className="compare-column">
+                <div className="compare-head">
+                  <span>{`/${result.route} ${result.label}`}</span>
+                  <span>{result.model}</span>
+                </div>
+                <div className="compare-stats">{result.done ? formatStats(result.metrics) : "streaming..."}</div>
+                <pre className="compare-answer">
+                  {showDiff && base?.done && result.done && result.route !== base.route
+                    ? diffAnswers(base.text, result.text).map((part, index) => (
+                        <span key={index} className={`compare-diff ${part.type}`}>
+                          {part.text}
+                        </span>
+                      ))
+                    : result.text}
+                </pre>
+                {result.error && <div className="vault-error">{result.error}</div>}
+              </section>
+            ))}
+          </div>
+        )}
+        <div className="vault-actions">
+          <button onClick={stop} disabled={!running}>
+            Stop
+          </button>
+          <button onClick={() => void run(prompt, selected)} disabled={!prompt.trim() || !selected.length}>
+            Compare
+          </button>
+          <button onClick={close}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
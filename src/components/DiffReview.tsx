@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import type { EditProposal } from "../types";
+
+interface DiffReviewProps {
+  paneId: string;
+  proposals: EditProposal[];
+  conflicts: Record<string, string>;
+  onApply: (proposal: EditProposal, acceptedHunks: number[]) => void;
+  onDiscard: (proposal: EditProposal) => void;
+  onClose: () => void;
+}
+
+export default function DiffReview({ paneId, proposals, conflicts, onApply, onDiscard, onClose }: DiffReviewProps) {
+  const [selectedId, setSelectedId] = useState("");
+  const [rejectedHunks, setRejectedHunks] = useState<Record<string, number[]>>({});
+  const proposal = proposals.find((candidate) => candidate.id === selectedId) ?? proposals[0];
+
+  useEffect(() => {
+    if (proposal && proposal.id !== selectedId) setSelectedId(proposal.id);
+  }, [proposal, selectedId]);
+
+  if (!proposal) return null;
+
+  const rejected = rejectedHunks[proposal.id] ?? [];
+  const accepted = proposal.hunks.map((hunk) => hunk.index).filter((index) => !rejected.includes(index));
+  const conflict = conflicts[proposal.id];
+
+  function toggleHunk(index: number): void {
+    setRejectedHunks((prev) => {
+      const current = prev[proposal.id] ?? [];
+      const next = current.includes(index) ? current.filter((value) => value !== index) : [...current, index];
+      return { ...prev, [proposal.id]: next };
+    });
+  }
+
+  return (
+    <div className="vault-backdrop" onMouseDown={(event) => event.stopPropagation()}>
+      <div className="diff-review-card">
+        <div className="diff-review-head">
+          <h2>{`Review Changes (${paneId})`}</h2>
+          <button onClick={onClose}>Close</button>
+        </div>
+        {proposals.length > 1 && (
+          <div className="diff-review-files">
+            {proposals.map((candidate) => (
+              <button
+                key={candidate.id}
+                className={candidate.id === proposal.id ? "filter-btn active" : "filter-btn"}
+                onClick={() => setSelectedId(candidate.id)}
+              >
+                {candidate.path}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="diff-review-path">
+          {proposal.isNewFile ? `${proposal.path} (new file)` : proposal.path}
+          <span>{`${accepted.length}/${proposal.hunks.length} hunks accepted`}</span>
+        </div>
+        {conflict && <div className="vault-error">{conflict}</div>}
+        <div className="diff-review-hunks">
+          {proposal.hunks.map((hunk) => {
+            const isAccepted = !rejected.includes(hunk.index);
+            return (
+              <section key={hunk.index} className={isAccepted ? "diff-hunk" : "diff-hunk rejected"}>
+                <div className="diff-hunk-head">
+                  <span>{hunk.header}</span>
+                  <button className={isAccepted ? "mode-btn active" : "mode-btn"} onClick={() => toggleHunk(hunk.index)}>
+                    {isAccepted ? "Accepted" : "Rejected"}
+                  </button>
+                </div>
+                <pre>
+                  {hunk.lines.map((line, i) => (
+                    <div key={i} className={`diff-line ${line.type}`}>
+                      {`${line.type === "add" ? "+" : line.type === "remove" ? "-" : " "} ${line.text}`}
+                    </div>
+                  ))}
+                </pre>
+              </section>
+            );
+          })}
+        </div>
+        <div className="vault-actions">
+          <button onClick={() => onDiscard(proposal)}>Discard</button>
+          <button onClick={() => onApply(proposal, accepted)} disabled={Boolean(conflict)}>
+            {accepted.length === proposal.hunks.length ? "Apply All" : `Apply ${accepted.length} Hunks`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
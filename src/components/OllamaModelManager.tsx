@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import type { OllamaModel, OllamaModelDetails, OllamaPullProgress } from "../types";
+
+interface OllamaModelManagerProps {
+  endpoint: string;
+  model: string;
+  onModelChange: (model: string) => void;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes <= 0) return "0 B";
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  const exponent = Math.min(units.length - 1, Math.floor(Math.log(bytes) / Math.log(1024)));
+  return `${(bytes / 1024 ** exponent).toFixed(exponent >= 3 ? 1 : 0)} ${units[exponent]}`;
+}
+
+function isInstalled(models: OllamaModel[], name: string): boolean {
+  const normalize = (value: string): string => {
+    const trimmed = value.trim().toLowerCase();
+    return trimmed.includes(":") ? trimmed : `${trimmed}:latest`;
+  };
+  return models.some((candidate) => normalize(candidate.name) === normalize(name));
+}
+
+export default function OllamaModelManager({ endpoint, model, onModelChange }: OllamaModelManagerProps) {
+  const [models, setModels] = useState<OllamaModel[]>([]);
+  const [loadState, setLoadState] = useState<"loading" | "ready" | "error">("loading");
+  const [errorText, setErrorText] = useState("");
+  const [pullName, setPullName] = useState("");
+  const [pullProgress, setPullProgress] = useState<OllamaPullProgress | null>(null);
+  const [details, setDetails] = useState<OllamaModelDetails | null>(null);
+  const [pendingDelete, setPendingDelete] = useState("");
+  const pulling = Boolean(pullProgress && !pullProgress.done);
+
+  async function refresh(): Promise<void> {
+    setLoadState("loading");
+    try {
+      setModels(await window.vibe.listOllamaModels(endpoint));
+      setLoadState("ready");
+      setErrorText("");
+    } catch (error) {
+      setModels([]);
+      setLoadState("error");
+      setErrorText(error instanceof Error ? error.message : "Could not list Ollama models.");
+    }
+  }
+
+  useEffect(() => {
+    void refresh();
+  }, [endpoint]);
+
+  useEffect(() => {
+    return window.vibe.onOllamaPullProgress((progress) => setPullProgress(progress));
+  }, []);
+
+  async function pull(): Promise<void> {
+    const name = pullName.trim();
+    if (!name) return;
+    setPullProgress({ model: name, status: "starting", completed: 0, total: 0, done: false });
+    setErrorText("");
+    try {
+      await window.vibe.pullOllamaModel(endpoint, name);
+      setPullName("");
+      await refresh();
+      onModelChange(name);
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : `Could not pull ${name}.`);
+    }
+  }
+
+  async function showDetails(name: string): Promise<void> {
+    if (details?.name === name) {
+      setDetails(null);
+      return;
+    }
+    try {
+      setDetails(await window.vibe.showOllamaModel(endpoint, name));
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : `Could not load details for ${name}.`);
+    }
+  }
+
+  async function remove(name: string): Promise<void> {
+    if (pendingDelete !== name) {
+      setPendingDelete(name);
+      return;
+    }
+    setPendingDelete("");
+    try {
+      await window.vibe.deleteOllamaModel(endpoint, name);
+      if (details?.name === name) setDetails(null);
+      await refresh();
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : `Could not delete ${name}.`);
+    }
+  }
+
+  const percent = pullProgress && pullProgress.total > 0 ? Math.round((pullProgress.completed / pullProgress.total) * 100) : null;
+
+  return (
+    <div className="provider-group">
+      <div className="provider-group-head">
+        <span>Local Models (Ollama)</span>
+        <button onClick={() => void refresh()} disabled={loadState === "loading"}>
+          {loadState === "loading" ? "Loading..." : "Refresh"}
+        </button>
+      </div>
+      <div className="provider-card">
+        <label className="provider-wide">
+          Local Model
+          <input value={model} list="ollama-installed-models" onChange={(e) => onModelChange(e.target.value)} />
+          <datalist id="ollama-installed-models">
+            {models.map((candidate) => (
+              <option key={candidate.name} value={candidate.name} />
+            ))}
+          </datalist>
+        </label>
+        {loadState === "ready" && model.trim() && !isInstalled(models, model) && (
+          <div className="vault-test failed">{`"${model}" is not installed. Pull it below or pick an installed model.`}</div>
+        )}
+        <div className="model-list provider-wide">
+          {loadState === "ready" && !models.length && <div className="vault-hint">No models installed yet.</div>}
+          {models.map((candidate) => (
+            <div key={candidate.name} className={isInstalled([candidate], model) ? "model-row active" : "model-row"}>
+              <span className="model-name">{candidate.name}</span>
+              <span className="model-meta">
+                {[candidate.family, candidate.parameterSize, candidate.quantization, formatBytes(candidate.size)].filter(Boolean).join(" · ")}
+              </span>
+              <span className="model-actions">
+                <button onClick={() => onModelChange(candidate.name)} disabled={isInstalled([candidate], model)}>
+                  Use
+                </button>
+                <button onClick={() => void showDetails(candidate.name)}>{details?.name === candidate.name ? "Hide" : "Details"}</button>
+                <button onClick={() => void remove(candidate.name)}>{pendingDelete === candidate.name ? "Confirm" : "Delete"}</button>
+              </span>
+            </div>
+          ))}
+        </div>
+        {details && (
+          <pre className="model-details provider-wide">
+            {[
+              `${details.name}`,
+              `Family: ${details.family || "unknown"}  Parameters: ${details.parameterSize || "unknown"}  Quantization: ${details.quantization || "unknown"}`,
+              `Format: ${details.format || "unknown"}  Context length: ${details.contextLength ?? "unknown"}`,
+              details.parameters && `\nParameters:\n${details.parameters}`,
+              details.template && `\nTemplate:\n${details.template}`,
+              details.license && `\nLicense:\n${details.license}`
+            ]
+              .filter(Boolean)
+              .join("\n")}
+          </pre>
+        )}
+        <label className="provider-wide">
+          Pull Model
+          <span className="model-pull">
+            <input
+              value={pullName}
+              placeholder="e.g. qwen2.5-coder:7b"
+              disabled={pulling}
+              onChange={(e) => setPullName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  void pull();
+                }
+              }}
+            />
+            {pulling ? (
+              <button onClick={() => void window.vibe.cancelOllamaPull(pullProgress?.model ?? "")}>Cancel</button>
+            ) : (
+              <button onClick={() => void pull()} disabled={!pullName.trim()}>
+                Pull
+              </button>
+            )}
+          </span>
+        </label>
+        {pullProgress && !pullProgress.error && (
+          <div className="model-progress provider-wide">
+            <div className="model-progress-bar">
+              <div style={{ width: `${pullProgress.done ? 100 : percent ?? 0}%` }} />
+            </div>
+            <span>
+              {`${pullProgress.model}: ${pullProgress.status}${
+                percent !== null && !pullProgress.done ? ` ${percent}% (${formatBytes(pullProgress.completed)} / ${formatBytes(pullProgress.total)})` : ""
+              }`}
+            </span>
+          </div>
+        )}
+        {errorText && <div className="vault-test failed">{errorText}</div>}
+      </div>
+    </div>
+  );
+}
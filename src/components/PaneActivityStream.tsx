@@ -1,8 +1,13 @@
-import type { ActivityFilter, PaneActivityItem } from "../types";
+import { useState } from "react";
+import { isSingleLineCommand } from "../lib/codeBlocks";
+import type { ActivityFilter, AgentRunMetrics, PaneActivityItem, ProposedFileEdit, SuggestedCommand } from "../types";
 
 interface PaneActivityStreamProps {
   items: PaneActivityItem[];
   filter: ActivityFilter;
+  onRunCommand: (command: SuggestedCommand) => void;
+  onEditCommand: (command: SuggestedCommand) => void;
+  onReviewEdit: (edit: ProposedFileEdit) => void;
 }
 
 function formatTime(epochMs: number): string {
@@ -10,22 +15,79 @@ function formatTime(epochMs: number): string {
   return `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
 }
 
-export default function PaneActivityStream({ items, filter }: PaneActivityStreamProps) {
+function formatMetrics(metrics: AgentRunMetrics): string {
+  const parts = [metrics.model];
+  if (metrics.firstTokenMs !== null) parts.push(`first token ${metrics.firstTokenMs} ms`);
+  parts.push(`total ${(metrics.totalMs / 1000).toFixed(1)} s`);
+  if (metrics.promptTokens !== null || metrics.completionTokens !== null) {
+    parts.push(`${metrics.promptTokens ?? "?"} in / ${metrics.completionTokens ?? "?"} out tokens`);
+  }
+  if (metrics.tokensPerSecond !== null) parts.push(`${metrics.tokensPerSecond} tok/s`);
+  if (metrics.retries) parts.push(`${metrics.retries} ${metrics.retries === 1 ? "retry" : "retries"}`);
+  return parts.join(" · ");
+}
+
+export default function PaneActivityStream({ items, filter, onRunCommand, onEditCommand, onReviewEdit }: PaneActivityStreamProps) {
+  const [copiedId, setCopiedId] = useState("");
   const visible = filter === "all" ? items : items.filter((item) => item.type === filter);
   if (!visible.length) {
     return <div className="activity-empty">No activity yet. Run a command to begin.</div>;
   }
 
+  async function copy(key: string, code: string): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopiedId(key);
+      window.setTimeout(() => setCopiedId((prev) => (prev === key ? "" : prev)), 1200);
+    } catch {
+      // Clipboard access can be denied; copying is best-effort.
+    }
+  }
+
   return (
     <div className="activity-stream">
       {visible.map((item) => (
         <article key={item.id} className={`activity-item ${item.type} ${item.severity ?? "info"}`}>
           <div className="activity-meta">
             <span className="activity-title">{item.title}</span>
+            {item.provenance && <span className="activity-provenance">{item.provenance}</span>}
             <span className="activity-time">{formatTime(item.timestamp)}</span>
           </div>
           <div className="activity-summary">{item.summary}</div>
+          {item.metrics && <div className="activity-metrics">{formatMetrics(item.metrics)}</div>}
           {item.details && <pre className="activity-details">{item.details}</pre>}
+          {item.commands?.map((command) => {
+            const key = `${item.id}:${command.id}`;
+            return (
+              <div key={key} className="activity-command">
+                <div className="activity-command-head">
+                  <span>{command.language}</span>
+                  <span className="activity-command-actions">
+                    <button onClick={() => onRunCommand(command)}>Run</button>
+                    <button
+                      disabled={!isSingleLineCommand(command.code)}
+                      title={isSingleLineCommand(command.code) ? undefined : "Heredocs cannot be edited in the single-line prompt"}
+                      onClick={() => onEditCommand(command)}
+                    >
+                      Edit
+                    </button>
+                    <button onClick={() => void copy(key, command.code)}>{copiedId === key ? "Copied" : "Copy"}</button>
+                  </span>
+                </div>
+                <pre>{command.code}</pre>
+              </div>
+            );
+          })}
+          {item.edits?.map((edit) => (
+            <div key={`${item.id}:${edit.path}`} className="activity-command">
+              <div className="activity-command-head">
+                <span>{edit.path}</span>
+                <span className="activity-command-actions">
+                  <button onClick={() => onReviewEdit(edit)}>Review Change</button>
+                </span>
+              </div>
+            </div>
+          ))}
         </article>
       ))}
     </div>
@@ -1,18 +1,26 @@
-import type { PaneInputMode, ModelProvider } from "../types";
+import type { PaneInputMode, ModelProvider, ShellProfileSummary } from "../types";
 
 interface PaneContextHeaderProps {
   filePath: string;
   model: ModelProvider;
+  profile: string;
+  shell: ShellProfileSummary | null;
   inputMode: PaneInputMode;
   sessionStatus: "ready" | "exited";
 }
 
-export default function PaneContextHeader({ filePath, model, inputMode, sessionStatus }: PaneContextHeaderProps) {
+export default function PaneContextHeader({ filePath, model, profile, shell, inputMode, sessionStatus }: PaneContextHeaderProps) {
   return (
     <div className="pane-context-header">
       <div className="pane-context-path">{filePath}</div>
       <div className="pane-context-pills">
         <span className="context-pill">{model}</span>
+        {profile && <span className="context-pill profile">{profile}</span>}
+        {shell && (
+          <span className="context-pill shell-profile" title={shell.executable}>
+            {`${shell.icon} ${shell.name}`.trim()}
+          </span>
+        )}
         <span className={`context-pill ${inputMode === "interactive-passthrough" ? "interactive" : "shell"}`}>
           {inputMode === "interactive-passthrough" ? "INTERACTIVE" : "SHELL"}
         </span>
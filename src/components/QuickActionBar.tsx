@@ -1,22 +1,67 @@
+import type { OllamaEndpointHealth, OllamaHealthState } from "../types";
+
 interface QuickActionBarProps {
   mode: string;
   activePaneId: string;
   runtimeNode: string;
+  ollamaHealth: OllamaEndpointHealth[];
+  onCheckOllama: () => void;
   onOpenPalette: () => void;
   onOpenVault: () => void;
+  onOpenTelemetry: () => void;
+  onOpenAudit: () => void;
+}
+
+// The pill shows the worst endpoint; the tooltip lists each one.
+const STATE_RANK: OllamaHealthState[] = ["down", "loading", "unknown", "up"];
+
+function ollamaPillText(worst: OllamaEndpointHealth): string {
+  if (worst.state === "loading") return `Loading ${worst.loadingModels[0] ?? "model"}`;
+  if (worst.state === "unknown") return "Ollama ...";
+  return `Ollama ${worst.state}`;
+}
+
+function describeEndpoint(health: OllamaEndpointHealth): string {
+  const detail =
+    health.state === "down"
+      ? health.error ?? "not responding"
+      : `${health.version ? `v${health.version}, ` : ""}${health.latencyMs ?? "?"} ms, loaded: ${health.loadedModels.join(", ") || "none"}`;
+  return `${health.endpoint}: ${health.state} (${detail})`;
 }
 
-export default function QuickActionBar({ mode, activePaneId, runtimeNode, onOpenPalette, onOpenVault }: QuickActionBarProps) {
+export default function QuickActionBar({
+  mode,
+  activePaneId,
+  runtimeNode,
+  ollamaHealth,
+  onCheckOllama,
+  onOpenPalette,
+  onOpenVault,
+  onOpenTelemetry,
+  onOpenAudit
+}: QuickActionBarProps) {
+  const worst = [...ollamaHealth].sort((a, b) => STATE_RANK.indexOf(a.state) - STATE_RANK.indexOf(b.state))[0];
   return (
     <header className="workspace-topbar">
       <div className="workspace-brand">
         <h1>Vibe-ADE</h1>
         <span className={`workspace-pill ${mode}`}>{mode}</span>
         <span className="workspace-pill neutral">{`Node v${runtimeNode}`}</span>
+        {worst && (
+          <button
+            className={`workspace-pill ollama-${worst.state}`}
+            title={`${ollamaHealth.map(describeEndpoint).join("\n")}\nClick to check now.`}
+            onClick={onCheckOllama}
+          >
+            {ollamaPillText(worst)}
+          </button>
+        )}
       </div>
       <div className="workspace-actions">
         <span className="workspace-active-pane">{`Active ${activePaneId}`}</span>
         <button onClick={onOpenPalette}>Palette</button>
+        <button onClick={onOpenTelemetry}>Telemetry</button>
+        <button onClick={onOpenAudit}>Audit</button>
         <button onClick={onOpenVault}>Vault</button>
       </div>
     </header>
@@ -1,30 +1,218 @@
 import { useEffect, useState } from "react";
-import type { ExecutionMode, VaultSettings } from "../types";
+import type {
+  AgentProfile,
+  AgentProviderConfig,
+  AgentProviderKind,
+  AgentQueueOrder,
+  AgentTestResult,
+  CloudFallbackPolicy,
+  ExecutionMode,
+  PolicyPreset,
+  ShellProfile,
+  ShellProfileSummary,
+  VaultSettings
+} from "../types";
+import OllamaModelManager from "./OllamaModelManager";
 
 interface SettingsVaultProps {
   open: boolean;
   onClose: () => void;
   onExecutionModeChanged: (mode: ExecutionMode) => void;
+  onProvidersChanged: () => void;
 }
 
 const defaultVault: VaultSettings = {
   cloudApiKey: "",
   cloudApiBaseUrl: "https://api.openai.com/v1/chat/completions",
-  localModel: "llama3.2",
   cloudModel: "gpt-4o",
   executionMode: "sandboxed",
-  systemWideAcknowledged: false
+  systemWideAcknowledged: false,
+  policyPreset: "standard",
+  agentProviders: [
+    {
+      id: "local",
+      kind: "ollama",
+      label: "Local",
+      endpoint: "http://127.0.0.1:11434",
+      model: "llama3.2",
+      apiKey: "",
+      timeoutMs: 20000,
+      retries: 1,
+      maxConcurrent: 1
+    }
+  ],
+  cloudFallback: "on-error",
+  agentLoopRoute: "local",
+  agentStepBudget: 8,
+  agentProfiles: [],
+  agentQueueOrder: "fifo",
+  embeddingModel: "nomic-embed-text",
+  ollamaWarmUp: false,
+  shellProfiles: [],
+  defaultShellProfile: ""
+};
+
+const providerKindLabels: Record<AgentProviderKind, string> = {
+  ollama: "Ollama",
+  "openai-compatible": "OpenAI-compatible (llama.cpp, LM Studio, vLLM)",
+  mock: "Mock (offline)"
+};
+
+const fallbackLabels: Record<CloudFallbackPolicy, string> = {
+  never: "Never fall back",
+  "on-error": "Fall back to /local on any error",
+  "on-timeout": "Fall back to /local on timeout only"
+};
+
+const policyPresetLabels: Record<PolicyPreset, string> = {
+  strict: "Strict: reads run, everything else asks first",
+  standard: "Standard: deletes and force pushes ask first",
+  permissive: "Permissive: only machine-level commands are blocked"
 };
 
-export default function SettingsVault({ open, onClose, onExecutionModeChanged }: SettingsVaultProps) {
+function cloudProviderConfig(vault: VaultSettings): AgentProviderConfig {
+  return {
+    id: "cloud",
+    kind: "openai-compatible",
+    label: "Cloud",
+    endpoint: vault.cloudApiBaseUrl,
+    model: vault.cloudModel,
+    apiKey: vault.cloudApiKey,
+    timeoutMs: 30000,
+    retries: 0,
+    maxConcurrent: 4
+  };
+}
+
+function newProvider(existing: AgentProviderConfig[]): AgentProviderConfig {
+  let index = existing.length + 1;
+  while (existing.some((provider) => provider.id === `provider-${index}`)) index += 1;
+  return {
+    id: `provider-${index}`,
+    kind: "openai-compatible",
+    label: `Provider ${index}`,
+    endpoint: "http://127.0.0.1:1234/v1/chat/completions",
+    model: "",
+    apiKey: "",
+    timeoutMs: 30000,
+    retries: 1,
+    maxConcurrent: 2
+  };
+}
+
+const numericProfileOptions: Array<{ key: string; label: string; step: number }> = [
+  { key: "temperature", label: "Temperature", step: 0.1 },
+  { key: "num_ctx", label: "Context (num_ctx)", step: 1024 },
+  { key: "num_predict", label: "Max Tokens (num_predict)", step: 128 }
+];
+
+function newProfile(existing: AgentProfile[]): AgentProfile {
+  let index = existing.length + 1;
+  while (existing.some((profile) => profile.name === `profile-${index}`)) index += 1;
+  return { name: `profile-${index}`, route: "", model: "", systemPrompt: "", options: {} };
+}
+
+function newShellProfile(existing: ShellProfile[]): ShellProfile {
+  let index = existing.length + 1;
+  while (existing.some((profile) => profile.name === `shell-${index}`)) index += 1;
+  return { name: `shell-${index}`, executable: "", args: [], env: {}, startupCommand: "", icon: "" };
+}
+
+function formatEnv(env: Record<string, string>): string {
+  return Object.entries(env)
+    .map(([key, value]) => `${key}=${value}`)
+    .join("\n");
+}
+
+// `KEY=VALUE` per line; lines without `=` are dropped.
+function parseEnv(text: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const split = line.indexOf("=");
+    if (split > 0) env[line.slice(0, split).trim()] = line.slice(split + 1);
+  }
+  return env;
+}
+
+// Blank inputs remove the option so the backend default applies.
+function withOption(profile: AgentProfile, key: string, value: number | string[] | null): AgentProfile {
+  const { [key]: _previous, ...options } = profile.options;
+  return { ...profile, options: value === null ? options : { ...options, [key]: value } };
+}
+
+export default function SettingsVault({ open, onClose, onExecutionModeChanged, onProvidersChanged }: SettingsVaultProps) {
   const [vault, setVault] = useState<VaultSettings>(defaultVault);
   const [saveState, setSaveState] = useState<"idle" | "saving" | "saved" | "error">("idle");
   const [errorText, setErrorText] = useState("");
+  const [testResults, setTestResults] = useState<Record<string, AgentTestResult | "testing">>({});
+  const [detectedShells, setDetectedShells] = useState<ShellProfileSummary[]>([]);
+  const localProvider = vault.agentProviders.find((provider) => provider.id === "local");
+
+  function updateProfile(index: number, update: (profile: AgentProfile) => AgentProfile): void {
+    setVault((prev) => ({
+      ...prev,
+      agentProfiles: prev.agentProfiles.map((profile, i) => (i === index ? update(profile) : profile))
+    }));
+  }
+
+  function updateShellProfile(index: number, patch: Partial<ShellProfile>): void {
+    setVault((prev) => ({
+      ...prev,
+      shellProfiles: prev.shellProfiles.map((profile, i) => (i === index ? { ...profile, ...patch } : profile))
+    }));
+  }
+
+  function updateProvider(index: number, patch: Partial<AgentProviderConfig>): void {
+    setVault((prev) => ({
+      ...prev,
+      agentProviders: prev.agentProviders.map((provider, i) => (i === index ? { ...provider, ...patch } : provider))
+    }));
+  }
+
+  async function testConnection(key: string, config: AgentProviderConfig): Promise<void> {
+    setTestResults((prev) => ({ ...prev, [key]: "testing" }));
+    const result = await window.vibe.testAgentProvider(config);
+    setTestResults((prev) => ({ ...prev, [key]: result }));
+  }
+
+  function renderTestResult(key: string) {
+    const result = testResults[key];
+    if (!result || result === "testing") return null;
+    return <div className={result.ok ? "vault-test ok" : "vault-test failed"}>{result.message}</div>;
+  }
 
   function validateVault(): string {
-    if (!vault.localModel.trim()) {
+    if (localProvider && !localProvider.model.trim()) {
       return "Local model cannot be empty.";
     }
+    const ids = vault.agentProviders.map((provider) => provider.id);
+    if (new Set(ids).size !== ids.length) {
+      return "Each provider needs a unique route.";
+    }
+    const overLimit = vault.agentProviders.find(
+      (provider) => !Number.isInteger(provider.maxConcurrent) || provider.maxConcurrent < 1 || provider.maxConcurrent > 16
+    );
+    if (overLimit) {
+      return `Parallel requests for /${overLimit.id} must be between 1 and 16.`;
+    }
+    const profileNames = vault.agentProfiles.map((profile) => profile.name);
+    if (new Set(profileNames).size !== profileNames.length) {
+      return "Each profile needs a unique name.";
+    }
+    const shellNames = vault.shellProfiles.map((profile) => profile.name);
+    if (new Set(shellNames).size !== shellNames.length) {
+      return "Each shell profile needs a unique name.";
+    }
+    const missingExecutable = vault.shellProfiles.find((profile) => !profile.executable.trim());
+    if (missingExecutable) {
+      return `Shell profile "${missingExecutable.name}" needs an executable.`;
+    }
+    if (!Number.isInteger(vault.agentStepBudget) || vault.agentStepBudget < 1 || vault.agentStepBudget > 50) {
+      return "Agent step budget must be between 1 and 50.";
+    }
+    if (vault.cloudApiKey && !vault.cloudModel.trim()) {
+      return "Cloud model cannot be empty.";
+    }
     if (vault.executionMode === "system-wide" && !vault.systemWideAcknowledged) {
       return "You must acknowledge System-Wide mode risk before saving.";
     }
@@ -34,6 +222,7 @@ export default function SettingsVault({ open, onClose, onExecutionModeChanged }:
   useEffect(() => {
     if (!open) return;
     void window.vibe.getVault().then((value) => setVault(value));
+    void window.vibe.listShellProfiles().then((value) => setDetectedShells(value.filter((profile) => profile.detected)));
   }, [open]);
 
   async function save(): Promise<void> {
@@ -48,6 +237,7 @@ export default function SettingsVault({ open, onClose, onExecutionModeChanged }:
       setSaveState("saving");
       setErrorText("");
       await window.vibe.setVault(vault);
+      onProvidersChanged();
       onExecutionModeChanged(vault.executionMode);
       setSaveState("saved");
       window.setTimeout(() => setSaveState("idle"), 1400);
@@ -64,10 +254,396 @@ export default function SettingsVault({ open, onClose, onExecutionModeChanged }:
       <div className="vault-card">
         <h2>Settings Vault</h2>
 
-        <label>
-          Local Model (Ollama)
-          <input value={vault.localModel} onChange={(e) => setVault((prev) => ({ ...prev, localModel: e.target.value }))} />
-        </label>
+        {localProvider?.kind === "ollama" && (
+          <OllamaModelManager
+            endpoint={localProvider.endpoint}
+            model={localProvider.model}
+            onModelChange={(model) => updateProvider(vault.agentProviders.indexOf(localProvider), { model })}
+          />
+        )}
+
+        <div className="provider-group">
+          <div className="provider-group-head">
+            <span>Cloud (/cloud)</span>
+            <button onClick={() => void testConnection("cloud", cloudProviderConfig(vault))} disabled={testResults.cloud === "testing"}>
+              {testResults.cloud === "testing" ? "Testing..." : "Test Connection"}
+            </button>
+          </div>
+          <div className="provider-card">
+            <label className="provider-wide">
+              API Base URL
+              <input value={vault.cloudApiBaseUrl} onChange={(e) => setVault((prev) => ({ ...prev, cloudApiBaseUrl: e.target.value }))} />
+            </label>
+            <label>
+              API Key
+              <input
+                type="password"
+                value={vault.cloudApiKey}
+                onChange={(e) => setVault((prev) => ({ ...prev, cloudApiKey: e.target.value }))}
+              />
+            </label>
+            <label>
+              Cloud Model
+              <input value={vault.cloudModel} onChange={(e) => setVault((prev) => ({ ...prev, cloudModel: e.target.value }))} />
+            </label>
+            <label className="provider-wide">
+              Fallback (this workspace)
+              <select
+                value={vault.cloudFallback}
+                onChange={(e) => setVault((prev) => ({ ...prev, cloudFallback: e.target.value as CloudFallbackPolicy }))}
+              >
+                {Object.entries(fallbackLabels).map(([policy, label]) => (
+                  <option key={policy} value={policy}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {renderTestResult("cloud")}
+          </div>
+        </div>
+
+        <div className="provider-group">
+          <div className="provider-group-head">
+            <span>Agent Providers</span>
+            <button
+              onClick={() => setVault((prev) => ({ ...prev, agentProviders: [...prev.agentProviders, newProvider(prev.agentProviders)] }))}
+            >
+              Add Provider
+            </button>
+          </div>
+          {vault.agentProviders.map((provider, index) => (
+            <div key={index} className="provider-card">
+              <label>
+                Route
+                <input
+                  value={provider.id}
+                  disabled={provider.id === "local"}
+                  onChange={(e) => updateProvider(index, { id: e.target.value.trim().toLowerCase() })}
+                />
+              </label>
+              <label>
+                Label
+                <input value={provider.label} onChange={(e) => updateProvider(index, { label: e.target.value })} />
+              </label>
+              <label>
+                Kind
+                <select value={provider.kind} onChange={(e) => updateProvider(index, { kind: e.target.value as AgentProviderKind })}>
+                  {Object.entries(providerKindLabels).map(([kind, label]) => (
+                    <option key={kind} value={kind}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Model
+                <input value={provider.model} onChange={(e) => updateProvider(index, { model: e.target.value })} />
+              </label>
+              {provider.kind !== "mock" && (
+                <label className="provider-wide">
+                  Endpoint
+                  <input value={provider.endpoint} onChange={(e) => updateProvider(index, { endpoint: e.target.value })} />
+                </label>
+              )}
+              {provider.kind === "openai-compatible" && (
+                <label className="provider-wide">
+                  API Key (optional)
+                  <input type="password" value={provider.apiKey} onChange={(e) => updateProvider(index, { apiKey: e.target.value })} />
+                </label>
+              )}
+              <label>
+                Idle Timeout (ms)
+                <input
+                  type="number"
+                  min={1000}
+                  step={1000}
+                  value={provider.timeoutMs}
+                  onChange={(e) => updateProvider(index, { timeoutMs: Number(e.target.value) })}
+                />
+              </label>
+              <label>
+                Retries
+                <input
+                  type="number"
+                  min={0}
+                  max={5}
+                  value={provider.retries}
+                  onChange={(e) => updateProvider(index, { retries: Number(e.target.value) })}
+                />
+              </label>
+              <label>
+                Parallel Requests
+                <input
+                  type="number"
+                  min={1}
+                  max={16}
+                  value={provider.maxConcurrent}
+                  onChange={(e) => updateProvider(index, { maxConcurrent: Number(e.target.value) })}
+                />
+              </label>
+              <div className="provider-actions">
+                <span>{`/${provider.id} <prompt>`}</span>
+                <span>
+                  <button onClick={() => void testConnection(`provider:${index}`, provider)} disabled={testResults[`provider:${index}`] === "testing"}>
+                    {testResults[`provider:${index}`] === "testing" ? "Testing..." : "Test"}
+                  </button>
+                  {provider.id !== "local" && (
+                    <button
+                      onClick={() =>
+                        setVault((prev) => ({ ...prev, agentProviders: prev.agentProviders.filter((_, i) => i !== index) }))
+                      }
+                    >
+                      Remove
+                    </button>
+                  )}
+                </span>
+              </div>
+              {renderTestResult(`provider:${index}`)}
+            </div>
+          ))}
+        </div>
+
+        <div className="provider-group">
+          <div className="provider-group-head">
+            <span>Autonomous Agent (/agent)</span>
+          </div>
+          <div className="provider-card">
+            <label>
+              Provider
+              <select value={vault.agentLoopRoute} onChange={(e) => setVault((prev) => ({ ...prev, agentLoopRoute: e.target.value }))}>
+                {[...vault.agentProviders.map((provider) => provider.id), "cloud"].map((route) => (
+                  <option key={route} value={route}>
+                    {`/${route}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Step Budget
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={vault.agentStepBudget}
+                onChange={(e) => setVault((prev) => ({ ...prev, agentStepBudget: Number(e.target.value) }))}
+              />
+            </label>
+            <div className="vault-hint provider-wide">Sandboxed mode asks for approval before every tool call. File tools are confined to the workspace root.</div>
+          </div>
+        </div>
+
+        <div className="provider-group">
+          <div className="provider-group-head">
+            <span>Request Queue</span>
+          </div>
+          <div className="provider-card">
+            <label>
+              Order
+              <select
+                value={vault.agentQueueOrder}
+                onChange={(e) => setVault((prev) => ({ ...prev, agentQueueOrder: e.target.value as AgentQueueOrder }))}
+              >
+                <option value="fifo">First in, first out</option>
+                <option value="active-first">Active pane first</option>
+              </select>
+            </label>
+            <div className="vault-hint provider-wide">
+              Prompts beyond a provider's Parallel Requests wait in line; the pane shows its place in the queue and Cancel removes it.
+            </div>
+          </div>
+        </div>
+
+        <div className="provider-group">
+          <div className="provider-group-head">
+            <span>Ollama Health</span>
+          </div>
+          <div className="provider-card">
+            <label className="provider-wide">
+              <input
+                type="checkbox"
+                checked={vault.ollamaWarmUp}
+                onChange={(e) => setVault((prev) => ({ ...prev, ollamaWarmUp: e.target.checked }))}
+              />
+              Preload the /local model at startup and when a workspace opens
+            </label>
+            <div className="vault-hint provider-wide">
+              Ollama endpoints are checked in the background. After two failed checks requests fail immediately until the endpoint answers again.
+            </div>
+          </div>
+        </div>
+
+        <div className="provider-group">
+          <div className="provider-group-head">
+            <span>Workspace Search (/ask)</span>
+          </div>
+          <div className="provider-card">
+            <label>
+              Embedding Model
+              <input
+                value={vault.embeddingModel}
+                placeholder="nomic-embed-text"
+                onChange={(e) => setVault((prev) => ({ ...prev, embeddingModel: e.target.value }))}
+              />
+            </label>
+            <div className="vault-hint provider-wide">
+              Served by the /local Ollama endpoint. The index lives in .vibe/index and is rebuilt when the model changes.
+            </div>
+          </div>
+        </div>
+
+        <div className="provider-group">
+          <div className="provider-group-head">
+            <span>Agent Profiles (/profile)</span>
+            <button onClick={() => setVault((prev) => ({ ...prev, agentProfiles: [...prev.agentProfiles, newProfile(prev.agentProfiles)] }))}>
+              Add Profile
+            </button>
+          </div>
+          {vault.agentProfiles.map((profile, index) => (
+            <div key={index} className="provider-card">
+              <label>
+                Name
+                <input
+                  value={profile.name}
+                  onChange={(e) => updateProfile(index, (prev) => ({ ...prev, name: e.target.value.trim().toLowerCase() }))}
+                />
+              </label>
+              <label>
+                Provider
+                <select value={profile.route} onChange={(e) => updateProfile(index, (prev) => ({ ...prev, route: e.target.value }))}>
+                  <option value="">Route typed in the pane</option>
+                  {[...vault.agentProviders.map((provider) => provider.id), "cloud"].map((route) => (
+                    <option key={route} value={route}>
+                      {`/${route}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="provider-wide">
+                Model (blank uses the provider's model)
+                <input
+                  value={profile.model}
+                  disabled={!profile.route}
+                  onChange={(e) => updateProfile(index, (prev) => ({ ...prev, model: e.target.value }))}
+                />
+              </label>
+              <label className="provider-wide">
+                System Prompt
+                <textarea
+                  rows={3}
+                  value={profile.systemPrompt}
+                  onChange={(e) => updateProfile(index, (prev) => ({ ...prev, systemPrompt: e.target.value }))}
+                />
+              </label>
+              {numericProfileOptions.map((option) => (
+                <label key={option.key}>
+                  {option.label}
+                  <input
+                    type="number"
+                    step={option.step}
+                    value={typeof profile.options[option.key] === "number" ? String(profile.options[option.key]) : ""}
+                    onChange={(e) =>
+                      updateProfile(index, (prev) => withOption(prev, option.key, e.target.value === "" ? null : Number(e.target.value)))
+                    }
+                  />
+                </label>
+              ))}
+              <label className="provider-wide">
+                Stop Sequences (one per line)
+                <textarea
+                  rows={2}
+                  value={Array.isArray(profile.options.stop) ? profile.options.stop.join("\n") : ""}
+                  onChange={(e) => {
+                    const stops = e.target.value.split("\n");
+                    updateProfile(index, (prev) => withOption(prev, "stop", stops.some(Boolean) ? stops : null));
+                  }}
+                />
+              </label>
+              <div className="provider-actions">
+                <span>{`/profile ${profile.name}`}</span>
+                <button onClick={() => setVault((prev) => ({ ...prev, agentProfiles: prev.agentProfiles.filter((_, i) => i !== index) }))}>
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+          <div className="vault-hint">
+            A profile with a provider pins every agent prompt in its pane to that provider and model; sampling options are sent as Ollama options and mapped for OpenAI-compatible servers.
+          </div>
+        </div>
+
+        <div className="provider-group">
+          <div className="provider-group-head">
+            <span>Shell Profiles</span>
+            <button onClick={() => setVault((prev) => ({ ...prev, shellProfiles: [...prev.shellProfiles, newShellProfile(prev.shellProfiles)] }))}>
+              Add Shell Profile
+            </button>
+          </div>
+          <div className="provider-card">
+            <label className="provider-wide">
+              Default for new panes
+              <select value={vault.defaultShellProfile} onChange={(e) => setVault((prev) => ({ ...prev, defaultShellProfile: e.target.value }))}>
+                <option value="">First installed shell</option>
+                {[...vault.shellProfiles.map((profile) => profile.name), ...detectedShells.map((profile) => profile.name)]
+                  .filter((name, index, names) => name && names.indexOf(name) === index)
+                  .map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+              </select>
+            </label>
+            <div className="vault-hint provider-wide">
+              {`Installed: ${detectedShells.map((profile) => `${profile.name} (${profile.executable})`).join(", ") || "none found"}.`}
+            </div>
+          </div>
+          {vault.shellProfiles.map((profile, index) => (
+            <div key={index} className="provider-card">
+              <label>
+                Name
+                <input value={profile.name} onChange={(e) => updateShellProfile(index, { name: e.target.value.trim().toLowerCase() })} />
+              </label>
+              <label>
+                Icon
+                <input value={profile.icon} placeholder="optional" onChange={(e) => updateShellProfile(index, { icon: e.target.value })} />
+              </label>
+              <label className="provider-wide">
+                Executable (path or name on PATH)
+                <input value={profile.executable} onChange={(e) => updateShellProfile(index, { executable: e.target.value })} />
+              </label>
+              <label>
+                Arguments (one per line)
+                <textarea rows={2} value={profile.args.join("\n")} onChange={(e) => updateShellProfile(index, { args: e.target.value.split("\n") })} />
+              </label>
+              <label>
+                Environment (KEY=VALUE per line)
+                <textarea
+                  key={`${index}-${profile.name}`}
+                  rows={2}
+                  defaultValue={formatEnv(profile.env)}
+                  onBlur={(e) => updateShellProfile(index, { env: parseEnv(e.target.value) })}
+                />
+              </label>
+              <label className="provider-wide">
+                Startup Command
+                <input
+                  value={profile.startupCommand}
+                  placeholder="optional, typed once the shell starts"
+                  onChange={(e) => updateShellProfile(index, { startupCommand: e.target.value })}
+                />
+              </label>
+              <div className="provider-actions">
+                <span>{`${profile.icon} ${profile.name}`.trim()}</span>
+                <button onClick={() => setVault((prev) => ({ ...prev, shellProfiles: prev.shellProfiles.filter((_, i) => i !== index) }))}>
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+          <div className="vault-hint">
+            Pick a pane's shell from the palette ("Restart Active Pane with ..."). A vault profile named like an installed shell replaces it.
+          </div>
+        </div>
 
         <div className="mode-group">
           <div>Execution Mode</div>
@@ -99,6 +675,24 @@ export default function SettingsVault({ open, onClose, onExecutionModeChanged }:
             Dual-Stream (thought/action split)
           </label>
         </div>
+        {vault.executionMode === "sandboxed" && (
+          <>
+            <label>
+              Sandbox Policy
+              <select value={vault.policyPreset} onChange={(e) => setVault((prev) => ({ ...prev, policyPreset: e.target.value as PolicyPreset }))}>
+                {Object.entries(policyPresetLabels).map(([preset, label]) => (
+                  <option key={preset} value={preset}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="vault-hint">
+              Every preset blocks paths outside the project. A workspace's .vibe/policy.json can pick another preset, change the
+              default action and add allow, deny or confirm rules that are checked first.
+            </div>
+          </>
+        )}
         {vault.executionMode === "system-wide" && (
           <label>
             <input
@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import type { ModelTelemetry } from "../types";
+
+interface TelemetryPanelProps {
+  open: boolean;
+  workspacePath: string;
+  onClose: () => void;
+}
+
+function formatMs(ms: number | null): string {
+  if (ms === null) return "-";
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms)} ms`;
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "-" : `${rate} tok/s`;
+}
+
+export default function TelemetryPanel({ open, workspacePath, onClose }: TelemetryPanelProps) {
+  const [summaries, setSummaries] = useState<ModelTelemetry[]>([]);
+  const [expanded, setExpanded] = useState("");
+  const [errorText, setErrorText] = useState("");
+
+  async function refresh(): Promise<void> {
+    try {
+      setSummaries(await window.vibe.getTelemetrySummary());
+      setErrorText("");
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : "Could not load telemetry.");
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return;
+    void refresh();
+  }, [open]);
+
+  async function clear(): Promise<void> {
+    await window.vibe.clearTelemetry();
+    setExpanded("");
+    await refresh();
+  }
+
+  if (!open) return null;
+
+  return (
+    <div className="vault-backdrop">
+      <div className="vault-card telemetry-card">
+        <h2>Agent Telemetry</h2>
+        <div className="vault-hint">{`Per-model averages for ${workspacePath}, recorded in .vibe/telemetry.jsonl.`}</div>
+        {!summaries.length && <div className="activity-empty">No agent runs recorded for this workspace yet.</div>}
+        {summaries.length > 0 && (
+          <table className="telemetry-table">
+            <thead>
+              <tr>
+                <th>Model</th>
+                <th>Runs</th>
+                <th>Failed</th>
+                <th>Retries</th>
+                <th>First token</th>
+                <th>Total</th>
+                <th>Throughput</th>
+                <th>Tokens in / out</th>
+                <th>Last run</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map((summary) => {
+                const key = `${summary.route}:${summary.model}`;
+                return [
+                  <tr key={key} className="telemetry-row" onClick={() => setExpanded((prev) => (prev === key ? "" : key))}>
+                    <td>{`/${summary.route} ${summary.model}`}</td>
+                    <td>{summary.runs}</td>
+                    <td>{summary.failures}</td>
+                    <td>{summary.retries}</td>
+                    <td>{formatMs(summary.avgFirstTokenMs)}</td>
+                    <td>{formatMs(summary.avgTotalMs)}</td>
+                    <td>{formatRate(summary.avgTokensPerSecond)}</td>
+                    <td>{`${summary.promptTokens} / ${summary.completionTokens}`}</td>
+                    <td>{new Date(summary.lastRunAt).toLocaleString()}</td>
+                  </tr>,
+                  expanded === key &&
+                    summary.days.map((day) => (
+                      <tr key={`${key}:${day.day}`} className="telemetry-day">
+                        <td>{day.day}</td>
+                        <td>{day.runs}</td>
+                        <td />
+                        <td />
+                        <td />
+                        <td>{formatMs(day.avgTotalMs)}</td>
+                        <td>{formatRate(day.avgTokensPerSecond)}</td>
+                        <td />
+                        <td />
+                      </tr>
+                    ))
+                ];
+              })}
+            </tbody>
+          </table>
+        )}
+        {errorText && <div className="vault-error">{errorText}</div>}
+        <div className="vault-actions">
+          <button onClick={() => void clear()} disabled={!summaries.length}>
+            Clear History
+          </button>
+          <button onClick={() => void refresh()}>Refresh</button>
+          <button onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,35 +2,79 @@ import { useEffect, useRef, useState } from "react";
 import type { Dispatch, SetStateAction } from "react";
 import { Terminal } from "@xterm/xterm";
 import { FitAddon } from "@xterm/addon-fit";
-import type { ActivityFilter, ModelProvider, PaneActivityItem, PaneActivityType, PaneInputMode } from "../types";
+import type {
+  ActivityFilter,
+  AgentApprovalRequest,
+  AgentContextOptions,
+  AgentRoute,
+  AgentRunMetrics,
+  CommandFailureEvent,
+  CustomCommandSummary,
+  DualStreamSection,
+  EditApplyResult,
+  EditProposal,
+  ModelProvider,
+  PaneActivityItem,
+  PaneActivityType,
+  PaneInputMode,
+  ProposedFileEdit,
+  ShellProfileSummary,
+  ShellSpawnFailedEvent,
+  SuggestedCommand
+} from "../types";
+import DiffReview from "./DiffReview";
 import PaneActivityStream from "./PaneActivityStream";
 import PaneContextHeader from "./PaneContextHeader";
 import { parseInputLine } from "../lib/slashRouter";
+import { commandLines, extractFileEdits, extractShellCommands } from "../lib/codeBlocks";
+
+const MAX_PENDING_OUTPUT_CHARS = 64 * 1024;
 
 interface TerminalPaneProps {
   paneId: string;
+  paneIds: string[];
   model: ModelProvider;
+  profile: string;
+  profileNames: string[];
+  // Shell profile the pane starts with; empty for the vault default.
+  shellProfile: string;
+  agentRoutes: AgentRoute[];
+  customCommands: CustomCommandSummary[];
   filePath: string;
   active: boolean;
   onActivate: (paneId: string) => void;
   inputMode: PaneInputMode;
   restartSignal: number;
   clearSignal: number;
+  exportSignal: number;
+  onCompare: (paneId: string, prompt: string) => void;
   onInputModeChange: (paneId: string, next: PaneInputMode) => void;
   onModelChange: (paneId: string, next: ModelProvider) => void;
+  onProfileChange: (paneId: string, next: string) => void;
+  onShellProfileChange: (paneId: string, next: string) => void;
 }
 
 export default function TerminalPane({
   paneId,
+  paneIds,
   model,
+  profile,
+  profileNames,
+  shellProfile,
+  agentRoutes,
+  customCommands,
   filePath,
   active,
   onActivate,
   inputMode,
   restartSignal,
   clearSignal,
+  exportSignal,
+  onCompare,
   onInputModeChange,
-  onModelChange
+  onModelChange,
+  onProfileChange,
+  onShellProfileChange
 }: TerminalPaneProps) {
   const hostRef = useRef<HTMLDivElement>(null);
   const fitAddonRef = useRef<FitAddon | null>(null);
@@ -42,9 +86,29 @@ export default function TerminalPane({
   const [hasUserInput, setHasUserInput] = useState(false);
   const [activityFilter, setActivityFilter] = useState<ActivityFilter>("all");
   const [activities, setActivities] = useState<PaneActivityItem[]>([]);
+  const [contextOptions, setContextOptions] = useState<AgentContextOptions>({ attachOutput: false, lineCount: 40 });
+  const [contextPreviewOpen, setContextPreviewOpen] = useState(false);
+  const [contextPreview, setContextPreview] = useState("");
+  const [pendingApproval, setPendingApproval] = useState<AgentApprovalRequest | null>(null);
+  const [editProposals, setEditProposals] = useState<EditProposal[]>([]);
+  const [editConflicts, setEditConflicts] = useState<Record<string, string>>({});
+  const [reviewOpen, setReviewOpen] = useState(false);
+  const [lastFailure, setLastFailure] = useState<CommandFailureEvent | null>(null);
+  const [runningShell, setRunningShell] = useState<ShellProfileSummary | null>(null);
+  const [spawnFailure, setSpawnFailure] = useState<ShellSpawnFailedEvent | null>(null);
   const hasUserInputRef = useRef(false);
+  // Shell output from before the first input (banners, prompts) waits here and is written once the user types.
+  const pendingOutputRef = useRef("");
   const onModelChangeRef = useRef(onModelChange);
   const activityIdRef = useRef(0);
+  const streamingActivityIdRef = useRef<string | null>(null);
+  const streamingTextRef = useRef("");
+  const runMetricsRef = useRef<AgentRunMetrics | null>(null);
+  const reasoningRef = useRef<{ id: string; section: DualStreamSection; text: string } | null>(null);
+  const queueActivityIdRef = useRef<string | null>(null);
+  const indexActivityIdRef = useRef<string | null>(null);
+  // /fix goes to the provider the pane last talked to.
+  const lastRouteRef = useRef<AgentRoute>("local");
 
   useEffect(() => {
     onModelChangeRef.current = onModelChange;
@@ -52,13 +116,72 @@ export default function TerminalPane({
 
   useEffect(() => {
     hasUserInputRef.current = hasUserInput;
+    if (hasUserInput && pendingOutputRef.current) {
+      terminalRef.current?.write(pendingOutputRef.current);
+      pendingOutputRef.current = "";
+    }
   }, [hasUserInput]);
 
-  function addActivity(type: PaneActivityType, title: string, summary: string, details?: string, severity?: "info" | "warn" | "error"): void {
+  function addActivity(
+    type: PaneActivityType,
+    title: string,
+    summary: string,
+    details?: string,
+    severity?: "info" | "warn" | "error",
+    extra?: Pick<PaneActivityItem, "provenance" | "commands" | "edits">
+  ): string {
     activityIdRef.current += 1;
-    setActivities((prev) =>
-      [...prev, { id: `${paneId}-${activityIdRef.current}`, type, title, summary, details, severity, timestamp: Date.now() }].slice(-120)
-    );
+    const id = `${paneId}-${activityIdRef.current}`;
+    setActivities((prev) => [...prev, { id, type, title, summary, details, severity, ...extra, timestamp: Date.now() }].slice(-120));
+    return id;
+  }
+
+  function updateActivity(id: string, patch: Partial<Omit<PaneActivityItem, "id">>): void {
+    setActivities((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }
+
+  function streamAgentResponse(chunk: string, done: boolean): void {
+    streamingTextRef.current += chunk;
+    const text = streamingTextRef.current.trim();
+    const preview = text.slice(0, 200);
+    if (!streamingActivityIdRef.current) {
+      streamingActivityIdRef.current = addActivity("agent", "Agent Response", preview || "Streaming response...", text);
+    } else {
+      updateActivity(streamingActivityIdRef.current, { summary: preview || "Streaming response...", details: text });
+    }
+    if (done) {
+      const commands = extractShellCommands(text);
+      const edits = extractFileEdits(text);
+      updateActivity(streamingActivityIdRef.current, {
+        ...(text ? {} : { summary: "Received response." }),
+        ...(commands.length ? { commands } : {}),
+        ...(edits.length ? { edits } : {}),
+        ...(runMetricsRef.current ? { metrics: runMetricsRef.current } : {})
+      });
+      resetAgentStream();
+    }
+  }
+
+  // Plan and thought sections each stream into their own activity; a new one starts whenever the section changes.
+  function streamAgentReasoning(section: DualStreamSection, chunk: string): void {
+    const current = reasoningRef.current;
+    if (!current || current.section !== section) {
+      const text = chunk.trim();
+      const id = addActivity("agent", section === "plan" ? "Agent Plan" : "Agent Thought", text.slice(0, 200) || "Thinking...", text);
+      reasoningRef.current = { id, section, text: chunk };
+      return;
+    }
+    current.text += chunk;
+    const text = current.text.trim();
+    updateActivity(current.id, { summary: text.slice(0, 200), details: text });
+  }
+
+  function resetAgentStream(): void {
+    streamingActivityIdRef.current = null;
+    streamingTextRef.current = "";
+    runMetricsRef.current = null;
+    reasoningRef.current = null;
+    queueActivityIdRef.current = null;
   }
 
   function appendCapped(setter: Dispatch<SetStateAction<string>>, chunk: string): void {
@@ -101,16 +224,25 @@ export default function TerminalPane({
       }
     };
 
-    void window.vibe.createPane(paneId);
+    void window.vibe.createPane(paneId, shellProfile || undefined).then((summary) => setRunningShell(summary));
     window.requestAnimationFrame(() => safeResize());
 
     const onDataDispose = window.vibe.onPtyData(({ paneId: targetId, chunk }) => {
       if (targetId === paneId) {
         setSessionStatus("ready");
-        if (!hasUserInputRef.current) return;
+        if (!hasUserInputRef.current) {
+          const pending = pendingOutputRef.current + chunk;
+          pendingOutputRef.current = pending.slice(Math.max(0, pending.length - MAX_PENDING_OUTPUT_CHARS));
+          return;
+        }
         term.write(chunk);
       }
     });
+    const onRestoredDispose = window.vibe.onPaneRestored((payload) => {
+      if (payload.paneId !== paneId) return;
+      term.write(payload.text);
+      addActivity("system", "Session Restored", "Earlier output of this pane was replayed above the divider.");
+    });
     const onExitDispose = window.vibe.onPtyExit(({ paneId: targetId }) => {
       if (targetId === paneId) {
         setSessionStatus("exited");
@@ -118,25 +250,147 @@ export default function TerminalPane({
         addActivity("error", "Process Exited", "Shell process exited. Restart to continue.", "", "error");
       }
     });
+    const onSpawnFailedDispose = window.vibe.onShellSpawnFailed((payload) => {
+      if (payload.paneId !== paneId) return;
+      setSpawnFailure(payload);
+      setSessionStatus("exited");
+      addActivity(
+        "error",
+        "Shell Failed To Start",
+        `${payload.profile || "default shell"}: ${payload.error}`,
+        payload.alternatives.length
+          ? `Retry with: ${payload.alternatives.map((profile) => `${profile.name} (${profile.executable})`).join(", ")}`
+          : "No other shell profile can start. Check the Shell Profiles in the Settings Vault.",
+        "error"
+      );
+    });
+    const onFailedDispose = window.vibe.onShellFailed((payload) => {
+      if (payload.paneId !== paneId) return;
+      setLastFailure(payload);
+      addActivity(
+        "error",
+        "Command Failed",
+        `${payload.command} (${payload.reason})`,
+        `${payload.output}\n\nRun /fix to ask the agent for a corrected command.`.trim(),
+        "warn"
+      );
+    });
     const onAgentDispose = window.vibe.onAgentChunk((payload) => {
       if (payload.paneId !== paneId) return;
+      if (payload.done || payload.error) setPendingApproval(null);
       if (payload.error) {
+        if (queueActivityIdRef.current) {
+          updateActivity(queueActivityIdRef.current, { summary: "Left the queue without running." });
+        }
         appendCapped(setAgentAction, `\u001b[31m${payload.error}\u001b[0m`);
         addActivity("error", "Agent Error", payload.error, "", "error");
+        resetAgentStream();
         return;
       }
       if (payload.stream === "thought") {
         appendCapped(setAgentThought, payload.chunk);
+        if (payload.section) streamAgentReasoning(payload.section, payload.chunk);
       } else {
         appendCapped(setAgentAction, payload.chunk);
-        if (payload.done) {
-          const preview = payload.chunk.trim().slice(0, 200);
-          addActivity("agent", "Agent Response", preview || "Received response.", payload.chunk.trim());
+        streamAgentResponse(payload.chunk, Boolean(payload.done));
+      }
+    });
+    // Metrics arrive just before the final chunk; a cloud fallback reports the failed attempt first, so the last one wins.
+    const onMetricsDispose = window.vibe.onAgentMetrics(({ paneId: targetId, ...metrics }) => {
+      if (targetId !== paneId) return;
+      runMetricsRef.current = metrics;
+    });
+    const onStepDispose = window.vibe.onAgentStep((payload) => {
+      if (payload.paneId !== paneId) return;
+      const label = payload.tool ? ` ${payload.tool}` : "";
+      const titles: Record<typeof payload.kind, string> = {
+        thinking: "Agent Step",
+        "tool-call": `Tool Call${label}`,
+        "tool-result": `Tool Result${label}`,
+        rejected: `Tool Rejected${label}`,
+        final: "Agent Finished"
+      };
+      addActivity(
+        payload.error ? "error" : "agent",
+        `${titles[payload.kind]} (step ${payload.step})`,
+        payload.summary,
+        payload.details,
+        payload.error ? "error" : payload.kind === "rejected" ? "warn" : undefined
+      );
+    });
+    const onApprovalDispose = window.vibe.onAgentApproval((payload) => {
+      if (payload.paneId !== paneId) return;
+      setPendingApproval(payload);
+    });
+    const onEditProposedDispose = window.vibe.onEditProposed((payload) => {
+      if (payload.paneId !== paneId) return;
+      setEditProposals((prev) => [...prev.filter((item) => item.id !== payload.proposal.id), payload.proposal]);
+      setReviewOpen(true);
+    });
+    const onEditClosedDispose = window.vibe.onEditClosed((payload) => {
+      if (payload.paneId !== paneId) return;
+      closeProposal(payload.proposalId);
+    });
+    const onQueueDispose = window.vibe.onAgentQueue((payload) => {
+      if (payload.paneId !== paneId) return;
+      const queueId = queueActivityIdRef.current;
+      if (payload.position === 0) {
+        if (queueId) {
+          updateActivity(queueId, { summary: `Started on /${payload.route} after ${(payload.waitedMs / 1000).toFixed(1)} s in the queue.` });
         }
+        queueActivityIdRef.current = null;
+        return;
+      }
+      const summary = `queued (#${payload.position}) for /${payload.route}`;
+      if (queueId) {
+        updateActivity(queueId, { summary });
+      } else {
+        queueActivityIdRef.current = addActivity("agent", "Agent Queued", summary, "Cancel removes this request from the queue.");
+      }
+    });
+    const onIndexDispose = window.vibe.onIndexProgress((payload) => {
+      if (payload.paneId !== paneId) return;
+      const summary =
+        payload.phase === "scanning"
+          ? "Scanning workspace for changes..."
+          : payload.phase === "embedding"
+            ? `Embedding changed files (${payload.filesDone}/${payload.filesTotal})`
+            : `${payload.filesTotal ? `Embedded ${payload.filesTotal} changed file(s). ` : "Up to date. "}${payload.indexedFiles} files, ${payload.chunks} chunks indexed.`;
+      if (indexActivityIdRef.current) {
+        updateActivity(indexActivityIdRef.current, { summary });
+      } else {
+        indexActivityIdRef.current = addActivity("system", "Workspace Index", summary, "Stored in .vibe/index; .gitignore'd files are skipped.");
+      }
+      if (payload.phase === "ready") indexActivityIdRef.current = null;
+    });
+    const onSourcesDispose = window.vibe.onAgentSources((payload) => {
+      if (payload.paneId !== paneId) return;
+      addActivity(
+        "agent",
+        "Workspace Sources",
+        payload.sources.map((source) => `${source.path}:${source.startLine}-${source.endLine}`).join(", "),
+        payload.sources.map((source) => `${source.path}:${source.startLine}-${source.endLine} (similarity ${source.score})`).join("\n")
+      );
+    });
+    const onPipedDispose = window.vibe.onPanePiped((payload) => {
+      if (payload.fromPaneId === paneId) {
+        if (payload.error) {
+          addActivity("error", "Pipe Failed", payload.error, undefined, "error");
+        } else {
+          addActivity("system", `Piped To ${payload.toPaneId}`, `Sent the ${payload.label} to ${payload.toPaneId}.`, payload.note);
+        }
+      } else if (payload.toPaneId === paneId && !payload.error) {
+        addActivity(
+          payload.target === "agent" ? "agent" : "shell",
+          payload.target === "agent" ? "Context Received" : "Shell Input Received",
+          `${payload.label} from ${payload.fromPaneId}. ${payload.note ?? ""}`.trim(),
+          payload.text
+        );
       }
     });
     const onRoutedDispose = window.vibe.onAgentRouted((payload) => {
       if (payload.paneId !== paneId) return;
+      lastRouteRef.current = payload.route;
       onModelChangeRef.current(paneId, payload.model);
     });
 
@@ -149,8 +403,20 @@ export default function TerminalPane({
       disposed = true;
       observer.disconnect();
       onDataDispose();
+      onRestoredDispose();
       onExitDispose();
+      onSpawnFailedDispose();
       onAgentDispose();
+      onMetricsDispose();
+      onStepDispose();
+      onApprovalDispose();
+      onEditProposedDispose();
+      onEditClosedDispose();
+      onQueueDispose();
+      onFailedDispose();
+      onIndexDispose();
+      onSourcesDispose();
+      onPipedDispose();
       onRoutedDispose();
       void window.vibe.cancelAgent(paneId);
       void window.vibe.destroyPane(paneId);
@@ -160,6 +426,28 @@ export default function TerminalPane({
     };
   }, [paneId]);
 
+  useEffect(() => {
+    if (!contextPreviewOpen) return;
+    void refreshContextPreview();
+  }, [contextPreviewOpen, contextOptions, commandText]);
+
+  async function refreshContextPreview(): Promise<void> {
+    const parsed = parseInputLine(commandText, agentRoutes);
+    const prompt = parsed.kind === "agent" ? parsed.prompt : "";
+    setContextPreview(await window.vibe.previewAgentContext(paneId, prompt, contextOptions));
+  }
+
+  // First click attaches and previews, a click while hidden re-opens the preview, a click while visible detaches.
+  function toggleContextAttachment(): void {
+    if (contextOptions.attachOutput && !contextPreviewOpen) {
+      setContextPreviewOpen(true);
+      return;
+    }
+    const next = !contextOptions.attachOutput;
+    setContextOptions((prev) => ({ ...prev, attachOutput: next }));
+    setContextPreviewOpen(next);
+  }
+
   useEffect(() => {
     if (restartSignal <= 0) return;
     void restartSession();
@@ -171,9 +459,28 @@ export default function TerminalPane({
     setAgentAction("");
     setActivities([]);
     terminalRef.current?.clear();
-    addActivity("system", "Pane Cleared", "Terminal output and compact history were cleared.");
+    pendingOutputRef.current = "";
+    void window.vibe.clearPaneScrollback(paneId);
+    addActivity("system", "Pane Cleared", "Terminal output, saved scrollback and compact history were cleared.");
   }, [clearSignal]);
 
+  useEffect(() => {
+    if (exportSignal <= 0) return;
+    void window.vibe
+      .exportSession(paneId)
+      .then((result) =>
+        addActivity(
+          "system",
+          "Session Exported",
+          `${result.entries} entries written to ${result.markdownPath}`,
+          `Markdown: ${result.markdownPath}\nJSON: ${result.jsonPath}`
+        )
+      )
+      .catch((error: unknown) =>
+        addActivity("error", "Export Failed", error instanceof Error ? error.message : "Could not write the session transcript.", "", "error")
+      );
+  }, [exportSignal]);
+
   async function handleLineSubmit(line: string): Promise<void> {
     setHasUserInput(true);
     if (inputMode === "interactive-passthrough") {
@@ -182,13 +489,112 @@ export default function TerminalPane({
       return;
     }
 
-    const parsed = parseInputLine(line);
+    const parsed = parseInputLine(line, agentRoutes, customCommands.map((command) => command.name));
+    if (parsed.kind === "reset") {
+      await window.vibe.resetAgent(paneId);
+      setAgentThought("");
+      setAgentAction("");
+      resetAgentStream();
+      addActivity("agent", "Conversation Reset", "Agent history for this pane was cleared.");
+      return;
+    }
+    if (parsed.kind === "profile") {
+      if (!parsed.name) {
+        addActivity(
+          "system",
+          "Agent Profiles",
+          profile ? `Active profile: ${profile}` : "No profile active.",
+          `Available: ${profileNames.join(", ") || "(none)"}\nUse /profile <name> to switch or /profile none to clear.`
+        );
+        return;
+      }
+      if (parsed.name === "none" || parsed.name === "off") {
+        onProfileChange(paneId, "");
+        addActivity("system", "Profile Cleared", "Agent prompts in this pane use the typed route without a profile.");
+        return;
+      }
+      if (!profileNames.includes(parsed.name)) {
+        addActivity("error", "Unknown Profile", `No profile named "${parsed.name}".`, `Available: ${profileNames.join(", ") || "(none)"}`, "warn");
+        return;
+      }
+      onProfileChange(paneId, parsed.name);
+      addActivity("system", "Profile Switched", `Agent prompts in this pane now use the ${parsed.name} profile.`);
+      return;
+    }
+    if (parsed.kind === "fix") {
+      await requestFix(parsed.notes);
+      return;
+    }
+    if (parsed.kind === "ask") {
+      if (!parsed.question) return;
+      setAgentThought("");
+      setAgentAction("");
+      resetAgentStream();
+      indexActivityIdRef.current = null;
+      addActivity("agent", "Workspace Question", `/ask ${parsed.question}`, "Answered by /local from the most similar workspace excerpts.");
+      await window.vibe.askWorkspace(paneId, parsed.question, profile || undefined);
+      return;
+    }
+    if (parsed.kind === "compare") {
+      onCompare(paneId, parsed.prompt);
+      if (parsed.prompt) {
+        addActivity("agent", "Model Comparison", `/compare ${parsed.prompt}`, "Answers stream side by side in the Compare Models view.");
+      }
+      return;
+    }
+    if (parsed.kind === "pipe") {
+      const others = paneIds.filter((id) => id !== paneId);
+      if (!parsed.target || !others.includes(parsed.target)) {
+        addActivity(
+          "system",
+          "Pipe Usage",
+          "/pipe <pane> [agent|shell|stdin] [output|answer]",
+          `${parsed.target ? `${parsed.target} is not another open pane. ` : ""}Open panes: ${others.join(", ") || "none"}. ` +
+            "agent (default) attaches the text to that pane's next prompt, shell stores it in a shell variable, stdin types it into the running program.",
+          parsed.target ? "warn" : undefined
+        );
+        return;
+      }
+      await window.vibe.pipeToPane(paneId, parsed.target, parsed.mode ?? "agent", parsed.source ?? undefined);
+      return;
+    }
+    if (parsed.kind === "agent-loop") {
+      if (!parsed.goal) return;
+      setAgentThought("");
+      setAgentAction("");
+      resetAgentStream();
+      addActivity("agent", "Agent Goal", `/agent ${parsed.goal}`);
+      await window.vibe.runAgentLoop(paneId, parsed.goal);
+      return;
+    }
     if (parsed.kind === "agent") {
       if (!parsed.prompt) return;
       setAgentThought("");
       setAgentAction("");
-      addActivity("agent", "Agent Request", `/${parsed.route} ${parsed.prompt}`.trim());
-      await window.vibe.runAgent(paneId, parsed.route, parsed.prompt);
+      resetAgentStream();
+      addActivity(
+        "agent",
+        "Agent Request",
+        `/${parsed.route} ${parsed.prompt}`.trim(),
+        contextOptions.attachOutput ? `Terminal context attached (up to ${contextOptions.lineCount} lines).` : undefined
+      );
+      await window.vibe.runAgent(paneId, parsed.route, parsed.prompt, contextOptions, profile || undefined);
+      return;
+    }
+    if (parsed.kind === "command") {
+      const command = customCommands.find((candidate) => candidate.name === parsed.name);
+      setAgentThought("");
+      setAgentAction("");
+      resetAgentStream();
+      addActivity(
+        "agent",
+        "Custom Command",
+        `/${parsed.name} ${parsed.args}`.trim(),
+        [command?.description, command ? `From ${command.file}` : "", contextOptions.attachOutput ? "Terminal context attached." : ""]
+          .filter(Boolean)
+          .join("\n")
+      );
+      await window.vibe.runCustomCommand(paneId, parsed.name, parsed.args, contextOptions, profile || undefined);
       return;
     }
     if (parsed.line.trim()) {
@@ -197,6 +603,93 @@ export default function TerminalPane({
     }
   }
 
+  async function requestFix(notes: string): Promise<void> {
+    if (!lastFailure) {
+      addActivity("system", "Nothing To Fix", "No failed command has been detected in this pane yet.");
+      return;
+    }
+    setAgentThought("");
+    setAgentAction("");
+    resetAgentStream();
+    setLastFailure(null);
+    addActivity(
+      "agent",
+      "Fix Requested",
+      `/fix ${lastFailure.command}`,
+      [`Shell: ${lastFailure.shell}`, `Working directory: ${lastFailure.cwd}`, notes ? `Notes: ${notes}` : ""].filter(Boolean).join("\n")
+    );
+    await window.vibe.fixLastCommand(paneId, lastRouteRef.current, notes, profile || undefined);
+  }
+
+  async function runSuggestedCommand(command: SuggestedCommand): Promise<void> {
+    setHasUserInput(true);
+    for (const line of commandLines(command.code)) {
+      addActivity("shell", "Shell Command", line.trim(), undefined, undefined, { provenance: "agent-suggested, user-approved" });
+      await window.vibe.sendShellLine(paneId, line, "agent");
+    }
+  }
+
+  function closeProposal(proposalId: string): void {
+    setEditProposals((prev) => prev.filter((item) => item.id !== proposalId));
+    setEditConflicts((prev) => {
+      const { [proposalId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }
+
+  async function reviewSuggestedEdit(edit: ProposedFileEdit): Promise<void> {
+    try {
+      const proposal = await window.vibe.proposeEdit(paneId, edit.path, edit.content);
+      if (!proposal.hunks.length) {
+        await window.vibe.discardEdit(proposal.id);
+        addActivity("system", "No Changes", `${proposal.path} already matches the suggested content.`);
+        return;
+      }
+      setEditProposals((prev) => [...prev, proposal]);
+      setReviewOpen(true);
+    } catch (error) {
+      addActivity("error", "Edit Review Failed", error instanceof Error ? error.message : "Could not diff the suggested change.", "", "error");
+    }
+  }
+
+  function recordEditResult(result: EditApplyResult): void {
+    if (result.status === "applied") {
+      addActivity("system", "Files Written", `${result.path} (${result.acceptedHunks}/${result.totalHunks} hunks)`, result.message, undefined, {
+        provenance: "agent-proposed, user-reviewed"
+      });
+    } else {
+      addActivity("system", result.status === "discarded" ? "Edit Discarded" : "Edit Skipped", result.message);
+    }
+  }
+
+  async function applyProposal(proposal: EditProposal, acceptedHunks: number[]): Promise<void> {
+    try {
+      const result = await window.vibe.applyEdit(proposal.id, acceptedHunks);
+      if (result.status === "conflict") {
+        setEditConflicts((prev) => ({ ...prev, [proposal.id]: result.message }));
+        addActivity("error", "Edit Conflict", result.message, "", "warn");
+        return;
+      }
+      closeProposal(proposal.id);
+      recordEditResult(result);
+    } catch (error) {
+      closeProposal(proposal.id);
+      addActivity("error", "Edit Failed", error instanceof Error ? error.message : "Could not apply the change.", "", "error");
+    }
+  }
+
+  async function discardProposal(proposal: EditProposal): Promise<void> {
+    const result = await window.vibe.discardEdit(proposal.id);
+    closeProposal(proposal.id);
+    if (result) recordEditResult(result);
+  }
+
+  function answerApproval(approved: boolean): void {
+    if (!pendingApproval) return;
+    void window.vibe.approveAgentStep(pendingApproval.requestId, approved);
+    setPendingApproval(null);
+  }
+
   async function submitCommand(): Promise<void> {
     const line = commandText;
     if (inputMode === "shell-line" && !line.trim()) return;
@@ -204,19 +697,37 @@ export default function TerminalPane({
     await handleLineSubmit(line);
   }
 
-  async function restartSession(): Promise<void> {
-    await window.vibe.restartPane(paneId);
-    setSessionStatus("ready");
+  async function restartSession(profileName = shellProfile): Promise<void> {
+    setSpawnFailure(null);
+    // The restarted shell replays the saved scrollback, so the old output goes first.
+    terminalRef.current?.clear();
+    pendingOutputRef.current = "";
+    hasUserInputRef.current = false;
     setHasUserInput(false);
+    const summary = await window.vibe.restartPane(paneId, profileName || undefined);
+    setRunningShell(summary);
+    if (!summary) return;
+    setSessionStatus("ready");
     setAgentThought("");
     setAgentAction("");
-    terminalRef.current?.clear();
-    addActivity("system", "Pane Restarted", "PTY session restarted and ready.");
+    addActivity("system", "Pane Restarted", `PTY session restarted with ${summary.name} and ready.`);
+  }
+
+  function retryWithShell(profileName: string): void {
+    onShellProfileChange(paneId, profileName);
+    void restartSession(profileName);
   }
 
   return (
     <section className={`terminal-pane ${active ? "active" : ""}`} onMouseDown={() => onActivate(paneId)}>
-      <PaneContextHeader filePath={filePath} model={model} inputMode={inputMode} sessionStatus={sessionStatus} />
+      <PaneContextHeader
+        filePath={filePath}
+        model={model}
+        profile={profile}
+        shell={runningShell}
+        inputMode={inputMode}
+        sessionStatus={sessionStatus}
+      />
       <div className="pane-console-shell">
         <div className="pane-filter-row">
           <button className={activityFilter === "all" ? "filter-btn active" : "filter-btn"} onClick={() => setActivityFilter("all")}>
@@ -232,9 +743,58 @@ export default function TerminalPane({
             Errors
           </button>
         </div>
-        <PaneActivityStream items={activities} filter={activityFilter} />
+        <PaneActivityStream
+          items={activities}
+          filter={activityFilter}
+          onRunCommand={(command) => void runSuggestedCommand(command)}
+          onEditCommand={(command) => setCommandText(commandLines(command.code).join("; "))}
+          onReviewEdit={(edit) => void reviewSuggestedEdit(edit)}
+        />
       </div>
       <div ref={hostRef} className="terminal-host" />
+      {reviewOpen && editProposals.length > 0 && (
+        <DiffReview
+          paneId={paneId}
+          proposals={editProposals}
+          conflicts={editConflicts}
+          onApply={(proposal, hunks) => void applyProposal(proposal, hunks)}
+          onDiscard={(proposal) => void discardProposal(proposal)}
+          onClose={() => setReviewOpen(false)}
+        />
+      )}
+      {pendingApproval && (
+        <div className="pane-approval">
+          <div className="pane-approval-head">
+            <span>{`Step ${pendingApproval.step}: approve ${pendingApproval.tool}?`}</span>
+            <button onClick={() => answerApproval(false)}>Reject</button>
+            <button className="mode-btn active" onClick={() => answerApproval(true)}>
+              Approve
+            </button>
+          </div>
+          <div className="pane-approval-summary">{pendingApproval.summary}</div>
+          <pre>{pendingApproval.details}</pre>
+        </div>
+      )}
+      {contextPreviewOpen && !pendingApproval && (
+        <div className="pane-context-preview">
+          <div className="pane-context-preview-head">
+            <span>Context sent with the next agent prompt</span>
+            <label>
+              Lines
+              <input
+                type="number"
+                min={1}
+                max={400}
+                value={contextOptions.lineCount}
+                onChange={(e) => setContextOptions((prev) => ({ ...prev, lineCount: Number(e.target.value) }))}
+              />
+            </label>
+            <button onClick={() => void refreshContextPreview()}>Refresh</button>
+            <button onClick={() => setContextPreviewOpen(false)}>Hide</button>
+          </div>
+          <pre>{contextPreview}</pre>
+        </div>
+      )}
       <div className="pane-prompt-shell">
         <span className="pane-prompt-mark">&gt;</span>
         <input
@@ -262,6 +822,23 @@ export default function TerminalPane({
           >
             INTERACTIVE
           </button>
+          <button
+            className={contextOptions.attachOutput ? "mode-btn active" : "mode-btn"}
+            title="Attach recent terminal output to agent prompts"
+            onClick={toggleContextAttachment}
+          >
+            CTX
+          </button>
+          {lastFailure && (
+            <button className="mode-btn active" title={`Ask the agent to fix: ${lastFailure.command}`} onClick={() => void requestFix("")}>
+              FIX
+            </button>
+          )}
+          {editProposals.length > 0 && (
+            <button className="mode-btn active" onClick={() => setReviewOpen(true)}>
+              {`REVIEW (${editProposals.length})`}
+            </button>
+          )}
           <button onClick={() => setCommandText("")}>CLR</button>
           <button
             onClick={() => {
@@ -272,6 +849,11 @@ export default function TerminalPane({
             STOP
           </button>
           {sessionStatus === "exited" && <button onClick={() => void restartSession()}>RESTART</button>}
+          {spawnFailure?.alternatives.map((alternative) => (
+            <button key={alternative.name} title={alternative.executable} onClick={() => retryWithShell(alternative.name)}>
+              {`RETRY WITH ${`${alternative.icon} ${alternative.name}`.trim().toUpperCase()}`}
+            </button>
+          ))}
           <button onClick={() => void submitCommand()}>RUN</button>
         </div>
       </div>
@@ -1,14 +1,89 @@
-import type { AgentChunkEvent, AgentRoutedEvent, ExecutionMode, PtyDataEvent, PtyExitEvent, RuntimeInfo, VaultSettings } from "./types";
+import type {
+  AgentApprovalRequest,
+  AgentChunkEvent,
+  AgentContextOptions,
+  AgentMetricsEvent,
+  AgentProviderConfig,
+  AgentProviderSummary,
+  AgentQueueEvent,
+  AgentRoute,
+  AgentRoutedEvent,
+  AgentSourcesEvent,
+  AgentStepEvent,
+  AgentTestResult,
+  AuditExportFormat,
+  AuditExportResult,
+  AuditFilter,
+  AuditOrigin,
+  AuditRecord,
+  CommandFailureEvent,
+  CompareUpdateEvent,
+  CustomCommandList,
+  EditApplyResult,
+  EditClosedEvent,
+  EditProposal,
+  EditProposedEvent,
+  ExecutionMode,
+  ModelTelemetry,
+  OllamaEndpointHealth,
+  OllamaModel,
+  OllamaModelDetails,
+  OllamaPullProgress,
+  PanePipedEvent,
+  PaneRestoredEvent,
+  PipeSource,
+  PipeTarget,
+  PtyDataEvent,
+  PtyExitEvent,
+  RuntimeInfo,
+  SessionExportResult,
+  ShellProfileSummary,
+  ShellSpawnFailedEvent,
+  VaultSettings,
+  WorkspaceIndexProgress
+} from "./types";
 
 interface VibeBridge {
-  createPane: (paneId: string) => Promise<void>;
+  createPane: (paneId: string, shellProfile?: string) => Promise<ShellProfileSummary | null>;
   destroyPane: (paneId: string) => Promise<void>;
-  restartPane: (paneId: string) => Promise<void>;
+  clearPaneScrollback: (paneId: string) => Promise<void>;
+  restartPane: (paneId: string, shellProfile?: string) => Promise<ShellProfileSummary | null>;
+  listShellProfiles: () => Promise<ShellProfileSummary[]>;
   resizePane: (paneId: string, cols: number, rows: number) => Promise<void>;
-  sendShellLine: (paneId: string, line: string) => Promise<void>;
+  setActivePane: (paneId: string) => Promise<void>;
+  sendShellLine: (paneId: string, line: string, origin?: AuditOrigin) => Promise<void>;
   sendShellInput: (paneId: string, input: string) => Promise<void>;
-  runAgent: (paneId: string, route: "local", prompt: string) => Promise<void>;
+  runAgent: (paneId: string, route: AgentRoute, prompt: string, context?: AgentContextOptions, profile?: string) => Promise<void>;
+  previewAgentContext: (paneId: string, prompt: string, context: AgentContextOptions) => Promise<string>;
+  runAgentLoop: (paneId: string, goal: string) => Promise<void>;
+  fixLastCommand: (paneId: string, route: AgentRoute, notes: string, profile?: string) => Promise<void>;
+  compareModels: (compareId: string, paneId: string, prompt: string, routes: AgentRoute[], context?: AgentContextOptions) => Promise<void>;
+  cancelComparison: (compareId: string) => Promise<void>;
+  pipeToPane: (fromPaneId: string, toPaneId: string, target: PipeTarget, source?: PipeSource, origin?: AuditOrigin) => Promise<void>;
+  askWorkspace: (paneId: string, question: string, profile?: string) => Promise<void>;
+  approveAgentStep: (requestId: string, approved: boolean) => Promise<void>;
   cancelAgent: (paneId: string) => Promise<void>;
+  resetAgent: (paneId: string) => Promise<void>;
+  listAgentProviders: () => Promise<AgentProviderSummary[]>;
+  testAgentProvider: (config: AgentProviderConfig) => Promise<AgentTestResult>;
+  listCustomCommands: () => Promise<CustomCommandList>;
+  runCustomCommand: (paneId: string, name: string, args: string, context?: AgentContextOptions, profile?: string) => Promise<void>;
+  exportSession: (paneId: string) => Promise<SessionExportResult>;
+  getTelemetrySummary: () => Promise<ModelTelemetry[]>;
+  clearTelemetry: () => Promise<boolean>;
+  listAuditLog: (filter: AuditFilter) => Promise<AuditRecord[]>;
+  exportAuditLog: (filter: AuditFilter, format: AuditExportFormat) => Promise<AuditExportResult>;
+  listOllamaModels: (endpoint: string) => Promise<OllamaModel[]>;
+  showOllamaModel: (endpoint: string, name: string) => Promise<OllamaModelDetails>;
+  pullOllamaModel: (endpoint: string, name: string) => Promise<boolean>;
+  cancelOllamaPull: (name: string) => Promise<boolean>;
+  deleteOllamaModel: (endpoint: string, name: string) => Promise<boolean>;
+  getOllamaHealth: () => Promise<OllamaEndpointHealth[]>;
+  checkOllamaHealth: () => Promise<OllamaEndpointHealth[]>;
+  proposeEdit: (paneId: string, path: string, content: string) => Promise<EditProposal>;
+  listEdits: (paneId: string) => Promise<EditProposal[]>;
+  applyEdit: (proposalId: string, acceptedHunks: number[]) => Promise<EditApplyResult>;
+  discardEdit: (proposalId: string) => Promise<EditApplyResult | null>;
   getWorkspacePath: () => Promise<string>;
   createProjectWorkspace: () => Promise<string | null>;
   openProjectWorkspace: () => Promise<string | null>;
@@ -16,8 +91,24 @@ interface VibeBridge {
   getVault: () => Promise<VaultSettings>;
   setVault: (next: Partial<VaultSettings> & { executionMode?: ExecutionMode }) => Promise<boolean>;
   onPtyData: (handler: (event: PtyDataEvent) => void) => () => void;
+  onShellSpawnFailed: (handler: (event: ShellSpawnFailedEvent) => void) => () => void;
+  onPaneRestored: (handler: (event: PaneRestoredEvent) => void) => () => void;
   onPtyExit: (handler: (event: PtyExitEvent) => void) => () => void;
+  onShellFailed: (handler: (event: CommandFailureEvent) => void) => () => void;
   onAgentChunk: (handler: (event: AgentChunkEvent) => void) => () => void;
+  onAgentStep: (handler: (event: AgentStepEvent) => void) => () => void;
+  onAgentApproval: (handler: (event: AgentApprovalRequest) => void) => () => void;
+  onEditProposed: (handler: (event: EditProposedEvent) => void) => () => void;
+  onEditClosed: (handler: (event: EditClosedEvent) => void) => () => void;
+  onCustomCommandsChanged: (handler: (event: CustomCommandList) => void) => () => void;
+  onAgentMetrics: (handler: (event: AgentMetricsEvent) => void) => () => void;
+  onOllamaPullProgress: (handler: (event: OllamaPullProgress) => void) => () => void;
+  onOllamaHealth: (handler: (event: OllamaEndpointHealth[]) => void) => () => void;
+  onAgentQueue: (handler: (event: AgentQueueEvent) => void) => () => void;
+  onCompareUpdate: (handler: (event: CompareUpdateEvent) => void) => () => void;
+  onIndexProgress: (handler: (event: WorkspaceIndexProgress) => void) => () => void;
+  onAgentSources: (handler: (event: AgentSourcesEvent) => void) => () => void;
+  onPanePiped: (handler: (event: PanePipedEvent) => void) => () => void;
   onAgentRouted: (handler: (event: AgentRoutedEvent) => void) => () => void;
 }
 
@@ -0,0 +1,59 @@
+export interface AnswerDiffPart {
+  type: "same" | "add" | "remove";
+  text: string;
+}
+
+// Past this many tokens per side the quadratic table gets too large, so longer answers are compared line by line.
+const MAX_WORD_TOKENS = 3000;
+
+function tokenize(text: string, byLine: boolean): string[] {
+  return text.split(byLine ? /(\n)/ : /(\s+)/).filter(Boolean);
+}
+
+// Any run of whitespace matches any other, so re-wrapped text is not reported as changed.
+function tokenKey(token: string): string {
+  return /^\s+$/.test(token) ? " " : token;
+}
+
+// LCS diff of `other` against `base`: "add" is text only `other` has, "remove" is text of `base` it lacks.
+export function diffAnswers(base: string, other: string): AnswerDiffPart[] {
+  let a = tokenize(base, false);
+  let b = tokenize(other, false);
+  if (a.length > MAX_WORD_TOKENS || b.length > MAX_WORD_TOKENS) {
+    a = tokenize(base, true);
+    b = tokenize(other, true);
+  }
+  const keysA = a.map(tokenKey);
+  const keysB = b.map(tokenKey);
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] = keysA[i] === keysB[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: AnswerDiffPart[] = [];
+  const push = (type: AnswerDiffPart["type"], text: string): void => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (keysA[i] === keysB[j]) {
+      push("same", b[j]);
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("remove", a[i]);
+      i += 1;
+    } else {
+      push("add", b[j]);
+      j += 1;
+    }
+  }
+  for (; i < a.length; i += 1) push("remove", a[i]);
+  for (; j < b.length; j += 1) push("add", b[j]);
+  return parts;
+}
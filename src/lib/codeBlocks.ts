@@ -0,0 +1,89 @@
+import type { ProposedFileEdit, SuggestedCommand } from "../types";
+
+const SHELL_LANGUAGES = new Set(["", "sh", "bash", "shell", "zsh", "fish", "console", "powershell", "pwsh", "ps", "ps1", "cmd", "bat", "batch"]);
+
+// Prompt markers models like to prefix commands with; they would break the command if sent verbatim.
+function stripPromptMarker(line: string): string {
+  return line.replace(/^\s*(?:PS [^>]*>|\$|>)\s+/, "");
+}
+
+// Matches `path=src/a.ts`, `file="src/a.ts"` or `title=src/a.ts` in a fence info string.
+const FILE_ATTRIBUTE = /\b(?:path|file|title)=["']?([^"'\s]+)["']?/;
+
+export function extractShellCommands(markdown: string): SuggestedCommand[] {
+  const commands: SuggestedCommand[] = [];
+  const fence = /```([\w-]*)([^\n]*)\n([\s\S]*?)```/g;
+  let match: RegExpExecArray | null;
+  while ((match = fence.exec(markdown)) !== null) {
+    const language = match[1].toLowerCase();
+    if (!SHELL_LANGUAGES.has(language) || FILE_ATTRIBUTE.test(match[2])) continue;
+    const code = match[3]
+      .split(/\r?\n/)
+      .map(stripPromptMarker)
+      .join("\n")
+      .trim();
+    if (code) {
+      commands.push({ id: `cmd-${commands.length + 1}`, language: language || "shell", code });
+    }
+  }
+  return commands;
+}
+
+// Code blocks tagged with a file path are whole-file proposals that can be reviewed as a diff.
+export function extractFileEdits(markdown: string): ProposedFileEdit[] {
+  const edits: ProposedFileEdit[] = [];
+  const fence = /```([\w-]*)([^\n]*)\n([\s\S]*?)```/g;
+  let match: RegExpExecArray | null;
+  while ((match = fence.exec(markdown)) !== null) {
+    const path = match[2].match(FILE_ATTRIBUTE)?.[1];
+    if (path) {
+      edits.push({ path, language: match[1].toLowerCase() || "text", content: match[3] });
+    }
+  }
+  return edits;
+}
+
+// `cat <<EOF`, `<<-'END'` and PowerShell here-strings (`@"` / `@'`) run until their terminator line.
+const HEREDOC_START = /(?<!<)<<-?\s*(['"]?)([A-Za-z_][\w.-]*)\1/;
+const HERE_STRING_START = /@(["'])$/;
+// A trailing `\` (POSIX), backtick (PowerShell) or `^` (cmd) continues the command on the next line.
+const LINE_CONTINUATION = /\s*[\\`^]$/;
+
+function heredocTerminator(line: string): string | null {
+  const heredoc = line.match(HEREDOC_START);
+  if (heredoc) return heredoc[2];
+  const hereString = line.match(HERE_STRING_START);
+  return hereString ? `${hereString[1]}@` : null;
+}
+
+// Multi-line blocks run one command at a time so each command passes the execution-mode checks on its own. Continued
+// lines are joined into one command and a heredoc is kept whole with its body, since neither works split into lines.
+export function commandLines(code: string): string[] {
+  const lines = code.split(/\r?\n/).map((line) => line.trimEnd());
+  const commands: string[] = [];
+  let pending = "";
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i];
+    if (!pending && (!line.trim() || /^\s*(#|::|rem\s)/i.test(line))) continue;
+    if (LINE_CONTINUATION.test(line) && i < lines.length - 1) {
+      pending += `${line.replace(LINE_CONTINUATION, "").trim()} `;
+      continue;
+    }
+    let command = pending ? `${pending}${line.trim()}` : line;
+    pending = "";
+    const terminator = heredocTerminator(command);
+    if (terminator) {
+      const end = lines.findIndex((body, index) => index > i && body.trim() === terminator);
+      const last = end === -1 ? lines.length - 1 : end;
+      command = [command, ...lines.slice(i + 1, last + 1)].join("\n");
+      i = last;
+    }
+    commands.push(command);
+  }
+  return commands;
+}
+
+// A heredoc command keeps its line breaks, so it can be run but not edited in the single-line prompt.
+export function isSingleLineCommand(code: string): boolean {
+  return commandLines(code).every((command) => !command.includes("\n"));
+}
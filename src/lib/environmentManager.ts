@@ -3,11 +3,15 @@ import type { LayoutTemplate, ModelProvider } from "../types";
 interface EnvironmentSnapshot {
   template: LayoutTemplate;
   modelByPane: Record<string, ModelProvider>;
+  profileByPane?: Record<string, string>;
+  shellProfileByPane?: Record<string, string>;
 }
 
 export class EnvironmentManager {
   private template: LayoutTemplate = 2;
   private modelByPane = new Map<string, ModelProvider>();
+  private profileByPane = new Map<string, string>();
+  private shellProfileByPane = new Map<string, string>();
   private paneIds: string[] = [];
 
   constructor() {
@@ -31,6 +35,18 @@ export class EnvironmentManager {
       }
     }
 
+    for (const key of Array.from(this.profileByPane.keys())) {
+      if (!nextPaneIds.includes(key)) {
+        this.profileByPane.delete(key);
+      }
+    }
+
+    for (const key of Array.from(this.shellProfileByPane.keys())) {
+      if (!nextPaneIds.includes(key)) {
+        this.shellProfileByPane.delete(key);
+      }
+    }
+
     return [...this.paneIds];
   }
 
@@ -50,14 +66,48 @@ export class EnvironmentManager {
     return this.modelByPane.get(paneId) ?? "Local";
   }
 
+  // An empty name clears the pane's profile.
+  setProfile(paneId: string, profile: string): void {
+    if (profile) {
+      this.profileByPane.set(paneId, profile);
+    } else {
+      this.profileByPane.delete(paneId);
+    }
+  }
+
+  getProfile(paneId: string): string {
+    return this.profileByPane.get(paneId) ?? "";
+  }
+
+  // An empty name puts the pane back on the default shell profile.
+  setShellProfile(paneId: string, profile: string): void {
+    if (profile) {
+      this.shellProfileByPane.set(paneId, profile);
+    } else {
+      this.shellProfileByPane.delete(paneId);
+    }
+  }
+
+  getShellProfile(paneId: string): string {
+    return this.shellProfileByPane.get(paneId) ?? "";
+  }
+
   getSnapshot(): EnvironmentSnapshot {
     const modelByPane: Record<string, ModelProvider> = {};
+    const profileByPane: Record<string, string> = {};
+    const shellProfileByPane: Record<string, string> = {};
     for (const paneId of this.paneIds) {
       modelByPane[paneId] = this.getModel(paneId);
+      const profile = this.getProfile(paneId);
+      if (profile) profileByPane[paneId] = profile;
+      const shellProfile = this.getShellProfile(paneId);
+      if (shellProfile) shellProfileByPane[paneId] = shellProfile;
     }
     return {
       template: this.template,
-      modelByPane
+      modelByPane,
+      profileByPane,
+      shellProfileByPane
     };
   }
 
@@ -65,9 +115,17 @@ export class EnvironmentManager {
     const paneIds = this.applyTemplate(snapshot.template);
     for (const paneId of paneIds) {
       const model = snapshot.modelByPane[paneId];
-      if (model === "Local" || model === "Cloud") {
+      if (typeof model === "string" && model.trim()) {
         this.modelByPane.set(paneId, model);
       }
+      const profile = snapshot.profileByPane?.[paneId];
+      if (typeof profile === "string" && profile.trim()) {
+        this.profileByPane.set(paneId, profile);
+      }
+      const shellProfile = snapshot.shellProfileByPane?.[paneId];
+      if (typeof shellProfile === "string" && shellProfile.trim()) {
+        this.shellProfileByPane.set(paneId, shellProfile);
+      }
     }
     return paneIds;
   }
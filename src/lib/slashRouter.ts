@@ -1,18 +1,75 @@
-import type { AgentRoute } from "../types";
+import type { AgentRoute, PipeSource, PipeTarget } from "../types";
 
 export type ParsedInput =
   | { kind: "shell"; line: string }
-  | { kind: "agent"; route: AgentRoute; prompt: string };
+  | { kind: "agent"; route: AgentRoute; prompt: string }
+  | { kind: "agent-loop"; goal: string }
+  | { kind: "command"; name: string; args: string }
+  | { kind: "profile"; name: string }
+  | { kind: "fix"; notes: string }
+  | { kind: "ask"; question: string }
+  | { kind: "compare"; prompt: string }
+  | { kind: "pipe"; target: string; mode: PipeTarget | null; source: PipeSource | null }
+  | { kind: "reset" };
 
-export function parseInputLine(line: string): ParsedInput {
+// `routes` are the registered agent provider ids and `commands` the workspace's `.vibe/commands` names;
+// any other slash-prefixed text runs in the shell.
+export function parseInputLine(line: string, routes: AgentRoute[] = ["local"], commands: string[] = []): ParsedInput {
   const trimmed = line.trim();
   if (!trimmed) {
     return { kind: "shell", line: "" };
   }
 
-  const localMatch = trimmed.match(/^\/local(?:\s+(.*))?$/);
-  if (localMatch) {
-    return { kind: "agent", route: "local", prompt: (localMatch[1] ?? "").trim() };
+  if (/^\/reset$/.test(trimmed)) {
+    return { kind: "reset" };
+  }
+
+  const profileMatch = trimmed.match(/^\/profile(?:\s+(\S*))?\s*$/);
+  if (profileMatch) {
+    return { kind: "profile", name: (profileMatch[1] ?? "").toLowerCase() };
+  }
+
+  const fixMatch = trimmed.match(/^\/fix(?:\s+(.*))?$/);
+  if (fixMatch) {
+    return { kind: "fix", notes: (fixMatch[1] ?? "").trim() };
+  }
+
+  const askMatch = trimmed.match(/^\/ask(?:\s+(.*))?$/);
+  if (askMatch) {
+    return { kind: "ask", question: (askMatch[1] ?? "").trim() };
+  }
+
+  const compareMatch = trimmed.match(/^\/compare(?:\s+(.*))?$/);
+  if (compareMatch) {
+    return { kind: "compare", prompt: (compareMatch[1] ?? "").trim() };
+  }
+
+  // `/pipe <pane> [agent|shell|stdin] [output|answer]`; an empty target means the line needs the usage hint.
+  const pipeMatch = trimmed.match(/^\/pipe(?:\s+(.*))?$/);
+  if (pipeMatch) {
+    const [first = "", ...options] = (pipeMatch[1] ?? "").trim().split(/\s+/).filter(Boolean);
+    let target = /^\d+$/.test(first) ? `pane-${first}` : first;
+    let mode: PipeTarget | null = null;
+    let source: PipeSource | null = null;
+    for (const option of options.map((value) => value.toLowerCase())) {
+      if (option === "agent" || option === "shell" || option === "stdin") mode = option;
+      else if (option === "output" || option === "answer") source = option;
+      else target = "";
+    }
+    return { kind: "pipe", target, mode, source };
+  }
+
+  const loopMatch = trimmed.match(/^\/agent(?:\s+(.*))?$/);
+  if (loopMatch) {
+    return { kind: "agent-loop", goal: (loopMatch[1] ?? "").trim() };
+  }
+
+  const routeMatch = trimmed.match(/^\/([a-z][a-z0-9-]*)(?:\s+(.*))?$/);
+  if (routeMatch && routes.includes(routeMatch[1])) {
+    return { kind: "agent", route: routeMatch[1], prompt: (routeMatch[2] ?? "").trim() };
+  }
+  if (routeMatch && commands.includes(routeMatch[1])) {
+    return { kind: "command", name: routeMatch[1], args: (routeMatch[2] ?? "").trim() };
   }
 
   return { kind: "shell", line };
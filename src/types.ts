@@ -1,12 +1,68 @@
 export type LayoutTemplate = 2 | 4 | 6;
-export type ModelProvider = "Local" | "Cloud";
+// Display label of the agent provider a pane last routed to, e.g. "Local" or "Mock".
+export type ModelProvider = string;
 export type ExecutionMode = "sandboxed" | "system-wide" | "dual-stream";
+export type PolicyPreset = "strict" | "standard" | "permissive";
 export type PaneInputMode = "shell-line" | "interactive-passthrough";
-export type AgentRoute = "local";
+export type AgentRoute = string;
+export type AgentProviderKind = "ollama" | "openai-compatible" | "mock";
+export type CloudFallbackPolicy = "never" | "on-error" | "on-timeout";
+export type AgentQueueOrder = "fifo" | "active-first";
 export type StreamType = "thought" | "action";
+export type DualStreamSection = "plan" | "thought" | "action" | "result";
 export type ActivityFilter = "all" | "system" | "agent" | "shell" | "error";
 export type PaneActivityType = "system" | "agent" | "shell" | "error";
 
+export interface SuggestedCommand {
+  id: string;
+  language: string;
+  code: string;
+}
+
+export interface ProposedFileEdit {
+  path: string;
+  language: string;
+  content: string;
+}
+
+export interface DiffLine {
+  type: "context" | "add" | "remove";
+  text: string;
+}
+
+export interface DiffHunk {
+  index: number;
+  header: string;
+  lines: DiffLine[];
+}
+
+export interface EditProposal {
+  id: string;
+  paneId: string;
+  path: string;
+  isNewFile: boolean;
+  hunks: DiffHunk[];
+  createdAt: number;
+}
+
+export interface EditApplyResult {
+  status: "applied" | "conflict" | "discarded" | "unchanged";
+  path: string;
+  acceptedHunks: number;
+  totalHunks: number;
+  message: string;
+}
+
+export interface EditProposedEvent {
+  paneId: string;
+  proposal: EditProposal;
+}
+
+export interface EditClosedEvent {
+  paneId: string;
+  proposalId: string;
+}
+
 export interface PaneActivityItem {
   id: string;
   type: PaneActivityType;
@@ -14,6 +70,10 @@ export interface PaneActivityItem {
   summary: string;
   details?: string;
   severity?: "info" | "warn" | "error";
+  provenance?: string;
+  commands?: SuggestedCommand[];
+  edits?: ProposedFileEdit[];
+  metrics?: AgentRunMetrics;
   timestamp: number;
 }
 
@@ -25,7 +85,13 @@ export type PaletteActionId =
   | "pane:restart"
   | "pane:clear"
   | "pane:mode:shell"
-  | "pane:mode:interactive";
+  | "pane:mode:interactive"
+  | "telemetry:open"
+  | "audit:open"
+  | "session:export"
+  | "compare:open"
+  | `pipe:${"agent" | "shell"}:${string}`
+  | `shell:${string}`;
 
 export interface PaletteAction {
   id: PaletteActionId;
@@ -33,13 +99,212 @@ export interface PaletteAction {
   hint: string;
 }
 
+export interface AgentProviderConfig {
+  id: string;
+  kind: AgentProviderKind;
+  label: string;
+  endpoint: string;
+  model: string;
+  apiKey: string;
+  timeoutMs: number;
+  retries: number;
+  maxConcurrent: number;
+}
+
+export interface AgentProviderSummary {
+  id: string;
+  kind: AgentProviderKind;
+  label: string;
+  model: string;
+}
+
+export interface CustomCommandSummary {
+  name: string;
+  description: string;
+  route: string | null;
+  model: string | null;
+  file: string;
+}
+
+export interface CustomCommandList {
+  commands: CustomCommandSummary[];
+  errors: string[];
+}
+
+export interface AgentRunMetrics {
+  route: string;
+  model: string;
+  ok: boolean;
+  startedAt: number;
+  firstTokenMs: number | null;
+  totalMs: number;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  tokensPerSecond: number | null;
+  retries: number;
+}
+
+export interface AgentMetricsEvent extends AgentRunMetrics {
+  paneId: string;
+}
+
+export type AuditOrigin = "user" | "agent" | "palette";
+export type AuditInputMode = "shell-line" | "interactive-passthrough" | "tool-call" | "pipe";
+export type AuditPolicyOutcome = "allow" | "deny" | "confirmed" | "declined";
+export type AuditExportFormat = "jsonl" | "csv";
+
+export interface AuditRecord {
+  id: string;
+  ts: string;
+  paneId: string;
+  inputMode: AuditInputMode;
+  origin: AuditOrigin;
+  command: string;
+  executionMode: string;
+  policy: AuditPolicyOutcome | null;
+  policyReason: string | null;
+  exitCode: number | null;
+}
+
+export interface AuditFilter {
+  paneId?: string;
+  origin?: AuditOrigin;
+  policy?: AuditPolicyOutcome;
+  text?: string;
+}
+
+export interface AuditExportResult {
+  path: string;
+  records: number;
+}
+
+export interface TelemetryDay {
+  day: string;
+  runs: number;
+  avgTotalMs: number;
+  avgTokensPerSecond: number | null;
+}
+
+export interface ModelTelemetry {
+  route: string;
+  model: string;
+  runs: number;
+  failures: number;
+  retries: number;
+  avgFirstTokenMs: number | null;
+  avgTotalMs: number;
+  avgTokensPerSecond: number | null;
+  promptTokens: number;
+  completionTokens: number;
+  lastRunAt: number;
+  days: TelemetryDay[];
+}
+
+export interface OllamaModel {
+  name: string;
+  size: number;
+  family: string;
+  parameterSize: string;
+  quantization: string;
+  modifiedAt: string;
+}
+
+export interface OllamaModelDetails {
+  name: string;
+  family: string;
+  parameterSize: string;
+  quantization: string;
+  format: string;
+  contextLength: number | null;
+  parameters: string;
+  template: string;
+  license: string;
+}
+
+export interface OllamaPullProgress {
+  model: string;
+  status: string;
+  completed: number;
+  total: number;
+  done: boolean;
+  error?: string;
+}
+
+export type OllamaHealthState = "unknown" | "up" | "loading" | "down";
+
+// One Ollama endpoint as the background health check last saw it; "down" means requests to it fail fast.
+export interface OllamaEndpointHealth {
+  endpoint: string;
+  state: OllamaHealthState;
+  version: string;
+  loadedModels: string[];
+  loadingModels: string[];
+  latencyMs: number | null;
+  checkedAt: number;
+  failures: number;
+  error?: string;
+}
+
+export interface AgentContextOptions {
+  attachOutput: boolean;
+  lineCount: number;
+}
+
+export interface AgentTestResult {
+  ok: boolean;
+  message: string;
+}
+
+export interface AgentProfile {
+  name: string;
+  route: string;
+  model: string;
+  systemPrompt: string;
+  options: Record<string, number | string | string[]>;
+}
+
+export interface ShellProfile {
+  name: string;
+  executable: string;
+  args: string[];
+  env: Record<string, string>;
+  startupCommand: string;
+  icon: string;
+}
+
+// `detected` profiles come from installed shells rather than the vault.
+export interface ShellProfileSummary {
+  name: string;
+  executable: string;
+  icon: string;
+  detected: boolean;
+}
+
+// A pane's shell could not start; `alternatives` are the other profiles whose executable exists.
+export interface ShellSpawnFailedEvent {
+  paneId: string;
+  profile: string;
+  error: string;
+  alternatives: ShellProfileSummary[];
+}
+
 export interface VaultSettings {
   cloudApiKey: string;
   cloudApiBaseUrl: string;
-  localModel: string;
   cloudModel: string;
   executionMode: ExecutionMode;
   systemWideAcknowledged: boolean;
+  policyPreset: PolicyPreset;
+  agentProviders: AgentProviderConfig[];
+  cloudFallback: CloudFallbackPolicy;
+  agentLoopRoute: AgentRoute;
+  agentStepBudget: number;
+  agentProfiles: AgentProfile[];
+  agentQueueOrder: AgentQueueOrder;
+  embeddingModel: string;
+  ollamaWarmUp: boolean;
+  shellProfiles: ShellProfile[];
+  defaultShellProfile: string;
 }
 
 export interface AgentChunkEvent {
@@ -47,9 +312,19 @@ export interface AgentChunkEvent {
   chunk: string;
   done?: boolean;
   stream?: StreamType;
+  // Set in Dual-Stream mode; plan and thought arrive on the "thought" stream, action and result on "action".
+  section?: DualStreamSection;
   error?: string;
 }
 
+// A request waiting for a provider slot; position 0 means it just started.
+export interface AgentQueueEvent {
+  paneId: string;
+  route: AgentRoute;
+  position: number;
+  waitedMs: number;
+}
+
 export interface AgentRoutedEvent {
   paneId: string;
   model: ModelProvider;
@@ -57,15 +332,111 @@ export interface AgentRoutedEvent {
   route: AgentRoute;
 }
 
+export type AgentToolName = "run_command" | "read_file" | "write_file" | "list_dir" | "search";
+
+export interface AgentStepEvent {
+  paneId: string;
+  step: number;
+  kind: "thinking" | "tool-call" | "tool-result" | "rejected" | "final";
+  tool?: AgentToolName;
+  summary: string;
+  details?: string;
+  error?: boolean;
+}
+
+export interface AgentApprovalRequest {
+  paneId: string;
+  requestId: string;
+  step: number;
+  tool: AgentToolName;
+  summary: string;
+  details: string;
+}
+
 export interface PtyDataEvent {
   paneId: string;
   chunk: string;
 }
 
+export interface SessionExportResult {
+  markdownPath: string;
+  jsonPath: string;
+  entries: number;
+}
+
+// Progress of the /ask index update that runs before a workspace question.
+export interface WorkspaceIndexProgress {
+  paneId: string;
+  phase: "scanning" | "embedding" | "ready";
+  filesDone: number;
+  filesTotal: number;
+  indexedFiles: number;
+  chunks: number;
+}
+
+export interface WorkspaceSource {
+  path: string;
+  startLine: number;
+  endLine: number;
+  score: number;
+}
+
+export interface AgentSourcesEvent {
+  paneId: string;
+  sources: WorkspaceSource[];
+}
+
+// One model's share of a /compare run; `label` and `model` arrive with the first (empty) chunk.
+export interface CompareUpdateEvent {
+  compareId: string;
+  route: AgentRoute;
+  label: string;
+  model: string;
+  chunk: string;
+  done?: boolean;
+  error?: string;
+  metrics?: AgentRunMetrics;
+}
+
+export type PipeSource = "output" | "answer";
+export type PipeTarget = "agent" | "shell" | "stdin";
+
+// Sent to both panes after a /pipe. `error` is set instead of the rest when nothing was piped.
+export interface PanePipedEvent {
+  fromPaneId: string;
+  toPaneId: string;
+  target: PipeTarget;
+  source?: PipeSource;
+  label?: string;
+  text?: string;
+  note?: string;
+  error?: string;
+}
+
+export interface PaneRestoredEvent {
+  paneId: string;
+  // Earlier output of the pane in this workspace, ending with a "restored session" divider.
+  text: string;
+}
+
 export interface PtyExitEvent {
   paneId: string;
 }
 
+export type ShellKind = "pwsh" | "powershell" | "cmd" | "bash" | "zsh" | "fish" | "other";
+
+// A typed command that exited non-zero or printed a known error; `/fix` sends it to the agent.
+export interface CommandFailureEvent {
+  paneId: string;
+  command: string;
+  exitCode: number | null;
+  reason: string;
+  output: string;
+  cwd: string;
+  shell: ShellKind;
+  failedAt: number;
+}
+
 export interface RuntimeInfo {
   node: string;
   electron: string;
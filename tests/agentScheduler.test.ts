@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { setImmediate as settle } from "node:timers/promises";
+import { AgentScheduler, type AgentQueueStatus } from "../electron/agentScheduler";
+
+// A task that runs until the test releases it, recording when it started.
+function heldTask(started: string[], name: string): { task: () => Promise<string>; release: () => void } {
+  let release = (): void => undefined;
+  const done = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  return {
+    task: async () => {
+      started.push(name);
+      await done;
+      return name;
+    },
+    release: () => release()
+  };
+}
+
+describe("agent scheduler", () => {
+  test("runs no more than the route's limit at once", async () => {
+    const started: string[] = [];
+    const statuses: AgentQueueStatus[] = [];
+    const scheduler = new AgentScheduler((status) => statuses.push(status));
+    const tasks = ["a", "b", "c"].map((name) => heldTask(started, name));
+    const results = tasks.map((held, i) => scheduler.run({ paneId: `pane-${i}`, route: "local", limit: 2 }, held.task));
+
+    await settle();
+    assert.deepEqual(started, ["a", "b"]);
+    assert.deepEqual(statuses.map(({ paneId, position }) => [paneId, position]), [["pane-2", 1]]);
+
+    tasks[0].release();
+    await settle();
+    assert.deepEqual(started, ["a", "b", "c"]);
+    assert.deepEqual(statuses.map(({ paneId, position }) => [paneId, position]), [["pane-2", 1], ["pane-2", 0]]);
+
+    tasks[1].release();
+    tasks[2].release();
+    assert.deepEqual(await Promise.all(results), ["a", "b", "c"]);
+  });
+
+  test("keeps each route's limit separate", async () => {
+    const started: string[] = [];
+    const scheduler = new AgentScheduler(() => undefined);
+    const local = heldTask(started, "local");
+    const cloud = heldTask(started, "cloud");
+    const results = [
+      scheduler.run({ paneId: "pane-1", route: "local", limit: 1 }, local.task),
+      scheduler.run({ paneId: "pane-2", route: "cloud", limit: 1 }, cloud.task)
+    ];
+
+    await settle();
+    assert.deepEqual(started, ["local", "cloud"]);
+    local.release();
+    cloud.release();
+    await Promise.all(results);
+  });
+
+  for (const [order, expected] of [
+    ["fifo", ["first", "queued-a", "queued-b"]],
+    ["active-first", ["first", "queued-b", "queued-a"]]
+  ] as const) {
+    test(`starts queued requests in ${order} order`, async () => {
+      const started: string[] = [];
+      const scheduler = new AgentScheduler(() => undefined);
+      scheduler.setOrder(order);
+      scheduler.setActivePane("pane-b");
+      const tasks = ["first", "queued-a", "queued-b"].map((name) => heldTask(started, name));
+      const panes = ["pane-a", "pane-a", "pane-b"];
+      const results = tasks.map((held, i) => scheduler.run({ paneId: panes[i], route: "local", limit: 1 }, held.task));
+
+      for (const held of tasks) {
+        await settle();
+        held.release();
+        await settle();
+      }
+      await Promise.all(results);
+      assert.deepEqual(started, expected);
+    });
+  }
+
+  test("drops a queued request when its signal aborts", async () => {
+    const started: string[] = [];
+    const statuses: AgentQueueStatus[] = [];
+    const scheduler = new AgentScheduler((status) => statuses.push(status));
+    const running = heldTask(started, "running");
+    const queued = heldTask(started, "queued");
+    const controller = new AbortController();
+    const first = scheduler.run({ paneId: "pane-1", route: "local", limit: 1 }, running.task);
+    const second = scheduler.run({ paneId: "pane-2", route: "local", limit: 1, signal: controller.signal }, queued.task);
+
+    await settle();
+    controller.abort();
+    await assert.rejects(second, /cancelled while queued/);
+    running.release();
+    await first;
+    assert.deepEqual(started, ["running"]);
+    assert.ok(statuses.every((status) => status.position !== 0));
+  });
+
+  test("refuses a request whose signal is already aborted", async () => {
+    const scheduler = new AgentScheduler(() => undefined);
+    const controller = new AbortController();
+    controller.abort();
+    await assert.rejects(scheduler.run({ paneId: "pane-1", route: "local", limit: 1, signal: controller.signal }, async () => "never"), /cancelled/);
+  });
+});
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, test } from "node:test";
+import { evaluateCommand, loadCommandPolicy, type PolicyAction, type PolicyContext, type PolicyPreset } from "../electron/commandPolicy";
+
+const ROOT = fs.mkdtempSync(path.join(os.tmpdir(), "vibe-policy-"));
+const CONTEXT: PolicyContext = { root: ROOT, home: "/home/dev", platform: "linux", auditDir: "/data/vibe/audit" };
+
+after(() => fs.rmSync(ROOT, { recursive: true, force: true }));
+
+// Writes the workspace's `.vibe/policy.json`, or removes it when `file` is null.
+function writePolicyFile(file: object | null): void {
+  const target = path.join(ROOT, ".vibe", "policy.json");
+  if (file === null) {
+    fs.rmSync(target, { force: true });
+    return;
+  }
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, JSON.stringify(file));
+}
+
+function decide(line: string, preset: PolicyPreset, file: object | null = null): PolicyAction {
+  writePolicyFile(file);
+  return evaluateCommand(line, loadCommandPolicy(ROOT, preset), CONTEXT).action;
+}
+
+describe("rule order", () => {
+  test("machine rules come before the workspace's", () => {
+    const file = { rules: [{ action: "allow", commands: ["sudo", "dd"] }] };
+    assert.equal(decide("sudo npm install", "permissive", file), "deny");
+    assert.equal(decide("dd if=/dev/zero of=disk.img", "permissive", file), "deny");
+  });
+
+  test("protected files stay protected from an allow-everything workspace rule", () => {
+    const file = { default: "allow", rules: [{ action: "allow" }] };
+    assert.equal(decide("echo {} > .vibe/policy.json", "permissive", file), "deny");
+    assert.equal(decide("rm -r .vibe", "permissive", file), "deny");
+    assert.equal(decide("rm /data/vibe/audit/project.jsonl", "permissive", file), "deny");
+  });
+
+  test("reading a protected file is allowed", () => {
+    assert.equal(decide("cat .vibe/policy.json", "standard"), "allow");
+    assert.equal(decide("grep deny .vibe/policy.json > notes.txt", "standard"), "allow");
+  });
+
+  test("workspace rules come before the preset's", () => {
+    assert.equal(decide("npm publish", "permissive", { rules: [{ action: "deny", commands: ["npm"], args: "^publish" }] }), "deny");
+    assert.equal(decide("rm -r build", "standard", { rules: [{ action: "allow", commands: ["rm"], args: "build" }] }), "allow");
+    assert.equal(decide("rm -r build", "standard"), "confirm");
+  });
+});
+
+describe("workspace presets only tighten", () => {
+  test("a stricter workspace preset wins", () => {
+    assert.equal(decide("npm test", "permissive", { preset: "strict" }), "confirm");
+  });
+
+  test("a looser workspace preset or default is ignored", () => {
+    assert.equal(decide("npm test", "strict", { preset: "permissive" }), "confirm");
+    assert.equal(decide("npm test", "strict", { default: "allow" }), "confirm");
+    assert.equal(decide("npm test", "standard", { default: "deny" }), "deny");
+  });
+
+  test("an unknown preset is refused rather than ignored", () => {
+    writePolicyFile({ preset: "open" });
+    assert.throws(() => loadCommandPolicy(ROOT, "standard"), /"preset" must be one of/);
+    writePolicyFile(null);
+  });
+});
+
+describe("nested scripts", () => {
+  test("scripts passed to a shell are checked", () => {
+    assert.equal(decide('bash -c "sudo rm -rf /"', "permissive"), "deny");
+    assert.equal(decide("sh -c 'git status && rm -r dist'", "standard"), "confirm");
+    assert.equal(decide('pwsh -Command "Remove-Item build -Recurse"', "standard"), "confirm");
+  });
+
+  test("command substitutions are checked", () => {
+    assert.equal(decide("echo $(sudo whoami)", "permissive"), "deny");
+    assert.equal(decide("ls $(cat ../secrets.txt)", "standard"), "deny");
+  });
+
+  test("eval and wrappers are checked as the command they run", () => {
+    assert.equal(decide('eval "rm -rf build"', "standard"), "confirm");
+    assert.equal(decide("env CI=1 nohup sudo make install", "permissive"), "deny");
+  });
+
+  test("the strictest part of a line decides it", () => {
+    assert.equal(decide("ls && git status | grep src", "strict"), "allow");
+    assert.equal(decide("ls && npm test", "strict"), "confirm");
+    assert.equal(decide("ls; cat ~/.ssh/id_rsa", "standard"), "deny");
+  });
+});
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { describe, test } from "node:test";
+import { createDualStreamParser, type DualStreamSection } from "../electron/dualStream";
+
+// Compiled to dist-test/tests, so the fixtures are two levels up from here.
+const FIXTURES_DIR = path.join(__dirname, "..", "..", "tests", "fixtures", "dual-stream");
+
+// Feeds the tokens and checks that what was emitted while streaming adds up to what `finish` returns.
+function parse(tokens: string[]): Record<DualStreamSection, string> {
+  const emitted: Record<DualStreamSection, string> = { plan: "", thought: "", action: "", result: "" };
+  const parser = createDualStreamParser((section, chunk) => {
+    emitted[section] += chunk;
+  });
+  for (const token of tokens) parser.push(token);
+  const sections = parser.finish();
+  assert.deepEqual(emitted, sections);
+  return sections;
+}
+
+// Cuts the text into tokens of one to seven characters, so tags land across token boundaries in many places.
+function chunked(text: string): string[] {
+  const tokens: string[] = [];
+  let size = 1;
+  for (let i = 0; i < text.length; i += size) {
+    size = (size % 7) + 1;
+    tokens.push(text.slice(i, i + size));
+  }
+  return tokens;
+}
+
+describe("dual-stream fixtures", () => {
+  const names = fs
+    .readdirSync(FIXTURES_DIR)
+    .filter((name) => name.endsWith(".txt"))
+    .map((name) => name.slice(0, -".txt".length));
+
+  for (const name of names) {
+    const reply = fs.readFileSync(path.join(FIXTURES_DIR, `${name}.txt`), "utf8");
+    const expected = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), "utf8")) as Record<DualStreamSection, string>;
+
+    test(`${name} in one token`, () => {
+      assert.deepEqual(parse([reply]), expected);
+    });
+
+    test(`${name} character by character`, () => {
+      assert.deepEqual(parse([...reply]), expected);
+    });
+
+    test(`${name} in uneven tokens`, () => {
+      assert.deepEqual(parse(chunked(reply)), expected);
+    });
+  }
+});
+
+describe("dual-stream tags split across tokens", () => {
+  test("a bracket tag", () => {
+    assert.deepEqual(parse(["[PL", "AN]\nlook\n[AC", "TI", "ON", "]\nls\n"]), { plan: "look\n", thought: "", action: "ls\n", result: "" });
+  });
+
+  test("an index that only looks like a tag once its bracket arrives", () => {
+    assert.equal(parse(["[ACTION]\nprint(items[res", "ult", "])\n"]).action, "print(items[result])\n");
+  });
+
+  test("a prose label whose text arrives later", () => {
+    assert.equal(parse(["[ACTION]\nok\nResult:", " it ran\n"]).action, "ok\nResult: it ran\n");
+  });
+
+  test("a fence opened in one token and a tag in the next", () => {
+    assert.equal(parse(["[ACTION]\n``", "`\n[RESULT]\n``", "`\n"]).action, "```\n[RESULT]\n```\n");
+  });
+});
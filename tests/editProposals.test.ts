@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, test } from "node:test";
+import { EditProposalStore } from "../electron/editProposals";
+
+const ROOT = fs.mkdtempSync(path.join(os.tmpdir(), "vibe-edits-"));
+
+after(() => fs.rmSync(ROOT, { recursive: true, force: true }));
+
+// Twenty numbered lines, far enough apart that changes to the first and last few land in separate hunks.
+const LINES = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+
+function writeFile(name: string, content: string): void {
+  fs.writeFileSync(path.join(ROOT, name), content);
+}
+
+function readFile(name: string): string {
+  return fs.readFileSync(path.join(ROOT, name), "utf8");
+}
+
+function replaced(lines: string[], changes: Record<number, string>): string[] {
+  return lines.map((line, i) => changes[i] ?? line);
+}
+
+describe("edit proposals", () => {
+  test("applies only the accepted hunks", () => {
+    writeFile("partial.txt", `${LINES.join("\n")}\n`);
+    const store = new EditProposalStore();
+    const proposal = store.propose(ROOT, "pane-1", "partial.txt", `${replaced(LINES, { 1: "second", 18: "nineteenth" }).join("\n")}\n`);
+    assert.equal(proposal.hunks.length, 2);
+    assert.equal(proposal.isNewFile, false);
+
+    const result = store.apply(proposal.id, [1]);
+    assert.equal(result.status, "applied");
+    assert.equal(result.acceptedHunks, 1);
+    assert.equal(result.totalHunks, 2);
+    assert.equal(readFile("partial.txt"), `${replaced(LINES, { 18: "nineteenth" }).join("\n")}\n`);
+    assert.throws(() => store.apply(proposal.id, [0]), /no longer exists/);
+  });
+
+  test("leaves the file alone when no hunk is accepted", () => {
+    writeFile("none.txt", LINES.join("\n"));
+    const store = new EditProposalStore();
+    const proposal = store.propose(ROOT, "pane-1", "none.txt", replaced(LINES, { 5: "sixth" }).join("\n"));
+    assert.equal(store.apply(proposal.id, [7]).status, "unchanged");
+    assert.equal(readFile("none.txt"), LINES.join("\n"));
+  });
+
+  test("refuses to apply after the file changed on disk", () => {
+    writeFile("conflict.txt", LINES.join("\n"));
+    const store = new EditProposalStore();
+    const proposal = store.propose(ROOT, "pane-1", "conflict.txt", replaced(LINES, { 0: "first" }).join("\n"));
+    writeFile("conflict.txt", replaced(LINES, { 10: "edited by hand" }).join("\n"));
+
+    const result = store.apply(proposal.id, [0]);
+    assert.equal(result.status, "conflict");
+    assert.equal(result.acceptedHunks, 0);
+    assert.equal(readFile("conflict.txt"), replaced(LINES, { 10: "edited by hand" }).join("\n"));
+    assert.equal(store.listForPane("pane-1").length, 1);
+  });
+
+  test("keeps the file's CRLF line endings", () => {
+    writeFile("windows.txt", `${LINES.join("\r\n")}\r\n`);
+    const store = new EditProposalStore();
+    const proposal = store.propose(ROOT, "pane-1", "windows.txt", `${replaced(LINES, { 3: "fourth" }).join("\n")}\n`);
+    assert.equal(proposal.hunks.length, 1);
+    assert.ok(proposal.hunks[0].lines.every((line) => !line.text.includes("\r")));
+
+    assert.equal(store.apply(proposal.id, [0]).status, "applied");
+    assert.equal(readFile("windows.txt"), `${replaced(LINES, { 3: "fourth" }).join("\r\n")}\r\n`);
+  });
+
+  test("creates new files and their folders", () => {
+    const store = new EditProposalStore();
+    const proposal = store.propose(ROOT, "pane-2", "src/new.ts", "export {};\n");
+    assert.equal(proposal.isNewFile, true);
+    assert.equal(proposal.path, "src/new.ts");
+    assert.equal(store.apply(proposal.id, [0]).status, "applied");
+    assert.equal(readFile("src/new.ts"), "export {};\n");
+  });
+
+  test("refuses paths outside the workspace", () => {
+    const store = new EditProposalStore();
+    assert.throws(() => store.propose(ROOT, "pane-1", "../outside.txt", "x"));
+  });
+
+  test("drops a closed pane's proposals", () => {
+    writeFile("drop.txt", "a\n");
+    const store = new EditProposalStore();
+    const kept = store.propose(ROOT, "pane-1", "drop.txt", "b\n");
+    const dropped = store.propose(ROOT, "pane-2", "drop.txt", "c\n");
+    assert.deepEqual(store.dropPane("pane-2"), [dropped.id]);
+    assert.deepEqual(store.listForPane("pane-1").map((proposal) => proposal.id), [kept.id]);
+    assert.equal(store.discard(dropped.id), null);
+  });
+});